@@ -0,0 +1,37 @@
+import * as net from 'net';
+
+/**
+ * SSH_ASKPASS helper, run by ssh (under VS Code's node) for each prompt
+ * Forwards the prompt to the SSHarbor terminal that started ssh and prints
+ * the answer. Exits with 1 when the prompt was cancelled.
+ */
+function main(): void {
+  const handle = process.env.SSHARBOR_ASKPASS_HANDLE;
+  const token = process.env.SSHARBOR_ASKPASS_TOKEN;
+  if (!handle || !token) {
+    process.exit(1);
+  }
+
+  let data = '';
+  const socket = net.connect(handle, () => {
+    socket.write(JSON.stringify({ token, prompt: process.argv[2] ?? '' }) + '\n');
+  });
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk: string) => (data += chunk));
+  socket.on('error', () => process.exit(1));
+  socket.on('end', () => {
+    try {
+      const { answer } = JSON.parse(data);
+      if (typeof answer === 'string') {
+        process.stdout.write(answer + '\n');
+        process.exit(0);
+      }
+    } catch {
+      // Fall through: no answer
+    }
+    process.exit(1);
+  });
+}
+
+main();
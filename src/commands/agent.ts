@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { ConnectionCommandArg, SSHConnectionInfo, extractConnectionInfo } from '../types';
+import { ConfigManager } from '../core/config';
+import { listSSHKeys } from '../core/keys';
+import { runInTerminal } from '../core/terminal';
+import {
+  AGENT_LIFETIMES,
+  AgentStatus,
+  buildAgentAddArgs,
+  getAgentStatus,
+  getIdentityFingerprint,
+  isIdentityLoaded,
+} from '../core/agent';
+
+/**
+ * Ask the agent for its keys, with an error message if it cannot be reached
+ * Returns undefined if there is no usable agent.
+ */
+async function requireAgent(): Promise<AgentStatus | undefined> {
+  const status = await getAgentStatus();
+  if (!status.available) {
+    vscode.window.showErrorMessage(`SSHarbor: ssh-agent not available - ${status.error}`);
+    return undefined;
+  }
+  return status;
+}
+
+/**
+ * Pick a key in ~/.ssh, marking the ones already loaded
+ */
+async function pickKey(status: AgentStatus): Promise<string | undefined> {
+  const keys = listSSHKeys();
+  if (keys.length === 0) {
+    vscode.window.showInformationMessage('SSHarbor: No keys found in ~/.ssh');
+    return undefined;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    keys.map((keyPath) => ({
+      label: keyPath,
+      description: isIdentityLoaded(keyPath, status.keys) ? 'loaded' : undefined,
+      keyPath,
+    })),
+    { title: 'Add Key to Agent: Select a key' }
+  );
+  return picked?.keyPath;
+}
+
+/**
+ * Load a key into ssh-agent for a chosen lifetime
+ * ssh-add runs in a terminal so it can ask for the passphrase.
+ * Returns true if the key was added.
+ */
+export async function addKeyToAgent(identityFile?: string): Promise<boolean> {
+  const status = await requireAgent();
+  if (!status) return false;
+
+  const keyPath = identityFile ?? (await pickKey(status));
+  if (!keyPath) return false;
+
+  if (isIdentityLoaded(keyPath, status.keys)) {
+    const choice = await vscode.window.showInformationMessage(
+      `SSHarbor: ${keyPath} is already loaded in the agent`,
+      'Add Again'
+    );
+    if (choice !== 'Add Again') return false;
+  }
+
+  const lifetime = await vscode.window.showQuickPick(
+    AGENT_LIFETIMES.map((l) => ({ label: l.label, seconds: l.seconds })),
+    { title: `Add ${keyPath} to Agent: Keep it loaded for` }
+  );
+  if (!lifetime) return false;
+
+  const code = await runInTerminal('Add Key to Agent', 'ssh-add', buildAgentAddArgs(keyPath, lifetime.seconds));
+  if (code !== 0) {
+    vscode.window.showErrorMessage(`SSHarbor: ssh-add failed for ${keyPath}`);
+    return false;
+  }
+
+  vscode.window.showInformationMessage(`SSHarbor: Added ${keyPath} to the agent (${lifetime.label.toLowerCase()})`);
+  return true;
+}
+
+/**
+ * List the keys in the agent along with the vessels that use them
+ */
+async function showAgentKeys(configManager: ConfigManager): Promise<void> {
+  const status = await requireAgent();
+  if (!status) return;
+
+  let infos: SSHConnectionInfo[] = [];
+  try {
+    infos = configManager.getConnectionInfos();
+  } catch (error) {
+    console.error('SSHarbor: Error loading vessels for agent keys:', error);
+  }
+
+  // Vessel names per fingerprint, and identity files that are not loaded
+  const usedBy = new Map<string, string[]>();
+  const missing = new Map<string, string[]>();
+  for (const info of infos) {
+    if (!info.identityFile) continue;
+    const fingerprint = getIdentityFingerprint(info.identityFile);
+    const loaded = isIdentityLoaded(info.identityFile, status.keys);
+    const target = loaded ? usedBy : missing;
+    const key = loaded && fingerprint ? fingerprint : info.identityFile;
+    target.set(key, [...(target.get(key) || []), info.name]);
+  }
+
+  type AgentPick = vscode.QuickPickItem & { identityFile?: string };
+  const items: AgentPick[] = status.keys.map((k) => ({
+    label: `$(key) ${k.comment || k.fingerprint}`,
+    description: `${k.type} ${k.bits}`,
+    detail: `${k.fingerprint}${usedBy.has(k.fingerprint) ? ` - used by ${usedBy.get(k.fingerprint)!.join(', ')}` : ''}`,
+  }));
+
+  if (missing.size > 0) {
+    items.push({ label: 'Not loaded', kind: vscode.QuickPickItemKind.Separator });
+    for (const [identityFile, names] of missing) {
+      items.push({
+        label: `$(add) ${identityFile}`,
+        description: 'Add to agent',
+        detail: `Used by ${names.join(', ')}`,
+        identityFile,
+      });
+    }
+  }
+
+  if (items.length === 0) {
+    vscode.window.showInformationMessage('SSHarbor: The agent holds no keys');
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: `ssh-agent: ${status.keys.length} key${status.keys.length === 1 ? '' : 's'} loaded`,
+  });
+  if (picked?.identityFile) {
+    await addKeyToAgent(picked.identityFile);
+  }
+}
+
+/**
+ * Register ssh-agent commands
+ */
+export function registerAgentCommands(context: vscode.ExtensionContext, configManager: ConfigManager): void {
+  // Add a vessel's identity file (or a picked key) to the agent
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.addKeyToAgent', async (itemOrInfo?: ConnectionCommandArg) => {
+      const info = extractConnectionInfo(itemOrInfo);
+      if (info && !info.identityFile) {
+        vscode.window.showInformationMessage(`SSHarbor: ${info.name} has no identity file configured`);
+        return false;
+      }
+      return addKeyToAgent(info?.identityFile);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.showAgentKeys', () => showAgentKeys(configManager))
+  );
+}
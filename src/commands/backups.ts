@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from '../core/config';
+import { BackupEntry } from '../core/backups';
+
+const BACKUP_SCHEME = 'ssharbor-backup';
+
+/**
+ * Pick a backup, show it against the current file and restore it after confirmation
+ */
+async function restoreBackup(
+  configManager: ConfigManager,
+  setPreview: (uri: vscode.Uri, content: string) => void
+): Promise<void> {
+  const backups = configManager.listBackups();
+  if (backups.length === 0) {
+    vscode.window.showInformationMessage('SSHarbor: No backups yet. They are taken before each save.');
+    return;
+  }
+
+  const current = new Map<string, string>();
+  const items: Array<vscode.QuickPickItem & { entry: BackupEntry }> = backups.map((entry) => {
+    if (!current.has(entry.fileName)) {
+      current.set(entry.fileName, configManager.summarizeBackup(entry, true));
+    }
+    return {
+      label: entry.date.toLocaleString(),
+      description: entry.fileName,
+      detail: `${configManager.summarizeBackup(entry)} (now: ${current.get(entry.fileName)})`,
+      entry,
+    };
+  });
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: 'SSHarbor: Restore Backup',
+    placeHolder: 'Select a backup to compare with the current file',
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  if (!picked) return;
+
+  const { entry } = picked;
+  const stamp = entry.date.getTime();
+  const currentUri = vscode.Uri.parse(`${BACKUP_SCHEME}:/current/${stamp}/${entry.fileName}`);
+  const backupUri = vscode.Uri.parse(`${BACKUP_SCHEME}:/backup/${stamp}/${entry.fileName}`);
+  setPreview(currentUri, configManager.readBackupContent(entry, true));
+  setPreview(backupUri, configManager.readBackupContent(entry));
+
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    currentUri,
+    backupUri,
+    `${entry.fileName}: Current ↔ Backup of ${picked.label}`
+  );
+
+  const choice = await vscode.window.showWarningMessage(
+    `SSHarbor: Restore ${entry.fileName} from ${picked.label}?`,
+    {
+      modal: true,
+      detail: `Backup: ${configManager.summarizeBackup(entry)}\nNow: ${current.get(entry.fileName)}\n\n` +
+        'The current file is backed up first.',
+    },
+    'Restore'
+  );
+  if (choice !== 'Restore') return;
+
+  if (configManager.restoreDisablesEncryption(entry)) {
+    const plain = await vscode.window.showWarningMessage(
+      'SSHarbor: Restore harbor.json unencrypted?',
+      {
+        modal: true,
+        detail:
+          'This backup is plain JSON and harbor.json is locked, so it cannot be encrypted on the way back: ' +
+          'restoring it turns encryption off. Unlock the configuration first to keep it encrypted.',
+      },
+      'Restore Unencrypted'
+    );
+    if (plain !== 'Restore Unencrypted') return;
+  }
+
+  try {
+    await configManager.restoreBackup(entry);
+    vscode.window.showInformationMessage(`SSHarbor: Restored ${entry.fileName} from ${picked.label}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+  }
+}
+
+/**
+ * Register backup commands
+ */
+export function registerBackupCommands(context: vscode.ExtensionContext, configManager: ConfigManager): void {
+  const previews = new Map<string, string>();
+  const onDidChange = new vscode.EventEmitter<vscode.Uri>();
+
+  context.subscriptions.push(
+    onDidChange,
+    vscode.workspace.registerTextDocumentContentProvider(BACKUP_SCHEME, {
+      onDidChange: onDidChange.event,
+      provideTextDocumentContent: (uri) => previews.get(uri.toString()) || '',
+    })
+  );
+
+  const setPreview = (uri: vscode.Uri, content: string) => {
+    previews.set(uri.toString(), content);
+    onDidChange.fire(uri);
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.restoreBackup', () => restoreBackup(configManager, setPreview))
+  );
+}
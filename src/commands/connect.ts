@@ -1,7 +1,169 @@
 import * as vscode from 'vscode';
-import { SSHConnectionInfo, VesselItem } from '../types';
+import { ConnectionCommandArg, SSHConnectionInfo, VesselCredentials, extractConnectionInfo } from '../types';
 import { ConfigManager } from '../core/config';
-import { buildSSHCommand, ensureSSHConfigEntry } from '../core/ssh';
+import { buildTerminalArgs, expandPath } from '../core/ssh';
+import { isValidRemotePath } from '../core/security';
+import { ensureSSHConfigEntry } from '../core/ssh-config';
+import { probeRemoteHome } from '../core/remote-home';
+import { getFleetThemeColorId } from '../core/colors';
+import { AskpassHandler, isTargetPasswordPrompt, parseAskpassPrompt } from '../core/askpass';
+import { AskpassPseudoterminal } from '../core/terminal';
+
+/**
+ * Make sure Remote SSH can resolve SSHarbor aliases (Include in ~/.ssh/config)
+ */
+async function ensureSSHConfigInclude(): Promise<boolean> {
+  const included = await vscode.commands.executeCommand<boolean>('ssharbor.ensureSshConfigInclude');
+  if (!included) {
+    vscode.window.showWarningMessage(
+      'SSHarbor: Remote SSH needs the Include line in ~/.ssh/config. Use "Connect via Terminal" instead, or run "SSHarbor: Regenerate SSH Config" to set it up.'
+    );
+  }
+  return !!included;
+}
+
+/**
+ * Check the vessel's pinned host key fingerprint, if it has one
+ */
+async function verifyHostKey(info: SSHConnectionInfo): Promise<boolean> {
+  return !!(await vscode.commands.executeCommand<boolean>('ssharbor.verifyHostKey', info));
+}
+
+/**
+ * Ask for confirmation before connecting to a protected vessel
+ * If harbor.json cannot be loaded the policy cannot be checked, so the user
+ * is asked as well (and the connection is treated as protected).
+ */
+async function confirmProtectedConnection(
+  configManager: ConfigManager,
+  info: SSHConnectionInfo
+): Promise<'unprotected' | 'confirmed' | 'cancelled'> {
+  let reason: string | undefined;
+  let confirmByTyping = false;
+  try {
+    reason = configManager.checkProtection(info);
+    confirmByTyping = !!configManager.loadConfig().policy?.confirmByTypingName;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const choice = await vscode.window.showWarningMessage(
+      `SSHarbor: Cannot check whether "${info.name}" is protected`,
+      { modal: true, detail: `harbor.json could not be loaded: ${message}` },
+      'Connect Anyway'
+    );
+    return choice === 'Connect Anyway' ? 'confirmed' : 'cancelled';
+  }
+
+  if (!reason) {
+    return 'unprotected';
+  }
+
+  if (confirmByTyping) {
+    const typed = await vscode.window.showInputBox({
+      title: `⚠ ${info.name} is protected (${reason})`,
+      prompt: `Type "${info.name}" to connect to ${info.user}@${info.host}`,
+      placeHolder: info.name,
+      ignoreFocusOut: true,
+      validateInput: (value) =>
+        value === info.name ? undefined : 'Type the vessel name exactly to confirm',
+    });
+    return typed === info.name ? 'confirmed' : 'cancelled';
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `SSHarbor: "${info.name}" is protected`,
+    {
+      modal: true,
+      detail: `This vessel is protected by ${reason}.\n\nConnect to ${info.user}@${info.host}?`,
+    },
+    'Connect'
+  );
+  return choice === 'Connect' ? 'confirmed' : 'cancelled';
+}
+
+/**
+ * Checks before anything connects to a vessel (Remote SSH, terminal, tunnel):
+ * confirmation for protected vessels, then its pinned host key
+ */
+export async function confirmBoarding(
+  configManager: ConfigManager,
+  info: SSHConnectionInfo
+): Promise<'unprotected' | 'confirmed' | 'cancelled'> {
+  const protection = await confirmProtectedConnection(configManager, info);
+  if (protection === 'cancelled' || !(await verifyHostKey(info))) {
+    return 'cancelled';
+  }
+  return protection;
+}
+
+/**
+ * Detect the vessel's home directory over SSH and cache it
+ * Throws if the probe fails
+ */
+async function detectRemoteHome(
+  configManager: ConfigManager,
+  info: SSHConnectionInfo
+): Promise<string> {
+  const home = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `SSHarbor: Detecting home directory on ${info.name}...`,
+    },
+    () => probeRemoteHome(info)
+  );
+
+  configManager.setDetectedRemoteHome(info, home);
+  return home;
+}
+
+/**
+ * Home directory of the vessel's user: remoteHome from harbor.json, else the
+ * one detected on an earlier connect, else detected now (once, then cached).
+ * Falls back to /root or /home/<user> if detection fails, e.g. when the key
+ * needs a passphrase that is not in the agent.
+ */
+async function getRemoteHome(configManager: ConfigManager, info: SSHConnectionInfo): Promise<string> {
+  if (info.remoteHome) {
+    if (!info.remoteHome.startsWith('/') || !isValidRemotePath(info.remoteHome)) {
+      throw new Error(`Invalid remote home: ${info.remoteHome}`);
+    }
+    return info.remoteHome;
+  }
+
+  const detected = configManager.getDetectedRemoteHome(info);
+  if (detected) {
+    return detected;
+  }
+
+  try {
+    return await detectRemoteHome(configManager, info);
+  } catch (error) {
+    console.error(`SSHarbor: Could not detect home directory on ${info.name}:`, error);
+    return info.user === 'root' ? '/root' : `/home/${info.user}`;
+  }
+}
+
+/**
+ * Folder a Remote SSH window opens: the vessel's working directory, else home
+ * Remote SSH needs an absolute path, so ~ is replaced by the home directory
+ */
+async function getRemoteFolder(configManager: ConfigManager, info: SSHConnectionInfo): Promise<string> {
+  const dir = info.workingDirectory;
+
+  if (dir && !isValidRemotePath(dir)) {
+    throw new Error(`Invalid working directory: ${dir}`);
+  }
+  if (dir && !dir.startsWith('~')) {
+    return dir.length > 1 ? dir.replace(/\/$/, '') : dir;
+  }
+
+  const homePath = await getRemoteHome(configManager, info);
+  if (!dir) {
+    return homePath;
+  }
+
+  const absolute = homePath.replace(/\/$/, '') + dir.slice(1);
+  return absolute.length > 1 ? absolute.replace(/\/$/, '') : absolute || '/';
+}
 
 /**
  * Connect to a vessel via VS Code Remote SSH
@@ -12,13 +174,21 @@ export async function connect(
   info: SSHConnectionInfo
 ): Promise<void> {
   try {
-    const homePath = info.user === 'root' ? '/root' : `/home/${info.user}`;
+    if ((await confirmBoarding(configManager, info)) === 'cancelled') {
+      return;
+    }
+
+    if (!(await ensureSSHConfigInclude())) {
+      return;
+    }
+
+    const folderPath = await getRemoteFolder(configManager, info);
 
     // Ensure SSH config entry exists with correct identity file
     const sshAlias = ensureSSHConfigEntry(info);
 
-    // Build the remote URI - always open home directory
-    const remoteUri = vscode.Uri.parse(`vscode-remote://ssh-remote+${sshAlias}${homePath}`);
+    // Build the remote URI - working directory or home
+    const remoteUri = vscode.Uri.parse(`vscode-remote://ssh-remote+${sshAlias}${folderPath}`);
 
     // Open folder in new window with Remote SSH
     await vscode.commands.executeCommand('vscode.openFolder', remoteUri, {
@@ -31,6 +201,8 @@ export async function connect(
       user: info.user,
       port: info.port,
       identityFile: info.identityFile,
+      jumpHosts: info.jumpHosts,
+      vesselId: info.vesselId,
       fleetName: info.fleetName,
       vesselName: info.name,
     });
@@ -54,6 +226,14 @@ export async function connectToFolder(
   folderPath: string
 ): Promise<void> {
   try {
+    if ((await confirmBoarding(configManager, info)) === 'cancelled') {
+      return;
+    }
+
+    if (!(await ensureSSHConfigInclude())) {
+      return;
+    }
+
     // Ensure SSH config entry exists
     const sshAlias = ensureSSHConfigEntry(info);
 
@@ -66,7 +246,7 @@ export async function connectToFolder(
     });
 
     // Update the path to be most recent
-    configManager.addVesselPath(info.host, info.user, info.port, folderPath);
+    configManager.addVesselPath(info, folderPath);
 
     // Add to recent connections
     configManager.addRecent({
@@ -74,6 +254,8 @@ export async function connectToFolder(
       user: info.user,
       port: info.port,
       identityFile: info.identityFile,
+      jumpHosts: info.jumpHosts,
+      vesselId: info.vesselId,
       fleetName: info.fleetName,
       vesselName: info.name,
     });
@@ -85,24 +267,93 @@ export async function connectToFolder(
   }
 }
 
+/**
+ * Answer ssh's prompts in a terminal with stored credentials
+ * The stored password and passphrase are offered once each, so a rejected
+ * one is asked for instead of retried; other prompts (jump hosts, one-time
+ * codes) are asked for, host key questions get a confirmation dialog.
+ */
+function createPromptHandler(info: SSHConnectionInfo, credentials: VesselCredentials): AskpassHandler {
+  const used = new Set<'password' | 'passphrase'>();
+
+  return async (prompt) => {
+    const parsed = parseAskpassPrompt(prompt);
+
+    if (parsed.kind === 'confirm') {
+      const choice = await vscode.window.showWarningMessage(
+        `SSHarbor: ${info.name}`,
+        { modal: true, detail: prompt.trim() },
+        'Yes'
+      );
+      return choice === 'Yes' ? 'yes' : 'no';
+    }
+
+    if (isTargetPasswordPrompt(parsed, info) && credentials.password && !used.has('password')) {
+      used.add('password');
+      return credentials.password;
+    }
+
+    const isIdentity =
+      parsed.kind === 'passphrase' && !!info.identityFile && parsed.keyPath === expandPath(info.identityFile);
+    if (isIdentity && credentials.passphrase && !used.has('passphrase')) {
+      used.add('passphrase');
+      return credentials.passphrase;
+    }
+
+    return vscode.window.showInputBox({
+      title: `SSHarbor: ${info.name}`,
+      prompt: prompt.trim(),
+      password: true,
+      ignoreFocusOut: true,
+    });
+  };
+}
+
 /**
  * Open SSH terminal (traditional terminal connection)
+ * Starts in the vessel's working directory and runs its startup commands
+ * unless `skipStartup` is set. Vessels with a stored password or passphrase
+ * get a terminal that runs ssh directly and answers its prompts.
  */
 export async function connectTerminal(
   configManager: ConfigManager,
-  info: SSHConnectionInfo
+  info: SSHConnectionInfo,
+  options: { skipStartup?: boolean } = {}
 ): Promise<void> {
   try {
-    const sshCommand = buildSSHCommand(info);
+    const protection = await confirmBoarding(configManager, info);
+    if (protection === 'cancelled') {
+      return;
+    }
 
-    const terminal = vscode.window.createTerminal({
-      name: `SSH: ${info.name}`,
+    // Only a shell set in harbor.json is started; otherwise ssh runs the login shell
+    const session = {
+      remoteShell: info.configuredShell,
+      workingDirectory: options.skipStartup ? undefined : info.workingDirectory,
+      startupCommands: options.skipStartup ? undefined : info.startupCommands,
+    };
+    const fleetColor = getFleetThemeColorId(info.fleetColor);
+    // Protected vessels keep a warning in the terminal tab for the whole session
+    const isProtected = protection === 'confirmed';
+
+    const terminalOptions = {
+      name: isProtected ? `⚠ PROTECTED SSH: ${info.name}` : `SSH: ${info.name}`,
       location: vscode.TerminalLocation.Panel,
       isTransient: false,
-    });
-
-    terminal.show();
-    terminal.sendText(sshCommand);
+      iconPath: new vscode.ThemeIcon(isProtected ? 'warning' : 'terminal'),
+      color: fleetColor ? new vscode.ThemeColor(fleetColor) : undefined,
+    };
+
+    // ssh runs directly rather than typed into the local shell, so no local quoting applies
+    const args = buildTerminalArgs(info, session);
+    const credentials = await configManager.getCredentials(info);
+    if (credentials) {
+      // -tt forces a remote tty although ssh has no local one
+      const pty = new AskpassPseudoterminal('ssh', ['-tt', ...args], createPromptHandler(info, credentials));
+      vscode.window.createTerminal({ ...terminalOptions, pty }).show();
+    } else {
+      vscode.window.createTerminal({ ...terminalOptions, shellPath: 'ssh', shellArgs: args }).show();
+    }
 
     // Add to recent
     configManager.addRecent({
@@ -110,6 +361,8 @@ export async function connectTerminal(
       user: info.user,
       port: info.port,
       identityFile: info.identityFile,
+      jumpHosts: info.jumpHosts,
+      vesselId: info.vesselId,
       fleetName: info.fleetName,
       vesselName: info.name,
     });
@@ -121,6 +374,30 @@ export async function connectTerminal(
   }
 }
 
+/**
+ * Detect a vessel's home directory again (e.g. after its user changed)
+ * Vessels with remoteHome set in harbor.json are probed too, so a wrong
+ * value shows up as a mismatch
+ */
+export async function redetectRemoteHome(
+  configManager: ConfigManager,
+  info: SSHConnectionInfo
+): Promise<void> {
+  try {
+    const home = await detectRemoteHome(configManager, info);
+    if (info.remoteHome && info.remoteHome !== home) {
+      vscode.window.showWarningMessage(
+        `SSHarbor: ${info.name} reports ${home} as home, but remoteHome in harbor.json is ${info.remoteHome}`
+      );
+      return;
+    }
+    vscode.window.showInformationMessage(`SSHarbor: Home directory on ${info.name} is ${home}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: Could not detect home directory - ${message}`);
+  }
+}
+
 /**
  * Reconnect to last connection
  */
@@ -132,20 +409,8 @@ export async function reconnect(configManager: ConfigManager): Promise<void> {
     return;
   }
 
-  const settings = configManager.getSettings();
-  const defaults = configManager.getDefaults();
-
-  const info: SSHConnectionInfo = {
-    name: last.vesselName || last.host,
-    host: last.host,
-    user: last.user,
-    port: last.port,
-    identityFile: last.identityFile,
-    shell: defaults.shell || settings.defaultShell,
-    fleetName: last.fleetName || 'Recent',
-    favorite: false,
-    tags: [],
-  };
+  // Vessels still in harbor.json reconnect with their current settings
+  const info = configManager.getRecentConnectionInfo(last);
 
   await connect(configManager, info);
 }
@@ -175,33 +440,9 @@ export async function saveCurrentFolder(configManager: ConfigManager): Promise<v
   const sshHost = authority.replace('ssh-remote+', '');
   const folderPath = remoteUri.path;
 
-  // Try to find the vessel in config
-  const config = configManager.loadConfig();
-  let foundVessel: { host: string; user: string; port: number } | null = null;
-
   // Check if it's an SSHarbor alias (SSHarbor_Fleet_Vessel)
-  if (sshHost.startsWith('SSHarbor_')) {
-    // Find vessel by matching the alias pattern
-    for (const fleet of config.fleets) {
-      for (const vessel of fleet.vessels) {
-        const fleetClean = fleet.name.replace(/[^a-zA-Z0-9]/g, '_');
-        const vesselClean = (vessel.name || vessel.host).replace(/[^a-zA-Z0-9]/g, '_');
-        const expectedAlias = `SSHarbor_${fleetClean}_${vesselClean}`;
-
-        if (sshHost === expectedAlias) {
-          const settings = configManager.getSettings();
-          const defaults = config.defaults || {};
-          foundVessel = {
-            host: vessel.host,
-            user: vessel.user || fleet.defaults?.user || defaults.user || settings.defaultUser,
-            port: vessel.port || fleet.defaults?.port || defaults.port || settings.defaultPort,
-          };
-          break;
-        }
-      }
-      if (foundVessel) break;
-    }
-  }
+  let foundVessel: Pick<SSHConnectionInfo, 'vesselId' | 'host' | 'user' | 'port'> | undefined =
+    sshHost.startsWith('SSHarbor_') ? configManager.findConnectionInfoByAlias(sshHost) : undefined;
 
   if (!foundVessel) {
     // Try to parse as user@host or user@host:port
@@ -221,7 +462,7 @@ export async function saveCurrentFolder(configManager: ConfigManager): Promise<v
   }
 
   // Save the folder path
-  configManager.addVesselPath(foundVessel.host, foundVessel.user, foundVessel.port, folderPath);
+  configManager.addVesselPath(foundVessel, folderPath);
 
   vscode.window.showInformationMessage(`SSHarbor: Saved folder "${folderPath}" for quick access`);
 }
@@ -237,11 +478,8 @@ export function registerConnectCommands(
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'ssharbor.connect',
-      async (infoOrItem: SSHConnectionInfo | VesselItem) => {
-        const info =
-          infoOrItem instanceof VesselItem
-            ? (infoOrItem as VesselItem).connectionInfo
-            : infoOrItem;
+      async (infoOrItem: ConnectionCommandArg) => {
+        const info = extractConnectionInfo(infoOrItem);
 
         if (info) {
           await connect(configManager, info);
@@ -254,11 +492,8 @@ export function registerConnectCommands(
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'ssharbor.connectNewWindow',
-      async (infoOrItem: SSHConnectionInfo | VesselItem) => {
-        const info =
-          infoOrItem instanceof VesselItem
-            ? (infoOrItem as VesselItem).connectionInfo
-            : infoOrItem;
+      async (infoOrItem: ConnectionCommandArg) => {
+        const info = extractConnectionInfo(infoOrItem);
 
         if (info) {
           await connectTerminal(configManager, info);
@@ -267,6 +502,34 @@ export function registerConnectCommands(
     )
   );
 
+  // Connect via terminal without working directory and startup commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'ssharbor.connectTerminalSkipStartup',
+      async (infoOrItem: ConnectionCommandArg) => {
+        const info = extractConnectionInfo(infoOrItem);
+
+        if (info) {
+          await connectTerminal(configManager, info, { skipStartup: true });
+        }
+      }
+    )
+  );
+
+  // Probe the remote home directory again
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'ssharbor.detectRemoteHome',
+      async (infoOrItem: ConnectionCommandArg) => {
+        const info = extractConnectionInfo(infoOrItem);
+
+        if (info) {
+          await redetectRemoteHome(configManager, info);
+        }
+      }
+    )
+  );
+
   // Reconnect to last
   context.subscriptions.push(
     vscode.commands.registerCommand('ssharbor.reconnect', async () => {
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { SSHConnectionInfo, VesselItem, ConnectionCommandArg, hasConnectionInfo } from '../types';
+import { SSHConnectionInfo, ConnectionCommandArg, extractConnectionInfo } from '../types';
 import { buildSSHCommandDisplay } from '../core/ssh';
 
 /**
@@ -60,21 +60,3 @@ export function registerCopyCommands(context: vscode.ExtensionContext): void {
   );
 }
 
-/**
- * Extract SSHConnectionInfo from various command argument types
- */
-function extractConnectionInfo(itemOrInfo: ConnectionCommandArg): SSHConnectionInfo | undefined {
-  if (itemOrInfo instanceof VesselItem) {
-    return itemOrInfo.connectionInfo;
-  }
-
-  if (hasConnectionInfo(itemOrInfo)) {
-    return itemOrInfo.connectionInfo;
-  }
-
-  if ('host' in itemOrInfo && typeof itemOrInfo.host === 'string') {
-    return itemOrInfo as SSHConnectionInfo;
-  }
-
-  return undefined;
-}
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { ConnectionCommandArg, SSHConnectionInfo, extractConnectionInfo } from '../types';
+import { ConfigManager } from '../core/config';
+
+/**
+ * Forget the password and passphrase stored for one vessel
+ */
+async function forgetCredentials(configManager: ConfigManager, info: SSHConnectionInfo): Promise<void> {
+  try {
+    await configManager.clearCredentials(info);
+    vscode.window.showInformationMessage(`SSHarbor: Forgot the stored credentials of ${info.name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+  }
+}
+
+/**
+ * Forget every stored password and passphrase, after confirmation
+ */
+async function purgeCredentials(configManager: ConfigManager): Promise<void> {
+  const choice = await vscode.window.showWarningMessage(
+    'SSHarbor: Delete all stored passwords and passphrases?',
+    {
+      modal: true,
+      detail: 'They are removed from VS Code\'s secret storage. harbor.json is not changed.',
+    },
+    'Delete All'
+  );
+  if (choice !== 'Delete All') {
+    return;
+  }
+
+  try {
+    const count = await configManager.purgeCredentials();
+    vscode.window.showInformationMessage(
+      count > 0
+        ? `SSHarbor: Deleted the stored credentials of ${count} vessel${count === 1 ? '' : 's'}`
+        : 'SSHarbor: No stored credentials'
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+  }
+}
+
+/**
+ * Register stored credential commands
+ */
+export function registerCredentialCommands(context: vscode.ExtensionContext, configManager: ConfigManager): void {
+  // Internal: used by the detail panel
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.forgetCredentials', async (itemOrInfo?: ConnectionCommandArg) => {
+      const info = extractConnectionInfo(itemOrInfo);
+      if (info) {
+        await forgetCredentials(configManager, info);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.purgeCredentials', () => purgeCredentials(configManager))
+  );
+}
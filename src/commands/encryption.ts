@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from '../core/config';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Ask for a new passphrase twice
+ */
+async function promptNewPassphrase(title: string): Promise<string | undefined> {
+  const remembered = vscode.workspace.getConfiguration('ssharbor').get<boolean>('encryption.rememberKey', false);
+  const passphrase = await vscode.window.showInputBox({
+    title,
+    prompt: remembered
+      ? 'harbor.json cannot be recovered without it. The key is remembered on this machine ' +
+        '(ssharbor.encryption.rememberKey) until you lock it.'
+      : 'harbor.json cannot be recovered without it. It is asked for again each time VS Code starts.',
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: (value) =>
+      value.length >= MIN_PASSPHRASE_LENGTH ? undefined : `At least ${MIN_PASSPHRASE_LENGTH} characters`,
+  });
+  if (!passphrase) return undefined;
+
+  const repeated = await vscode.window.showInputBox({
+    title: `${title} (repeat)`,
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: (value) => (value === passphrase ? undefined : 'Passphrases do not match'),
+  });
+  return repeated === passphrase ? passphrase : undefined;
+}
+
+/**
+ * Ask for the passphrase until it unlocks harbor.json (or the user gives up)
+ * Returns true if the config is unlocked.
+ */
+export async function unlockConfigInteractive(configManager: ConfigManager): Promise<boolean> {
+  if (!configManager.isConfigLocked()) {
+    return true;
+  }
+
+  let error: string | undefined;
+  for (;;) {
+    const passphrase = await vscode.window.showInputBox({
+      title: 'SSHarbor: Unlock Configuration',
+      prompt: error ?? 'harbor.json is encrypted. Enter its passphrase.',
+      password: true,
+      ignoreFocusOut: true,
+    });
+    if (!passphrase) return false;
+
+    try {
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'SSHarbor: Unlocking...' },
+        () => configManager.unlockConfig(passphrase)
+      );
+      return true;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+  }
+}
+
+/**
+ * Register harbor.json encryption commands
+ */
+export function registerEncryptionCommands(context: vscode.ExtensionContext, configManager: ConfigManager): void {
+  // Encrypt a plain harbor.json
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.encryptConfig', async () => {
+      if (configManager.isConfigEncrypted()) {
+        vscode.window.showInformationMessage(
+          'SSHarbor: harbor.json is already encrypted. Use "Change Configuration Passphrase" to change its passphrase.'
+        );
+        return;
+      }
+
+      const passphrase = await promptNewPassphrase('SSHarbor: Encrypt Configuration');
+      if (!passphrase) return;
+
+      try {
+        await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: 'SSHarbor: Encrypting harbor.json...' },
+          () => configManager.setConfigPassphrase(passphrase)
+        );
+        vscode.window.showInformationMessage(
+          configManager.getSettings().rememberConfigKey
+            ? 'SSHarbor: harbor.json is encrypted. The key is kept in VS Code\'s secret storage until you lock it.'
+            : 'SSHarbor: harbor.json is encrypted. The key is kept for this window only; ' +
+              'turn on ssharbor.encryption.rememberKey to be unlocked on start.'
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.unlockConfig', () => unlockConfigInteractive(configManager))
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.lockConfig', async () => {
+      if (!configManager.isConfigEncrypted()) {
+        vscode.window.showInformationMessage('SSHarbor: harbor.json is not encrypted');
+        return;
+      }
+      await configManager.lockConfig();
+      vscode.window.showInformationMessage('SSHarbor: Configuration locked');
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.changeConfigPassphrase', async () => {
+      if (!configManager.isConfigEncrypted()) {
+        vscode.window.showInformationMessage('SSHarbor: harbor.json is not encrypted');
+        return;
+      }
+      if (!(await unlockConfigInteractive(configManager))) return;
+
+      const passphrase = await promptNewPassphrase('SSHarbor: New Configuration Passphrase');
+      if (!passphrase) return;
+
+      try {
+        await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: 'SSHarbor: Re-encrypting harbor.json...' },
+          () => configManager.setConfigPassphrase(passphrase)
+        );
+        vscode.window.showInformationMessage('SSHarbor: Configuration passphrase changed');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+      }
+    })
+  );
+
+  // Back to plain JSON
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.decryptConfig', async () => {
+      if (!configManager.isConfigEncrypted()) {
+        vscode.window.showInformationMessage('SSHarbor: harbor.json is not encrypted');
+        return;
+      }
+      if (!(await unlockConfigInteractive(configManager))) return;
+
+      const choice = await vscode.window.showWarningMessage(
+        'SSHarbor: Store harbor.json as plain JSON again?',
+        { modal: true, detail: 'Anyone who can read your files can then read your fleets, hosts and notes.' },
+        'Decrypt'
+      );
+      if (choice !== 'Decrypt') return;
+
+      try {
+        await configManager.decryptConfigFile();
+        vscode.window.showInformationMessage('SSHarbor: harbor.json is plain JSON again');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+      }
+    })
+  );
+}
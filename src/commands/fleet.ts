@@ -1,9 +1,10 @@
 import * as vscode from 'vscode';
 import { ConfigManager } from '../core/config';
 import { HarborTreeProvider } from '../providers/harbor-tree';
-import { FleetItem, VesselItem, ConnectionCommandArg, hasConnectionInfo, SSHConnectionInfo } from '../types';
+import { FleetItem, VesselItem, ConnectionCommandArg, extractConnectionInfo } from '../types';
 import { AddVesselWebview } from '../views/add-vessel-webview';
 import { CreateFleetWebview } from '../views/create-fleet-webview';
+import { showUndoableMessage } from './journal';
 
 /**
  * Remove a fleet
@@ -30,7 +31,7 @@ export async function removeFleet(
   }
 
   try {
-    configManager.removeFleet(fleetName);
+    configManager.removeFleet(fleetItem.fleet.id);
 
     // Clear recent if no more fleets exist
     const config = configManager.loadConfig();
@@ -38,7 +39,7 @@ export async function removeFleet(
       configManager.clearRecent();
     }
 
-    vscode.window.showInformationMessage(`SSHarbor: Fleet "${fleetName}" removed`);
+    showUndoableMessage(configManager, `SSHarbor: Fleet "${fleetName}" removed`);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     vscode.window.showErrorMessage(`SSHarbor: ${message}`);
@@ -46,14 +47,83 @@ export async function removeFleet(
 }
 
 /**
- * Edit vessel (opens config file at vessel location)
+ * Edit vessel in the vessel form
+ * Falls back to harbor.json when the vessel is not known (e.g. a quick connection)
  */
-export async function editVessel(configManager: ConfigManager): Promise<void> {
-  const configPath = configManager.getConfigPath();
-  const doc = await vscode.workspace.openTextDocument(configPath);
+export async function editVessel(
+  configManager: ConfigManager,
+  addVesselWebview: AddVesselWebview,
+  vesselItem?: ConnectionCommandArg
+): Promise<void> {
+  const info = vesselItem ? extractConnectionInfo(vesselItem) : undefined;
+  const source = info?.vesselId ? configManager.getVesselSource(info.vesselId) : undefined;
+  if (info?.vesselId && source) {
+    // Shared vessels are edited in their own file; only local settings can change here
+    const choice = await vscode.window.showInformationMessage(
+      `SSHarbor: "${info.name}" is shared from ${source.path} and read-only here`,
+      'Personalize',
+      'Open File'
+    );
+    if (choice === 'Personalize') {
+      vscode.commands.executeCommand('ssharbor.personalizeVessel', info);
+    } else if (choice === 'Open File') {
+      await vscode.window.showTextDocument(vscode.Uri.file(source.path));
+    }
+    return;
+  }
+  if (info?.vesselId) {
+    addVesselWebview.showEdit(info.vesselId);
+    return;
+  }
+
+  await openConfigFile(configManager);
+}
+
+/**
+ * Open harbor.json in an editor (not while it is encrypted)
+ */
+async function openConfigFile(configManager: ConfigManager): Promise<void> {
+  if (configManager.isConfigEncrypted()) {
+    const choice = await vscode.window.showWarningMessage(
+      'SSHarbor: harbor.json is encrypted and cannot be edited by hand. Decrypt it first.',
+      'Decrypt Configuration'
+    );
+    if (choice) {
+      vscode.commands.executeCommand('ssharbor.decryptConfig');
+    }
+    return;
+  }
+
+  const doc = await vscode.workspace.openTextDocument(configManager.getConfigPath());
   await vscode.window.showTextDocument(doc);
 }
 
+/**
+ * Ask for a fleet when a command is run from the command palette
+ */
+async function pickFleetId(configManager: ConfigManager): Promise<string | undefined> {
+  let fleets;
+  try {
+    fleets = configManager.loadConfig().fleets;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+    return undefined;
+  }
+
+  if (fleets.length === 0) {
+    vscode.window.showInformationMessage('SSHarbor: No fleets yet - create one first');
+    return undefined;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    fleets.map((f) => ({ label: f.name, description: `${f.vessels.length} vessel(s)`, id: f.id })),
+    { placeHolder: 'Select a fleet to edit' }
+  );
+
+  return picked?.id;
+}
+
 /**
  * Remove a vessel
  */
@@ -61,8 +131,14 @@ export async function removeVessel(
   configManager: ConfigManager,
   vesselItem: VesselItem
 ): Promise<void> {
+  const { vesselId, name } = vesselItem.connectionInfo;
+  if (!vesselId) {
+    vscode.window.showWarningMessage(`SSHarbor: "${name}" is not in harbor.json`);
+    return;
+  }
+
   const confirm = await vscode.window.showWarningMessage(
-    `Remove vessel "${vesselItem.connectionInfo.name}"?`,
+    `Remove vessel "${name}"?`,
     { modal: true },
     'Remove'
   );
@@ -72,10 +148,8 @@ export async function removeVessel(
   }
 
   try {
-    configManager.removeVessel(
-      vesselItem.connectionInfo.fleetName,
-      vesselItem.connectionInfo.host
-    );
+    // Stored credentials stay while undo can bring the vessel back
+    configManager.removeVessel(vesselId);
 
     // Clear recent if no more vessels exist in any fleet
     const config = configManager.loadConfig();
@@ -84,9 +158,7 @@ export async function removeVessel(
       configManager.clearRecent();
     }
 
-    vscode.window.showInformationMessage(
-      `SSHarbor: Vessel "${vesselItem.connectionInfo.name}" removed`
-    );
+    showUndoableMessage(configManager, `SSHarbor: Vessel "${name}" removed`);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     vscode.window.showErrorMessage(`SSHarbor: ${message}`);
@@ -102,11 +174,18 @@ export async function toggleFavorite(
 ): Promise<void> {
   try {
     const info = extractConnectionInfo(vesselItem);
-    if (!info?.fleetName || !info?.host) {
+    if (!info) {
       return;
     }
 
-    const isFavorite = configManager.toggleFavorite(info.fleetName, info.host);
+    if (!info.vesselId) {
+      vscode.window.showWarningMessage(
+        `SSHarbor: Only vessels in harbor.json can be favorites - add "${info.name}" to a fleet first`
+      );
+      return;
+    }
+
+    const isFavorite = configManager.toggleFavorite(info.vesselId);
     const status = isFavorite ? 'added to' : 'removed from';
     vscode.window.showInformationMessage(
       `SSHarbor: "${info.name}" ${status} favorites`
@@ -116,25 +195,6 @@ export async function toggleFavorite(
   }
 }
 
-/**
- * Extract SSHConnectionInfo from various command argument types
- */
-function extractConnectionInfo(itemOrInfo: ConnectionCommandArg): SSHConnectionInfo | undefined {
-  if (itemOrInfo instanceof VesselItem) {
-    return itemOrInfo.connectionInfo;
-  }
-
-  if (hasConnectionInfo(itemOrInfo)) {
-    return itemOrInfo.connectionInfo;
-  }
-
-  if ('host' in itemOrInfo && typeof itemOrInfo.host === 'string') {
-    return itemOrInfo as SSHConnectionInfo;
-  }
-
-  return undefined;
-}
-
 /**
  * Register fleet/vessel management commands
  */
@@ -151,14 +211,23 @@ export function registerFleetCommands(
     })
   );
 
+  // Edit fleet (create-fleet form in edit mode)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.editFleet', async (fleetItem?: FleetItem) => {
+      const fleetId = fleetItem?.fleet?.id || (await pickFleetId(configManager));
+      if (fleetId) {
+        createFleetWebview.showEdit(fleetId);
+      }
+    })
+  );
+
   // Add vessel (with webview UI)
   const addVesselWebview = new AddVesselWebview(context, configManager);
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'ssharbor.addVessel',
       async (fleetItem?: FleetItem) => {
-        const fleetName = fleetItem?.fleet?.name;
-        addVesselWebview.show(fleetName);
+        addVesselWebview.show(fleetItem?.fleet?.id);
       }
     )
   );
@@ -173,11 +242,14 @@ export function registerFleetCommands(
     )
   );
 
-  // Edit vessel (open config)
+  // Edit vessel (with webview UI)
   context.subscriptions.push(
-    vscode.commands.registerCommand('ssharbor.editVessel', async () => {
-      await editVessel(configManager);
-    })
+    vscode.commands.registerCommand(
+      'ssharbor.editVessel',
+      async (vesselItem?: ConnectionCommandArg) => {
+        await editVessel(configManager, addVesselWebview, vesselItem);
+      }
+    )
   );
 
   // Remove vessel
@@ -203,15 +275,12 @@ export function registerFleetCommands(
   // Edit config
   context.subscriptions.push(
     vscode.commands.registerCommand('ssharbor.editConfig', async () => {
-      const configPath = configManager.getConfigPath();
-
       // Create initial config if doesn't exist
       if (!configManager.configExists()) {
         configManager.createInitialConfig();
       }
 
-      const doc = await vscode.workspace.openTextDocument(configPath);
-      await vscode.window.showTextDocument(doc);
+      await openConfigFile(configManager);
     })
   );
 
@@ -0,0 +1,23 @@
+import * as vscode from 'vscode';
+import { HealthMonitor } from '../core/health';
+
+/**
+ * Register health check commands
+ */
+export function registerHealthCommands(
+  context: vscode.ExtensionContext,
+  healthMonitor: HealthMonitor
+): void {
+  // Check all vessels now (instead of waiting for the next interval)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.checkHealth', async () => {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Window,
+          title: 'SSHarbor: Checking vessels...',
+        },
+        () => healthMonitor.checkNow()
+      );
+    })
+  );
+}
@@ -0,0 +1,279 @@
+import * as vscode from 'vscode';
+import { ConnectionCommandArg, HostKeyReport, SSHConnectionInfo, extractConnectionInfo } from '../types';
+import { ConfigManager } from '../core/config';
+import {
+  buildHostKeyReport,
+  findKnownHostsEntries,
+  formatKnownHostsName,
+  getKnownHostsPath,
+  normalizeFingerprint,
+  removeKnownHostsEntries,
+  scanHostKeys,
+} from '../core/host-keys';
+import { isValidHostKeyFingerprint } from '../core/security';
+import { readSSHFile, writeSSHFile } from '../core/ssh-config';
+
+/**
+ * Scan a vessel's host keys and compare them with its pin and known_hosts
+ * Throws if the scan fails
+ */
+async function buildReport(info: SSHConnectionInfo): Promise<HostKeyReport> {
+  const keys = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `SSHarbor: Scanning host keys of ${info.name}...`,
+    },
+    () => scanHostKeys(info)
+  );
+
+  const known = findKnownHostsEntries(readSSHFile(getKnownHostsPath()), info.host, info.port);
+  return buildHostKeyReport(keys, info.hostKeyFingerprint, known);
+}
+
+/**
+ * Scan a vessel's host keys
+ * Unless `quiet` is set, the keys are listed and the picked one can be pinned.
+ * Returns undefined if the scan failed.
+ */
+export async function showHostKeys(
+  configManager: ConfigManager,
+  info: SSHConnectionInfo,
+  quiet = false
+): Promise<HostKeyReport | undefined> {
+  let report: HostKeyReport;
+  try {
+    report = await buildReport(info);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: Host key scan failed - ${message}`);
+    return undefined;
+  }
+
+  if (report.pin === 'mismatch') {
+    vscode.window.showWarningMessage(
+      `SSHarbor: ${info.name} presents no key matching the pinned fingerprint ${info.hostKeyFingerprint}`
+    );
+  }
+
+  if (report.knownHosts === 'mismatch') {
+    vscode.window
+      .showWarningMessage(
+        `SSHarbor: known_hosts has a different key for ${info.host} - the server was rebuilt or someone is intercepting the connection`,
+        'Remove Stale Entry'
+      )
+      .then((choice) => {
+        if (choice === 'Remove Stale Entry') {
+          removeKnownHost(info);
+        }
+      });
+  }
+
+  if (quiet) {
+    return report;
+  }
+
+  const pinned = info.hostKeyFingerprint ? normalizeFingerprint(info.hostKeyFingerprint) : undefined;
+  const picked = await vscode.window.showQuickPick(
+    report.keys.map((key) => ({
+      label: key.type,
+      description: key.fingerprint === pinned ? '$(pinned) pinned' : undefined,
+      detail: key.fingerprint,
+      key,
+    })),
+    {
+      title: `Host keys of ${info.name} (${formatKnownHostsName(info.host, info.port)})`,
+      placeHolder: info.vesselId ? 'Select a key to pin its fingerprint' : 'Host keys',
+    }
+  );
+
+  if (picked && info.vesselId) {
+    await pinHostKey(configManager, info, picked.key.fingerprint);
+  }
+
+  return report;
+}
+
+/**
+ * Pin a host key fingerprint for a vessel in harbor.json
+ * Returns true if the fingerprint was saved
+ */
+export async function pinHostKey(
+  configManager: ConfigManager,
+  info: SSHConnectionInfo,
+  fingerprint: string
+): Promise<boolean> {
+  if (!info.vesselId) {
+    vscode.window.showErrorMessage('SSHarbor: Save the connection as a vessel to pin its host key');
+    return false;
+  }
+  if (!isValidHostKeyFingerprint(fingerprint)) {
+    vscode.window.showErrorMessage(`SSHarbor: Invalid host key fingerprint: ${fingerprint}`);
+    return false;
+  }
+
+  try {
+    configManager.updateVessel(info.vesselId, { hostKeyFingerprint: normalizeFingerprint(fingerprint) });
+    vscode.window.showInformationMessage(`SSHarbor: Pinned ${normalizeFingerprint(fingerprint)} for ${info.name}`);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+    return false;
+  }
+}
+
+/**
+ * Remove a vessel's entries from ~/.ssh/known_hosts after listing them
+ * A backup is written to known_hosts.ssharbor-backup first
+ */
+export async function removeKnownHost(info: SSHConnectionInfo): Promise<void> {
+  const knownHostsPath = getKnownHostsPath();
+  const content = readSSHFile(knownHostsPath);
+  const name = formatKnownHostsName(info.host, info.port);
+  const entries = findKnownHostsEntries(content, info.host, info.port);
+
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage(`SSHarbor: known_hosts has no entry for ${name}`);
+    return;
+  }
+
+  const detail = [
+    `~/.ssh/known_hosts lines for ${name}:`,
+    ...entries.map((e) => `  line ${e.line}: ${e.type} ${e.fingerprint}${e.hashed ? ' (hashed)' : ''}`),
+    '',
+    'Only remove them if you know why the host key changed (e.g. the server was reinstalled). ' +
+      'ssh asks you to accept the new key on the next connect. ' +
+      'A backup is written to ~/.ssh/known_hosts.ssharbor-backup.',
+  ].join('\n');
+
+  const choice = await vscode.window.showWarningMessage(
+    `SSHarbor: Remove ${entries.length} known_hosts entr${entries.length === 1 ? 'y' : 'ies'} for ${info.name}?`,
+    { modal: true, detail },
+    'Remove'
+  );
+
+  if (choice !== 'Remove') {
+    return;
+  }
+
+  try {
+    const result = removeKnownHostsEntries(content, info.host, info.port);
+    writeSSHFile(`${knownHostsPath}.ssharbor-backup`, content);
+    writeSSHFile(knownHostsPath, result.content);
+    vscode.window.showInformationMessage(
+      `SSHarbor: Removed ${result.removed} known_hosts entr${result.removed === 1 ? 'y' : 'ies'} for ${name}`
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: Failed to update known_hosts - ${message}`);
+  }
+}
+
+/**
+ * Check a vessel's pinned fingerprint before connecting
+ * Returns false if the host presents a different key, or cannot be scanned
+ * (e.g. it is behind a jump host), and the user cancels.
+ */
+export async function verifyHostKey(info: SSHConnectionInfo): Promise<boolean> {
+  if (!info.hostKeyFingerprint) {
+    return true;
+  }
+
+  let report: HostKeyReport;
+  try {
+    report = await buildReport(info);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const choice = await vscode.window.showWarningMessage(
+      `SSHarbor: Could not verify the pinned host key of "${info.name}"`,
+      {
+        modal: true,
+        detail: [
+          message,
+          '',
+          'Connecting anyway leaves the check to ssh and ~/.ssh/known_hosts; the pinned fingerprint is not compared.',
+        ].join('\n'),
+      },
+      'Connect Anyway'
+    );
+    return choice === 'Connect Anyway';
+  }
+
+  if (report.pin !== 'mismatch') {
+    return true;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `SSHarbor: Host key of "${info.name}" does not match the pinned fingerprint`,
+    {
+      modal: true,
+      detail: [
+        `Pinned: ${normalizeFingerprint(info.hostKeyFingerprint)}`,
+        'Received:',
+        ...report.keys.map((k) => `  ${k.type} ${k.fingerprint}`),
+        '',
+        'The server may have been rebuilt, or someone may be intercepting the connection.',
+      ].join('\n'),
+    },
+    'Connect Anyway'
+  );
+
+  return choice === 'Connect Anyway';
+}
+
+/**
+ * Register host key commands
+ */
+export function registerHostKeyCommands(
+  context: vscode.ExtensionContext,
+  configManager: ConfigManager
+): void {
+  // Scan and list host keys (quiet: return the report without a picker)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'ssharbor.scanHostKeys',
+      async (itemOrInfo: ConnectionCommandArg, options?: { quiet?: boolean }) => {
+        const info = extractConnectionInfo(itemOrInfo);
+        return info ? showHostKeys(configManager, info, options?.quiet) : undefined;
+      }
+    )
+  );
+
+  // Pin a fingerprint (scans first when none is given)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'ssharbor.pinHostKey',
+      async (itemOrInfo: ConnectionCommandArg, fingerprint?: string) => {
+        const info = extractConnectionInfo(itemOrInfo);
+        if (!info) {
+          return false;
+        }
+        if (!fingerprint) {
+          await showHostKeys(configManager, info);
+          return false;
+        }
+        return pinHostKey(configManager, info, fingerprint);
+      }
+    )
+  );
+
+  // Guided removal of stale known_hosts entries
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'ssharbor.removeKnownHost',
+      async (itemOrInfo: ConnectionCommandArg) => {
+        const info = extractConnectionInfo(itemOrInfo);
+        if (info) {
+          await removeKnownHost(info);
+        }
+      }
+    )
+  );
+
+  // Internal: used by connect before opening a session
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.verifyHostKey', async (info: SSHConnectionInfo) => {
+      return verifyHostKey(info);
+    })
+  );
+}
@@ -3,6 +3,7 @@ import * as fs from 'fs';
 import { ConfigManager } from '../core/config';
 import { HarborTreeProvider } from '../providers/harbor-tree';
 import { HarborConfig, Fleet } from '../types';
+import { isSameVessel, withFreshIds } from '../core/ids';
 
 /**
  * Register import/export configuration commands
@@ -80,8 +81,9 @@ export function registerImportExportCommands(
         fs.writeFileSync(saveUri.fsPath, json, 'utf-8');
 
         const vesselCount = exportConfig.fleets.reduce((acc, f) => acc + f.vessels.length, 0);
+        // Stored passwords and passphrases live in SecretStorage, not in the config
         vscode.window.showInformationMessage(
-          `Exported ${exportConfig.fleets.length} fleet(s) with ${vesselCount} vessel(s)`
+          `Exported ${exportConfig.fleets.length} fleet(s) with ${vesselCount} vessel(s). Stored passwords and passphrases are not included.`
         );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -171,14 +173,18 @@ export function registerImportExportCommands(
             }
 
             if (action.label === 'Replace') {
-              existingFleet.vessels = item.fleet.vessels;
+              // Clear first so replaced vessels may keep their ids
+              existingFleet.vessels = [];
+              existingFleet.vessels = withFreshIds(item.fleet, currentConfig).vessels;
               existingFleet.icon = item.fleet.icon;
               existingFleet.color = item.fleet.color;
               existingFleet.defaults = item.fleet.defaults;
               importedCount += item.fleet.vessels.length;
             } else if (action.label === 'Merge') {
-              const existingHosts = new Set(existingFleet.vessels.map((v) => v.host));
-              const newVessels = item.fleet.vessels.filter((v) => !existingHosts.has(v.host));
+              const incoming = item.fleet.vessels.filter(
+                (v) => !existingFleet.vessels.some((existing) => isSameVessel(existing, v))
+              );
+              const newVessels = withFreshIds({ ...item.fleet, vessels: incoming }, currentConfig).vessels;
               existingFleet.vessels.push(...newVessels);
               mergedCount += newVessels.length;
             } else if (action.label === 'Rename') {
@@ -197,13 +203,13 @@ export function registerImportExportCommands(
               });
 
               if (newName) {
-                const renamedFleet: Fleet = { ...item.fleet, name: newName };
+                const renamedFleet: Fleet = { ...withFreshIds(item.fleet, currentConfig), name: newName };
                 currentConfig.fleets.push(renamedFleet);
                 importedCount += renamedFleet.vessels.length;
               }
             }
           } else {
-            currentConfig.fleets.push(item.fleet);
+            currentConfig.fleets.push(withFreshIds(item.fleet, currentConfig));
             importedCount += item.fleet.vessels.length;
           }
         }
@@ -213,7 +219,7 @@ export function registerImportExportCommands(
           currentConfig.defaults = importedConfig.defaults;
         }
 
-        configManager.saveConfig(currentConfig);
+        configManager.saveConfig(currentConfig, 'Import configuration');
         provider.refresh();
 
         const messages: string[] = [];
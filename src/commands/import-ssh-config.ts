@@ -5,6 +5,7 @@ import * as path from 'path';
 import { ConfigManager } from '../core/config';
 import { HarborTreeProvider } from '../providers/harbor-tree';
 import { Vessel, Fleet } from '../types';
+import { generateId, isSameVessel } from '../core/ids';
 
 interface ParsedSshHost {
   name: string;
@@ -178,6 +179,7 @@ async function importFromFile(
     // Create vessels from selected hosts
     const vessels: Vessel[] = selected.map((item) => {
       const vessel: Vessel = {
+        id: generateId(),
         name: item.host.name,
         host: item.host.host,
       };
@@ -216,16 +218,18 @@ async function importFromFile(
       if (action.label === 'Replace') {
         existingFleet.vessels = vessels;
       } else {
-        // Merge - add only new vessels (by host)
-        const existingHosts = new Set(existingFleet.vessels.map((v) => v.host));
-        const newVessels = vessels.filter((v) => !existingHosts.has(v.host));
+        // Merge - add only new vessels (same host with another user/port is new)
+        const newVessels = vessels.filter(
+          (v) => !existingFleet.vessels.some((existing) => isSameVessel(existing, v))
+        );
         existingFleet.vessels.push(...newVessels);
       }
 
-      configManager.saveConfig(config);
+      configManager.saveConfig(config, `Import SSH config into "${fleetName}"`);
     } else {
       // Create new fleet
       const fleet: Fleet = {
+        id: generateId(),
         name: fleetName,
         icon: 'cloud-download',
         vessels,
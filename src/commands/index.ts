@@ -1,12 +1,26 @@
 import * as vscode from 'vscode';
 import { ConfigManager } from '../core/config';
 import { HarborTreeProvider } from '../providers/harbor-tree';
+import { TunnelManager } from '../core/tunnels';
+import { HealthMonitor } from '../core/health';
+import { SSHConfigIntegration } from '../core/ssh-integration';
 import { registerConnectCommands } from './connect';
 import { registerQuickConnectCommands } from './quick-connect';
 import { registerCopyCommands } from './copy';
 import { registerFleetCommands } from './fleet';
 import { registerImportSshConfigCommand } from './import-ssh-config';
 import { registerImportExportCommands } from './import-export';
+import { registerTunnelCommands } from './tunnel';
+import { registerHealthCommands } from './health';
+import { registerSSHConfigCommands } from './ssh-config';
+import { registerHostKeyCommands } from './host-keys';
+import { registerKeyCommands } from './keys';
+import { registerAgentCommands } from './agent';
+import { registerCredentialCommands } from './credentials';
+import { registerEncryptionCommands } from './encryption';
+import { registerBackupCommands } from './backups';
+import { registerJournalCommands } from './journal';
+import { registerWorkspaceCommands } from './workspace';
 
 /**
  * Register all SSHarbor commands
@@ -14,7 +28,10 @@ import { registerImportExportCommands } from './import-export';
 export function registerAllCommands(
   context: vscode.ExtensionContext,
   configManager: ConfigManager,
-  provider: HarborTreeProvider
+  provider: HarborTreeProvider,
+  tunnelManager: TunnelManager,
+  healthMonitor: HealthMonitor,
+  sshConfigIntegration: SSHConfigIntegration
 ): void {
   registerConnectCommands(context, configManager);
   registerQuickConnectCommands(context, configManager);
@@ -22,6 +39,17 @@ export function registerAllCommands(
   registerFleetCommands(context, configManager, provider);
   registerImportSshConfigCommand(context, configManager, provider);
   registerImportExportCommands(context, configManager, provider);
+  registerTunnelCommands(context, configManager, tunnelManager);
+  registerHealthCommands(context, healthMonitor);
+  registerSSHConfigCommands(context, sshConfigIntegration);
+  registerHostKeyCommands(context, configManager);
+  registerKeyCommands(context, configManager);
+  registerAgentCommands(context, configManager);
+  registerCredentialCommands(context, configManager);
+  registerEncryptionCommands(context, configManager);
+  registerBackupCommands(context, configManager);
+  registerJournalCommands(context, configManager);
+  registerWorkspaceCommands(context, configManager);
 }
 
 export { registerConnectCommands } from './connect';
@@ -30,3 +58,14 @@ export { registerCopyCommands } from './copy';
 export { registerFleetCommands } from './fleet';
 export { registerImportSshConfigCommand } from './import-ssh-config';
 export { registerImportExportCommands } from './import-export';
+export { registerTunnelCommands } from './tunnel';
+export { registerHealthCommands } from './health';
+export { registerSSHConfigCommands } from './ssh-config';
+export { registerHostKeyCommands } from './host-keys';
+export { registerKeyCommands } from './keys';
+export { registerAgentCommands } from './agent';
+export { registerCredentialCommands } from './credentials';
+export { registerEncryptionCommands } from './encryption';
+export { registerBackupCommands } from './backups';
+export { registerJournalCommands } from './journal';
+export { registerWorkspaceCommands } from './workspace';
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from '../core/config';
+import { JournalEntry } from '../core/journal';
+
+/**
+ * Confirm overwriting hand edits made after a recorded change
+ */
+async function confirmOverwrite(entry: JournalEntry, action: 'Undo' | 'Redo'): Promise<boolean> {
+  const choice = await vscode.window.showWarningMessage(
+    `SSHarbor: harbor.json was changed after "${entry.label}"`,
+    {
+      modal: true,
+      detail: `${action} puts back the whole configuration as it was then, so those changes are lost. ` +
+        'The current file is backed up first.',
+    },
+    `${action} Anyway`
+  );
+  return choice === `${action} Anyway`;
+}
+
+/**
+ * Undo the last recorded change
+ * With a timestamp (from a notification's Undo button), only that change is undone.
+ */
+async function undo(configManager: ConfigManager, timestamp?: number): Promise<void> {
+  const entry = configManager.getUndoEntry();
+  if (!entry) {
+    vscode.window.showInformationMessage('SSHarbor: Nothing to undo');
+    return;
+  }
+  if (timestamp !== undefined && entry.timestamp !== timestamp) {
+    vscode.window.showWarningMessage(
+      `SSHarbor: Other changes were made since - undo "${entry.label}" first with "SSHarbor: Undo"`
+    );
+    return;
+  }
+  if (!configManager.isCurrentConfig(entry.after) && !(await confirmOverwrite(entry, 'Undo'))) {
+    return;
+  }
+
+  try {
+    configManager.undo();
+    vscode.window.showInformationMessage(`SSHarbor: Undid "${entry.label}"`, 'Redo').then((choice) => {
+      if (choice === 'Redo') {
+        vscode.commands.executeCommand('ssharbor.redo');
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+  }
+}
+
+/**
+ * Apply the last undone change again
+ */
+async function redo(configManager: ConfigManager): Promise<void> {
+  const entry = configManager.getRedoEntry();
+  if (!entry) {
+    vscode.window.showInformationMessage('SSHarbor: Nothing to redo');
+    return;
+  }
+  if (!configManager.isCurrentConfig(entry.before) && !(await confirmOverwrite(entry, 'Redo'))) {
+    return;
+  }
+
+  try {
+    configManager.redo();
+    vscode.window.showInformationMessage(`SSHarbor: Redid "${entry.label}"`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+  }
+}
+
+/**
+ * Show a notification with an Undo button for the change just recorded
+ */
+export function showUndoableMessage(configManager: ConfigManager, message: string): void {
+  const entry = configManager.getUndoEntry();
+  if (!entry) {
+    vscode.window.showInformationMessage(message);
+    return;
+  }
+
+  vscode.window.showInformationMessage(message, 'Undo').then((choice) => {
+    if (choice === 'Undo') {
+      vscode.commands.executeCommand('ssharbor.undo', entry.timestamp);
+    }
+  });
+}
+
+/**
+ * Register undo/redo commands
+ */
+export function registerJournalCommands(context: vscode.ExtensionContext, configManager: ConfigManager): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.undo', (timestamp?: unknown) =>
+      undo(configManager, typeof timestamp === 'number' ? timestamp : undefined)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.redo', () => redo(configManager))
+  );
+}
@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { ConnectionCommandArg, FleetItem, SSHConnectionInfo, extractConnectionInfo } from '../types';
+import { ConfigManager } from '../core/config';
+import { buildSSHArgs, expandPath } from '../core/ssh';
+import {
+  SSHKeyType,
+  buildAuthorizedKeysCommand,
+  generateKey,
+  isValidKeyComment,
+  isValidKeyName,
+  listSSHKeys,
+  readPublicKey,
+} from '../core/keys';
+import { runInTerminal } from '../core/terminal';
+
+/**
+ * Walk the user through creating a key pair in ~/.ssh
+ * Returns the new key's path (~/.ssh/name), or undefined if cancelled
+ */
+export async function generateKeyInteractive(): Promise<string | undefined> {
+  const typePick = await vscode.window.showQuickPick(
+    [
+      { label: 'ed25519', description: 'Recommended', type: 'ed25519' as SSHKeyType },
+      { label: 'rsa', description: '4096 bits, for servers that do not support ed25519', type: 'rsa' as SSHKeyType },
+    ],
+    { title: 'Generate SSH Key (1/4): Key type' }
+  );
+  if (!typePick) return undefined;
+
+  const name = await vscode.window.showInputBox({
+    title: 'Generate SSH Key (2/4): File name in ~/.ssh',
+    value: `id_${typePick.type}_ssharbor`,
+    validateInput: (value) => {
+      if (!isValidKeyName(value)) return 'Letters, digits, ".", "_" and "-" only';
+      return fs.existsSync(expandPath(`~/.ssh/${value}`)) ? `~/.ssh/${value} already exists` : undefined;
+    },
+  });
+  if (!name) return undefined;
+
+  const comment = await vscode.window.showInputBox({
+    title: 'Generate SSH Key (3/4): Comment',
+    prompt: 'Shown next to the key in authorized_keys',
+    value: `${os.userInfo().username}@${os.hostname()}`,
+    validateInput: (value) => (isValidKeyComment(value) ? undefined : 'Single line, up to 256 characters'),
+  });
+  if (comment === undefined) return undefined;
+
+  const passphrase = await vscode.window.showInputBox({
+    title: 'Generate SSH Key (4/4): Passphrase',
+    prompt: 'Leave empty for a key without passphrase',
+    password: true,
+  });
+  if (passphrase === undefined) return undefined;
+
+  if (passphrase) {
+    const repeated = await vscode.window.showInputBox({
+      title: 'Generate SSH Key (4/4): Repeat passphrase',
+      password: true,
+      validateInput: (value) => (value === passphrase ? undefined : 'Passphrases do not match'),
+    });
+    if (repeated !== passphrase) return undefined;
+  }
+
+  try {
+    const keyPath = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'SSHarbor: Generating key...' },
+      () => generateKey({ type: typePick.type, path: `~/.ssh/${name}`, comment, passphrase })
+    );
+    vscode.window.showInformationMessage(`SSHarbor: Generated ${keyPath}`);
+    return keyPath;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: Key generation failed - ${message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Pick a key to deploy, or generate a new one
+ */
+async function pickKey(current?: string): Promise<string | undefined> {
+  const items: Array<vscode.QuickPickItem & { keyPath?: string }> = [
+    { label: '$(add) Generate New Key...' },
+    ...listSSHKeys().map((keyPath) => ({
+      label: keyPath,
+      description: keyPath === current ? 'current identity file' : undefined,
+      keyPath,
+    })),
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: 'Deploy Key: Select the key to install',
+  });
+  if (!picked) return undefined;
+
+  return picked.keyPath ?? generateKeyInteractive();
+}
+
+/**
+ * Install a public key on one vessel
+ * Returns true if the key was installed (or already present)
+ */
+async function deployToVessel(info: SSHConnectionInfo, publicKey: string): Promise<boolean> {
+  // Forwards would bind local ports; the current identity file (if any) is kept to log in
+  const args = [...buildSSHArgs({ ...info, forwards: undefined }), buildAuthorizedKeysCommand(publicKey)];
+  const code = await runInTerminal(`Deploy Key: ${info.name}`, 'ssh', args);
+  return code === 0;
+}
+
+/**
+ * Ask before deploying to protected vessels
+ * Returns false if the user cancels
+ */
+async function confirmDeploy(
+  configManager: ConfigManager,
+  infos: SSHConnectionInfo[],
+  keyPath: string
+): Promise<boolean> {
+  const protectedNames: string[] = [];
+  for (const info of infos) {
+    let reason: string | undefined;
+    try {
+      reason = configManager.checkProtection(info);
+    } catch {
+      reason = 'unknown policy (harbor.json could not be loaded)';
+    }
+    if (reason) {
+      protectedNames.push(`  ${info.fleetName}/${info.name} (${reason})`);
+    }
+  }
+
+  const target = infos.length === 1 ? infos[0].name : `${infos.length} vessels`;
+  const detailLines = [
+    `${keyPath}.pub is appended to ~/.ssh/authorized_keys on ${target} unless it is already there. ` +
+      'Each vessel gets its own terminal for the password prompt; ' +
+      'a terminal left open after an error has to be closed to continue.',
+  ];
+  if (protectedNames.length > 0) {
+    detailLines.push('', 'Protected:', ...protectedNames);
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `SSHarbor: Deploy ${keyPath} to ${target}?`,
+    { modal: true, detail: detailLines.join('\n') },
+    'Deploy'
+  );
+  return choice === 'Deploy';
+}
+
+/**
+ * Deploy a key to vessels one after another and point their identityFile at it
+ */
+export async function deployKey(
+  configManager: ConfigManager,
+  infos: SSHConnectionInfo[],
+  keyPath?: string
+): Promise<void> {
+  if (infos.length === 0) {
+    vscode.window.showInformationMessage('SSHarbor: No vessels to deploy to');
+    return;
+  }
+
+  const key = keyPath ?? (await pickKey(infos.length === 1 ? infos[0].identityFile : undefined));
+  if (!key) return;
+
+  let publicKey: string;
+  try {
+    publicKey = readPublicKey(key);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+    return;
+  }
+
+  if (!(await confirmDeploy(configManager, infos, key))) {
+    return;
+  }
+
+  const failed: string[] = [];
+  let deployed = 0;
+
+  for (const info of infos) {
+    try {
+      if (!(await deployToVessel(info, publicKey))) {
+        failed.push(info.name);
+        continue;
+      }
+
+      deployed++;
+      if (info.vesselId && info.identityFile !== key) {
+        configManager.updateVessel(info.vesselId, { identityFile: key });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failed.push(`${info.name} (${message})`);
+    }
+  }
+
+  if (failed.length > 0) {
+    vscode.window.showWarningMessage(
+      `SSHarbor: Deployed ${key} to ${deployed} of ${infos.length} vessel${infos.length === 1 ? '' : 's'}. Failed: ${failed.join(', ')}`
+    );
+  } else {
+    vscode.window.showInformationMessage(
+      `SSHarbor: Deployed ${key} to ${deployed} vessel${deployed === 1 ? '' : 's'}`
+    );
+  }
+}
+
+/**
+ * Register key generation and deployment commands
+ */
+export function registerKeyCommands(context: vscode.ExtensionContext, configManager: ConfigManager): void {
+  // Generate a key pair (quiet: just return its path, used by the vessel form)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.generateKey', async (options?: { quiet?: boolean }) => {
+      const keyPath = await generateKeyInteractive();
+      if (keyPath && !options?.quiet) {
+        vscode.window
+          .showInformationMessage(`SSHarbor: Install ${keyPath} on a vessel now?`, 'Deploy to Vessel...')
+          .then((choice) => {
+            if (choice) {
+              vscode.commands.executeCommand('ssharbor.deployKey', undefined, keyPath);
+            }
+          });
+      }
+      return keyPath;
+    })
+  );
+
+  // Deploy a key to one vessel (picked when run from the palette)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'ssharbor.deployKey',
+      async (itemOrInfo?: ConnectionCommandArg, keyPath?: string) => {
+        let info = extractConnectionInfo(itemOrInfo);
+        if (!info) {
+          let infos: SSHConnectionInfo[];
+          try {
+            infos = configManager.getConnectionInfos();
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+            return;
+          }
+
+          const picked = await vscode.window.showQuickPick(
+            infos.map((i) => ({ label: i.name, description: `${i.user}@${i.host}`, detail: i.fleetName, info: i })),
+            { title: 'Deploy Key: Select a vessel' }
+          );
+          info = picked?.info;
+        }
+
+        if (info) {
+          await deployKey(configManager, [info], keyPath);
+        }
+      }
+    )
+  );
+
+  // Deploy a key to every vessel of a fleet
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.deployKeyToFleet', async (fleetItem?: FleetItem) => {
+      let infos: SSHConnectionInfo[];
+      let fleets;
+      try {
+        infos = configManager.getConnectionInfos();
+        fleets = configManager.loadMergedConfig().fleets;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+        return;
+      }
+
+      let fleetId = fleetItem?.fleet?.id;
+      if (!fleetId) {
+        const picked = await vscode.window.showQuickPick(
+          fleets.map((f) => ({ label: f.name, description: `${f.vessels.length} vessel(s)`, id: f.id })),
+          { title: 'Deploy Key: Select a fleet' }
+        );
+        fleetId = picked?.id;
+      }
+
+      if (fleetId) {
+        await deployKey(configManager, infos.filter((i) => i.fleetId === fleetId));
+      }
+    })
+  );
+}
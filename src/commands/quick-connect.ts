@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { ConfigManager } from '../core/config';
 import { parseQuickConnect } from '../core/security';
+import { resolveJumpHosts } from '../core/resolve';
 import { SSHConnectionInfo } from '../types';
 import { connect } from './connect';
 
@@ -8,12 +9,10 @@ import { connect } from './connect';
  * Quick connect via input box
  */
 export async function quickConnect(configManager: ConfigManager): Promise<void> {
-  const settings = configManager.getSettings();
   const recent = configManager.loadRecent();
-  const config = configManager.loadConfig();
 
-  // Build quick pick items from recent and vessels
-  const quickPickItems: vscode.QuickPickItem[] = [];
+  // Build quick pick items from recent and vessels, each carrying its connection info
+  const quickPickItems: Array<vscode.QuickPickItem & { info?: SSHConnectionInfo }> = [];
 
   // Add recent connections
   if (recent.length > 0) {
@@ -27,31 +26,26 @@ export async function quickConnect(configManager: ConfigManager): Promise<void>
         label: r.vesselName || r.host,
         description: `${r.user}@${r.host}`,
         detail: r.fleetName ? `Fleet: ${r.fleetName}` : undefined,
+        info: configManager.getRecentConnectionInfo(r),
       });
     }
   }
 
   // Add all vessels
-  if (config.fleets.length > 0) {
+  const vessels = configManager.getConnectionInfos();
+  if (vessels.length > 0) {
     quickPickItems.push({
       label: 'All Vessels',
       kind: vscode.QuickPickItemKind.Separator,
     });
 
-    for (const fleet of config.fleets) {
-      for (const vessel of fleet.vessels) {
-        const user =
-          vessel.user ||
-          fleet.defaults?.user ||
-          config.defaults?.user ||
-          settings.defaultUser;
-
-        quickPickItems.push({
-          label: vessel.name || vessel.host,
-          description: `${user}@${vessel.host}`,
-          detail: `Fleet: ${fleet.name}`,
-        });
-      }
+    for (const info of vessels) {
+      quickPickItems.push({
+        label: info.name,
+        description: `${info.user}@${info.host}`,
+        detail: `Fleet: ${info.fleetName}`,
+        info,
+      });
     }
   }
 
@@ -62,85 +56,9 @@ export async function quickConnect(configManager: ConfigManager): Promise<void>
     matchOnDetail: true,
   });
 
-  if (!result) {
-    return;
-  }
-
-  // Check if result is a separator
-  if (result.kind === vscode.QuickPickItemKind.Separator) {
-    return;
-  }
-
-  // Find the vessel/recent connection
-  let connectionInfo: SSHConnectionInfo | null = null;
-
-  // Check recent first
-  const recentMatch = recent.find(
-    (r) =>
-      (r.vesselName || r.host) === result.label ||
-      `${r.user}@${r.host}` === result.description
-  );
-
-  if (recentMatch) {
-    connectionInfo = {
-      name: recentMatch.vesselName || recentMatch.host,
-      host: recentMatch.host,
-      user: recentMatch.user,
-      port: recentMatch.port,
-      identityFile: recentMatch.identityFile,
-      shell: config.defaults?.shell || settings.defaultShell,
-      fleetName: recentMatch.fleetName || 'Recent',
-      favorite: false,
-      tags: [],
-    };
-  }
-
-  // Check vessels
-  if (!connectionInfo) {
-    for (const fleet of config.fleets) {
-      const vessel = fleet.vessels.find(
-        (v) => (v.name || v.host) === result.label
-      );
-
-      if (vessel) {
-        const user =
-          vessel.user ||
-          fleet.defaults?.user ||
-          config.defaults?.user ||
-          settings.defaultUser;
-        const port =
-          vessel.port ||
-          fleet.defaults?.port ||
-          config.defaults?.port ||
-          settings.defaultPort;
-        const identityFile =
-          vessel.identityFile ||
-          fleet.defaults?.identityFile ||
-          config.defaults?.identityFile;
-        const shell =
-          vessel.shell ||
-          fleet.defaults?.shell ||
-          config.defaults?.shell ||
-          settings.defaultShell;
-
-        connectionInfo = {
-          name: vessel.name || vessel.host,
-          host: vessel.host,
-          user,
-          port,
-          identityFile,
-          shell,
-          fleetName: fleet.name,
-          favorite: vessel.favorite || false,
-          tags: vessel.tags || [],
-        };
-        break;
-      }
-    }
-  }
-
-  if (connectionInfo) {
-    await connect(configManager, connectionInfo);
+  // Separators carry no connection info
+  if (result?.info) {
+    await connect(configManager, result.info);
   }
 }
 
@@ -151,7 +69,8 @@ export async function quickConnectManual(
   configManager: ConfigManager
 ): Promise<void> {
   const settings = configManager.getSettings();
-  const defaults = configManager.getDefaults();
+  const config = configManager.loadConfig();
+  const defaults = config.defaults || {};
 
   const input = await vscode.window.showInputBox({
     placeHolder: 'user@host:port (e.g., root@192.168.1.1:22)',
@@ -181,6 +100,8 @@ export async function quickConnectManual(
     port: parsed.port || defaults.port || settings.defaultPort,
     identityFile: defaults.identityFile,
     shell: defaults.shell || settings.defaultShell,
+    configuredShell: defaults.shell,
+    jumpHosts: resolveJumpHosts(defaults.jumpHosts || [], config.fleets, defaults, settings),
     fleetName: 'Quick Connect',
     favorite: false,
     tags: [],
@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import { SSHConfigIntegration } from '../core/ssh-integration';
+
+/**
+ * Regenerate ~/.ssh/ssharbor_config from harbor.json
+ * Sets up the Include line first if it is missing
+ */
+export async function regenerateSSHConfig(integration: SSHConfigIntegration): Promise<void> {
+  if (!(await integration.ensureIncluded())) {
+    return;
+  }
+
+  const result = integration.regenerate();
+  if (!result) {
+    vscode.window.showErrorMessage(
+      'SSHarbor: SSH config not regenerated - fix harbor.json first'
+    );
+    return;
+  }
+
+  const count = result.content.match(/^Host /gm)?.length || 0;
+  vscode.window.showInformationMessage(
+    `SSHarbor: Regenerated ~/.ssh/ssharbor_config (${count} host${count === 1 ? '' : 's'})`
+  );
+}
+
+/**
+ * Remove stale SSHarbor_* entries, after showing what would change
+ */
+export async function cleanSSHConfig(integration: SSHConfigIntegration): Promise<void> {
+  let plan;
+  try {
+    plan = integration.planCleanup();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+    return;
+  }
+
+  const { removed, updated } = plan.managed;
+  if (removed.length === 0 && updated.length === 0 && plan.legacyAliases.length === 0) {
+    vscode.window.showInformationMessage('SSHarbor: SSH config is clean - no stale entries');
+    return;
+  }
+
+  const detailLines: string[] = [];
+  if (removed.length > 0) {
+    detailLines.push('Remove from ~/.ssh/ssharbor_config:', ...removed.map((a) => `  ${a}`), '');
+  }
+  if (updated.length > 0) {
+    detailLines.push('Update in ~/.ssh/ssharbor_config:', ...updated.map((a) => `  ${a}`), '');
+  }
+  if (plan.legacyAliases.length > 0) {
+    detailLines.push(
+      'Remove from ~/.ssh/config (a backup is written first):',
+      ...plan.legacyAliases.map((a) => `  ${a}`)
+    );
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    'SSHarbor: Clean SSH config?',
+    { modal: true, detail: detailLines.join('\n').trim() },
+    'Clean',
+    'Preview Diff'
+  );
+
+  if (choice === 'Preview Diff') {
+    await integration.previewDiff();
+    return;
+  }
+
+  if (choice !== 'Clean') {
+    return;
+  }
+
+  try {
+    integration.applyCleanup(plan);
+    const total = removed.length + plan.legacyAliases.length;
+    vscode.window.showInformationMessage(
+      `SSHarbor: Removed ${total} stale entr${total === 1 ? 'y' : 'ies'}, updated ${updated.length}`
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: Failed to clean SSH config - ${message}`);
+  }
+}
+
+/**
+ * Register managed SSH config commands
+ */
+export function registerSSHConfigCommands(
+  context: vscode.ExtensionContext,
+  integration: SSHConfigIntegration
+): void {
+  // Regenerate managed file
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.regenerateSshConfig', async () => {
+      await regenerateSSHConfig(integration);
+    })
+  );
+
+  // Preview what regeneration would change
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.previewSshConfig', async () => {
+      await integration.previewDiff();
+    })
+  );
+
+  // Remove stale entries (dry run shown first)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.cleanSshConfig', async () => {
+      await cleanSSHConfig(integration);
+    })
+  );
+
+  // Remove Include line and managed file
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.removeSshConfigIntegration', async () => {
+      await integration.removeIntegration();
+    })
+  );
+
+  // Internal: used by connect before opening a Remote SSH window
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.ensureSshConfigInclude', async () => {
+      return integration.ensureIncluded();
+    })
+  );
+}
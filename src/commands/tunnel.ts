@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import { SSHConnectionInfo, ConnectionCommandArg, extractConnectionInfo } from '../types';
+import { ConfigManager } from '../core/config';
+import { TunnelManager } from '../core/tunnels';
+import { describeForward } from '../core/ssh';
+import { confirmBoarding } from './connect';
+
+/**
+ * Start a tunnel-only session (ssh -N) for the vessel's port forwards
+ * Protected vessels and pinned host keys are checked first, as for any connection
+ */
+export async function startTunnel(
+  configManager: ConfigManager,
+  tunnelManager: TunnelManager,
+  info: SSHConnectionInfo
+): Promise<void> {
+  if (!info.forwards || info.forwards.length === 0) {
+    vscode.window.showWarningMessage(
+      `SSHarbor: "${info.name}" has no port forwards. Add "forwards" to the vessel in harbor.json.`
+    );
+    return;
+  }
+
+  if ((await confirmBoarding(configManager, info)) === 'cancelled') {
+    return;
+  }
+
+  try {
+    tunnelManager.start(info);
+    const summary = info.forwards.map(describeForward).join(', ');
+    vscode.window.showInformationMessage(`SSHarbor: Tunnel opened for ${info.name} (${summary})`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: Failed to start tunnel - ${message}`);
+  }
+}
+
+/**
+ * Stop a tunnel - by id, or pick from the active tunnels
+ */
+export async function stopTunnel(tunnelManager: TunnelManager, tunnelId?: string): Promise<void> {
+  if (!tunnelId) {
+    const tunnels = tunnelManager.getTunnels();
+
+    if (tunnels.length === 0) {
+      vscode.window.showInformationMessage('SSHarbor: No active tunnels');
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      tunnels.map((t) => ({
+        label: t.vesselName,
+        description: t.fleetName,
+        detail: t.forwards.map(describeForward).join(', '),
+        tunnelId: t.id,
+      })),
+      { placeHolder: 'Select a tunnel to stop' }
+    );
+
+    if (!picked) {
+      return;
+    }
+
+    tunnelId = picked.tunnelId;
+  }
+
+  tunnelManager.stop(tunnelId);
+}
+
+/**
+ * Register tunnel commands
+ */
+export function registerTunnelCommands(
+  context: vscode.ExtensionContext,
+  configManager: ConfigManager,
+  tunnelManager: TunnelManager
+): void {
+  // Start tunnel only (ssh -N)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'ssharbor.startTunnel',
+      async (itemOrInfo: ConnectionCommandArg) => {
+        const info = itemOrInfo ? extractConnectionInfo(itemOrInfo) : undefined;
+        if (info) {
+          await startTunnel(configManager, tunnelManager, info);
+        }
+      }
+    )
+  );
+
+  // Stop tunnel
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.stopTunnel', async (tunnelId?: string) => {
+      await stopTunnel(tunnelManager, tunnelId);
+    })
+  );
+}
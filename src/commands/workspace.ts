@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { ConnectionCommandArg, extractConnectionInfo } from '../types';
+import { ConfigManager } from '../core/config';
+import { listSSHKeys } from '../core/keys';
+import { isValidUser } from '../core/security';
+import { describeSource } from '../core/sources';
+
+/**
+ * Ask for a vessel from a shared workspace file when run from the command palette
+ */
+async function pickSharedVessel(configManager: ConfigManager): Promise<string | undefined> {
+  let shared;
+  try {
+    shared = configManager.loadSourceFleets();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+    return undefined;
+  }
+
+  const items = shared.flatMap(({ fleet, source }) =>
+    fleet.vessels.map((vessel) => ({
+      label: vessel.name || vessel.host,
+      description: `${fleet.name} · ${describeSource(source)}`,
+      id: vessel.id,
+    }))
+  );
+  if (items.length === 0) {
+    vscode.window.showInformationMessage('SSHarbor: No vessels from workspace .ssharbor.json files or includes');
+    return undefined;
+  }
+
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select a shared vessel' });
+  return picked?.id;
+}
+
+/**
+ * Pick the identity file to use locally, or go back to the shared one
+ * Returns '' for the shared one, undefined if cancelled
+ */
+async function pickIdentityFile(current: string | undefined): Promise<string | undefined> {
+  const items: Array<vscode.QuickPickItem & { keyPath: string }> = [
+    { label: '$(discard) Use the Shared Identity File', keyPath: '' },
+    ...listSSHKeys().map((keyPath) => ({
+      label: keyPath,
+      description: keyPath === current ? 'current' : undefined,
+      keyPath,
+    })),
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, { title: 'Personalize: Identity file for this vessel' });
+  return picked?.keyPath;
+}
+
+/**
+ * Set a local user name or identity file for a vessel from a shared file
+ * (workspace .ssharbor.json or an include), or go back to the shared values.
+ * The shared file is not changed.
+ */
+export async function personalizeVessel(
+  configManager: ConfigManager,
+  vesselItem?: ConnectionCommandArg
+): Promise<void> {
+  const vesselId = extractConnectionInfo(vesselItem)?.vesselId ?? (await pickSharedVessel(configManager));
+  if (!vesselId) {
+    return;
+  }
+
+  const source = configManager.getVesselSource(vesselId);
+  const info = configManager.findConnectionInfo(vesselId);
+  if (!source || !info) {
+    vscode.window.showWarningMessage('SSHarbor: Only vessels from shared files (not harbor.json) can be personalized');
+    return;
+  }
+
+  const overrides = configManager.getVesselOverrides(vesselId);
+  const local = (value: string | undefined, fallback: string | undefined) =>
+    value ? `${value} (local)` : `${fallback || 'none'} (from ${source.label})`;
+
+  type Choice = vscode.QuickPickItem & { action: 'user' | 'identityFile' | 'reset' };
+  const choices: Choice[] = [
+    { label: '$(person) User', description: local(overrides.user, info.user), action: 'user' },
+    {
+      label: '$(key) Identity File',
+      description: local(overrides.identityFile, info.identityFile),
+      action: 'identityFile',
+    },
+  ];
+  if (overrides.user || overrides.identityFile) {
+    choices.push({ label: '$(discard) Use the Shared Settings', action: 'reset' });
+  }
+
+  const choice = await vscode.window.showQuickPick(choices, { title: `Personalize ${info.name}` });
+  if (!choice) {
+    return;
+  }
+
+  try {
+    if (choice.action === 'user') {
+      const user = await vscode.window.showInputBox({
+        title: `Personalize ${info.name}: User`,
+        prompt: `Leave empty to use the user from ${source.path}`,
+        value: overrides.user ?? '',
+        validateInput: (value) => (!value || isValidUser(value) ? null : 'Invalid user name'),
+      });
+      if (user === undefined) return;
+      configManager.updateVesselOverrides(vesselId, { user: user.trim() });
+    } else if (choice.action === 'identityFile') {
+      const identityFile = await pickIdentityFile(info.identityFile);
+      if (identityFile === undefined) return;
+      configManager.updateVesselOverrides(vesselId, { identityFile });
+    } else {
+      configManager.updateVesselOverrides(vesselId, { user: undefined, identityFile: undefined });
+    }
+
+    vscode.window.showInformationMessage(`SSHarbor: Updated your local settings for "${info.name}"`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+  }
+}
+
+/**
+ * Register commands for shared (read-only) fleets
+ */
+export function registerWorkspaceCommands(context: vscode.ExtensionContext, configManager: ConfigManager): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ssharbor.personalizeVessel', (itemOrInfo?: ConnectionCommandArg) =>
+      personalizeVessel(configManager, itemOrInfo)
+    )
+  );
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseAgentList,
+  buildAgentAddArgs,
+  isIdentityLoaded,
+  formatAgentSwitch,
+  parseAgentSwitch,
+} from '../agent';
+
+vi.mock('os', async () => {
+  const actual = await vi.importActual('os');
+  return {
+    ...actual,
+    homedir: () => '/home/testuser',
+  };
+});
+
+describe('parseAgentList', () => {
+  it('should parse keys with and without comments', () => {
+    const output = [
+      '256 SHA256:/bPwlRK8h8bOnSyTxGR4I3RBn/n/gJo7GuyGGbIeCmI me@laptop (ED25519)',
+      '4096 SHA256:abcDEF123+/xyz /home/testuser/.ssh/old key (RSA)',
+      'The agent has no identities.',
+    ].join('\n');
+
+    expect(parseAgentList(output)).toEqual([
+      { bits: 256, fingerprint: 'SHA256:/bPwlRK8h8bOnSyTxGR4I3RBn/n/gJo7GuyGGbIeCmI', comment: 'me@laptop', type: 'ED25519' },
+      { bits: 4096, fingerprint: 'SHA256:abcDEF123+/xyz', comment: '/home/testuser/.ssh/old key', type: 'RSA' },
+    ]);
+  });
+
+  it('should return nothing for an empty agent', () => {
+    expect(parseAgentList('The agent has no identities.\n')).toEqual([]);
+  });
+});
+
+describe('buildAgentAddArgs', () => {
+  it('should add a lifetime only when given', () => {
+    expect(buildAgentAddArgs('~/.ssh/work', 3600)).toEqual(['-t', '3600', '/home/testuser/.ssh/work']);
+    expect(buildAgentAddArgs('~/.ssh/work')).toEqual(['/home/testuser/.ssh/work']);
+  });
+});
+
+describe('isIdentityLoaded', () => {
+  it('should fall back to the key path when there is no .pub', () => {
+    const keys = parseAgentList('256 SHA256:abc /home/testuser/.ssh/nopub (ED25519)');
+    expect(isIdentityLoaded('~/.ssh/nopub', keys)).toBe(true);
+    expect(isIdentityLoaded('~/.ssh/other', keys)).toBe(false);
+  });
+});
+
+describe('agent switches', () => {
+  it('should keep an explicit false through an edit round-trip', () => {
+    expect(parseAgentSwitch(formatAgentSwitch(false))).toBe(false);
+    expect(parseAgentSwitch(formatAgentSwitch(true))).toBe(true);
+    expect(parseAgentSwitch(formatAgentSwitch(undefined))).toBeUndefined();
+  });
+
+  it('should treat anything else as the fleet default', () => {
+    expect(parseAgentSwitch('')).toBeUndefined();
+    expect(parseAgentSwitch(false)).toBeUndefined();
+  });
+});
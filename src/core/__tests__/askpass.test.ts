@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import * as net from 'net';
+import { AskpassServer, isTargetPasswordPrompt, parseAskpassPrompt } from '../askpass';
+
+describe('parseAskpassPrompt', () => {
+  it('should recognize password prompts', () => {
+    expect(parseAskpassPrompt("deploy@web.example.com's password: ")).toEqual({
+      kind: 'password',
+      user: 'deploy',
+      host: 'web.example.com',
+    });
+    expect(parseAskpassPrompt('(deploy@10.0.0.1) Password: ')).toEqual({
+      kind: 'password',
+      user: 'deploy',
+      host: '10.0.0.1',
+    });
+    expect(parseAskpassPrompt('Password:')).toEqual({ kind: 'password' });
+  });
+
+  it('should recognize key passphrase prompts', () => {
+    expect(parseAskpassPrompt("Enter passphrase for key '/home/me/.ssh/id_ed25519': ")).toEqual({
+      kind: 'passphrase',
+      keyPath: '/home/me/.ssh/id_ed25519',
+    });
+  });
+
+  it('should recognize host key confirmations', () => {
+    const prompt =
+      "The authenticity of host 'web (10.0.0.1)' can't be established.\n" +
+      'Are you sure you want to continue connecting (yes/no/[fingerprint])? ';
+    expect(parseAskpassPrompt(prompt)).toEqual({ kind: 'confirm' });
+  });
+
+  it('should leave other prompts to the user', () => {
+    expect(parseAskpassPrompt('Verification code: ')).toEqual({ kind: 'other' });
+  });
+});
+
+describe('isTargetPasswordPrompt', () => {
+  const target = { user: 'deploy', host: 'web.example.com' };
+
+  it('should match prompts that name the target', () => {
+    expect(isTargetPasswordPrompt(parseAskpassPrompt("deploy@web.example.com's password: "), target)).toBe(true);
+    expect(isTargetPasswordPrompt(parseAskpassPrompt("admin@bastion's password: "), target)).toBe(false);
+    expect(isTargetPasswordPrompt(parseAskpassPrompt('Verification code: '), target)).toBe(false);
+  });
+
+  it('should only match a bare Password: prompt without jump hosts', () => {
+    const prompt = parseAskpassPrompt('Password:');
+    expect(isTargetPasswordPrompt(prompt, target)).toBe(true);
+    expect(isTargetPasswordPrompt(prompt, { ...target, jumpHosts: ['admin@bastion'] })).toBe(false);
+  });
+});
+
+/**
+ * Send one request the way the askpass helper does
+ */
+function ask(handle: string, request: object): Promise<{ answer?: string }> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    const socket = net.connect(handle, () => socket.write(JSON.stringify(request) + '\n'));
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => (data += chunk));
+    socket.on('end', () => resolve(JSON.parse(data)));
+    socket.on('error', reject);
+  });
+}
+
+describe('AskpassServer', () => {
+  it('should answer requests that carry its token', async () => {
+    const server = new AskpassServer(async (prompt) => `answer to ${prompt}`);
+    const env = await server.start();
+
+    try {
+      expect(env.SSH_ASKPASS_REQUIRE).toBe('force');
+      const request = { token: env.SSHARBOR_ASKPASS_TOKEN, prompt: 'Password:' };
+      expect(await ask(env.SSHARBOR_ASKPASS_HANDLE, request)).toEqual({ answer: 'answer to Password:' });
+      expect(await ask(env.SSHARBOR_ASKPASS_HANDLE, { token: 'wrong', prompt: 'Password:' })).toEqual({});
+    } finally {
+      server.dispose();
+    }
+  });
+});
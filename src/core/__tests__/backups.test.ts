@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createBackup,
+  formatBackupName,
+  listBackups,
+  parseBackupName,
+  pruneBackups,
+  summarizeBackupContent,
+} from '../backups';
+
+describe('backup names', () => {
+  it('should round-trip file name and date', () => {
+    const date = new Date('2026-10-19T18:55:12.123Z');
+    const name = formatBackupName('harbor.json', date);
+
+    expect(name).toBe('harbor.json.2026-10-19T18-55-12.123Z.bak');
+    expect(parseBackupName(name)).toEqual({ fileName: 'harbor.json', date });
+  });
+
+  it('should ignore other files', () => {
+    expect(parseBackupName('harbor.json')).toBeUndefined();
+    expect(parseBackupName('harbor.json.tmp')).toBeUndefined();
+    expect(parseBackupName('notes.bak')).toBeUndefined();
+  });
+});
+
+describe('createBackup', () => {
+  let dir: string;
+  let file: string;
+  let backups: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ssharbor-backups-'));
+    file = path.join(dir, 'harbor.json');
+    backups = path.join(dir, 'backups');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const at = (second: number) => new Date(Date.UTC(2026, 9, 19, 12, 0, second));
+
+  it('should copy the file into the backup directory', () => {
+    fs.writeFileSync(file, '{"fleets":[]}');
+
+    const backupPath = createBackup(file, backups, 5, at(0));
+
+    expect(backupPath).toBe(path.join(backups, formatBackupName('harbor.json', at(0))));
+    expect(fs.readFileSync(backupPath!, 'utf-8')).toBe('{"fleets":[]}');
+  });
+
+  it('should skip a missing file, retention 0 and unchanged content', () => {
+    expect(createBackup(file, backups, 5, at(0))).toBeUndefined();
+
+    fs.writeFileSync(file, '{"fleets":[]}');
+    expect(createBackup(file, backups, 0, at(1))).toBeUndefined();
+
+    expect(createBackup(file, backups, 5, at(2))).toBeDefined();
+    expect(createBackup(file, backups, 5, at(3))).toBeUndefined();
+    expect(listBackups(backups)).toHaveLength(1);
+  });
+
+  it('should keep only the newest backups', () => {
+    for (let i = 0; i < 5; i++) {
+      fs.writeFileSync(file, `{"n":${i}}`);
+      createBackup(file, backups, 3, at(i));
+    }
+
+    const kept = listBackups(backups, 'harbor.json');
+    expect(kept.map((b) => b.date)).toEqual([at(4), at(3), at(2)]);
+    expect(fs.readFileSync(kept[0].path, 'utf-8')).toBe('{"n":4}');
+  });
+
+  it('should prune each file separately', () => {
+    const recent = path.join(dir, 'recent.json');
+    fs.writeFileSync(file, '{"fleets":[]}');
+    fs.writeFileSync(recent, '[]');
+    createBackup(file, backups, 5, at(0));
+    createBackup(recent, backups, 5, at(1));
+
+    expect(pruneBackups(backups, 'recent.json', 0)).toBe(1);
+    expect(listBackups(backups).map((b) => b.fileName)).toEqual(['harbor.json']);
+  });
+
+  it('should list nothing when the directory does not exist', () => {
+    expect(listBackups(backups)).toEqual([]);
+  });
+});
+
+describe('summarizeBackupContent', () => {
+  it('should count fleets and vessels in harbor.json', () => {
+    const config = { fleets: [{ vessels: [{}, {}] }, { vessels: [{}] }, { name: 'broken' }] };
+    expect(summarizeBackupContent('harbor.json', config)).toBe('3 fleets, 3 vessels');
+    expect(summarizeBackupContent('harbor.json', { fleets: [{ vessels: [{}] }] })).toBe('1 fleet, 1 vessel');
+  });
+
+  it('should count recent connections and saved paths', () => {
+    expect(summarizeBackupContent('recent.json', [{}, {}])).toBe('2 recent connections');
+    expect(summarizeBackupContent('vessel-paths.json', { a: [], b: [] })).toBe('2 vessels with saved paths');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FLEET_COLORS,
+  nearestFleetColor,
+  getFleetThemeColorId,
+  getFleetStatusBarBackground,
+} from '../colors';
+
+describe('nearestFleetColor', () => {
+  it('should return palette colors as-is', () => {
+    for (const color of FLEET_COLORS) {
+      expect(nearestFleetColor(color.hex)).toBe(color);
+      expect(nearestFleetColor(color.hex.toUpperCase())).toBe(color);
+    }
+  });
+
+  it('should map other colors to the closest palette entry', () => {
+    expect(nearestFleetColor('#ff0000')?.key).toBe('red');
+    expect(nearestFleetColor('#00ff00')?.key).toBe('green');
+    expect(nearestFleetColor('#0000ff')?.key).toBe('purple');
+    expect(nearestFleetColor('#2266cc')?.key).toBe('blue');
+  });
+
+  it('should ignore missing or malformed colors', () => {
+    expect(nearestFleetColor(undefined)).toBeUndefined();
+    expect(nearestFleetColor('red')).toBeUndefined();
+    expect(nearestFleetColor('#fff')).toBeUndefined();
+  });
+});
+
+describe('getFleetThemeColorId', () => {
+  it('should build the contributed color id', () => {
+    expect(getFleetThemeColorId('#e51400')).toBe('ssharbor.fleet.red');
+    expect(getFleetThemeColorId(undefined)).toBeUndefined();
+  });
+});
+
+describe('getFleetStatusBarBackground', () => {
+  it('should use the error and warning backgrounds for alarming colors only', () => {
+    expect(getFleetStatusBarBackground('#e51400')).toBe('statusBarItem.errorBackground');
+    expect(getFleetStatusBarBackground('#f09609')).toBe('statusBarItem.warningBackground');
+    expect(getFleetStatusBarBackground('#339933')).toBeUndefined();
+    expect(getFleetStatusBarBackground(undefined)).toBeUndefined();
+  });
+});
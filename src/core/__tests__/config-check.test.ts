@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { ConfigFix, ConfigProblem, checkConfigText } from '../config-check';
+
+const text = (config: unknown) => JSON.stringify(config, null, 2);
+
+const check = (config: unknown, existing: string[] = []) =>
+  checkConfigText(typeof config === 'string' ? config : text(config), {
+    fileExists: (filePath) => existing.includes(filePath),
+  });
+
+const applyFix = (source: string, fix: ConfigFix) =>
+  source.slice(0, fix.offset) + fix.text + source.slice(fix.offset + fix.length);
+
+const at = (source: string, problem: ConfigProblem) => source.slice(problem.offset, problem.offset + problem.length);
+
+const fleet = (name: string, vessels: unknown[], extra: object = {}) => ({ id: name, name, ...extra, vessels });
+
+describe('checkConfigText', () => {
+  it('should accept a valid config', () => {
+    const config = {
+      defaults: { user: 'deploy', port: 22, identityFile: '~/.ssh/id_ed25519' },
+      fleets: [
+        fleet('Production', [
+          { id: 'a', name: 'web-1', host: 'web1.example.com', jumpHosts: ['Bastion/jump'] },
+          { id: 'b', name: 'db', host: '10.0.0.5', tags: ['db'], sshOptions: { ServerAliveInterval: 30 } },
+        ], { icon: 'server' }),
+        fleet('Bastion', [{ id: 'c', name: 'jump', host: 'jump.example.com' }]),
+      ],
+    };
+    expect(check(config, ['~/.ssh/id_ed25519'])).toEqual([]);
+  });
+
+  it('should report syntax errors where they are', () => {
+    const source = '{\n  "fleets": [\n    {"name": "a",}\n  ]\n}';
+    const [problem] = check(source);
+    expect(problem.severity).toBe('error');
+    expect(problem.offset).toBe(source.indexOf('}'));
+  });
+
+  it('should point at values the security validators reject', () => {
+    const source = text({
+      fleets: [fleet('Prod', [{ id: 'a', name: 'web', host: 'web; rm -rf /', port: 70000, user: 'root$' }])],
+    });
+    const problems = check(source);
+
+    expect(problems.map((p) => at(source, p))).toEqual(['"web; rm -rf /"', '"root$"', '70000']);
+    expect(problems.every((p) => p.severity === 'error')).toBe(true);
+  });
+
+  it('should flag duplicate vessel names and offer a rename', () => {
+    const source = text({
+      fleets: [fleet('Prod', [
+        { id: 'a', name: 'web', host: 'a.example.com' },
+        { id: 'b', name: 'web', host: 'b.example.com' },
+        { id: 'c', name: 'web-2', host: 'c.example.com' },
+      ])],
+    });
+    const [problem] = check(source);
+
+    expect(problem.message).toContain('Duplicate vessel name');
+    expect(problem.offset).toBe(source.lastIndexOf('"web"'));
+    expect(JSON.parse(applyFix(source, problem.fixes[0])).fleets[0].vessels[1].name).toBe('web-3');
+  });
+
+  it('should flag vessels whose SSH config aliases collide', () => {
+    const source = text({
+      fleets: [
+        fleet('Prod', [{ id: 'a', name: 'web.1', host: 'a.example.com' }]),
+        fleet('Prod', [{ id: 'b', name: 'web_1', host: 'b.example.com' }]),
+      ],
+    });
+    const messages = check(source).map((p) => p.message);
+
+    expect(messages).toContain('Duplicate fleet name: Prod');
+    expect(messages.some((m) => m.includes('SSHarbor_Prod_web_1'))).toBe(true);
+  });
+
+  it('should warn about missing key files and offer to remove the setting', () => {
+    const source = text({
+      fleets: [fleet('Prod', [{ id: 'a', name: 'web', host: 'a.example.com', identityFile: '~/.ssh/gone' }])],
+    });
+    const [problem] = check(source);
+
+    expect(problem.severity).toBe('warning');
+    expect(problem.message).toBe('Key file not found: ~/.ssh/gone');
+    const fixed = JSON.parse(applyFix(source, problem.fixes[0]));
+    expect(fixed.fleets[0].vessels[0]).toEqual({ id: 'a', name: 'web', host: 'a.example.com' });
+  });
+
+  it('should suggest known icons for unknown ones', () => {
+    const source = text({ fleets: [fleet('Prod', [], { icon: 'sever' })] });
+    const [problem] = check(source);
+
+    expect(problem.message).toContain('Unknown icon');
+    expect(problem.fixes[0].title).toBe('Use "server"');
+    expect(JSON.parse(applyFix(source, problem.fixes[0])).fleets[0].icon).toBe('server');
+  });
+
+  it('should warn about jump hosts referring to vessels that do not exist', () => {
+    const source = text({
+      fleets: [fleet('Prod', [{ id: 'a', name: 'web', host: 'a.example.com', jumpHosts: ['Bastion/jump'] }])],
+    });
+    expect(check(source).map((p) => p.message)).toEqual([
+      'No vessel "Bastion/jump" (jump hosts refer to vessels as "Fleet/Vessel")',
+    ]);
+  });
+
+  it('should require include entries to be paths or patterns', () => {
+    const source = text({ include: ['~/team/*.json', 42, ''], fleets: [] });
+    expect(check(source).map((p) => at(source, p))).toEqual(['42', '""']);
+  });
+
+  it('should require a fleets array and vessel hosts', () => {
+    expect(check({})[0].message).toBe('Missing "fleets" array');
+    expect(check({ fleets: {} })[0].message).toBe('"fleets" must be an array');
+    expect(check({ fleets: [fleet('Prod', [{ id: 'a', name: 'web' }])] })[0].message).toBe('Vessel has no "host"');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decryptConfig,
+  deriveKey,
+  encryptConfig,
+  generateSalt,
+  isEncryptedConfig,
+  parseEncryptedConfig,
+} from '../encryption';
+
+// Cheap scrypt cost so the tests stay fast
+const COST = 2 ** 10;
+const CONFIG = JSON.stringify({ fleets: [{ id: 'f1', name: 'Production', vessels: [] }] }, null, 2);
+
+describe('config encryption', () => {
+  it('should round-trip with the same passphrase', async () => {
+    const salt = generateSalt();
+    const key = await deriveKey('correct horse', salt, COST);
+    const content = encryptConfig(CONFIG, key, salt, COST);
+
+    expect(content).not.toContain('Production');
+    expect(isEncryptedConfig(content)).toBe(true);
+
+    const file = parseEncryptedConfig(content);
+    const again = await deriveKey('correct horse', Buffer.from(file.salt, 'base64'), file.cost);
+    expect(decryptConfig(file, again)).toBe(CONFIG);
+  });
+
+  it('should refuse a wrong passphrase', async () => {
+    const salt = generateSalt();
+    const content = encryptConfig(CONFIG, await deriveKey('correct horse', salt, COST), salt, COST);
+
+    const wrong = await deriveKey('battery staple', salt, COST);
+    expect(() => decryptConfig(parseEncryptedConfig(content), wrong)).toThrow(/wrong passphrase/);
+  });
+
+  it('should refuse a modified file', async () => {
+    const salt = generateSalt();
+    const key = await deriveKey('correct horse', salt, COST);
+    const file = parseEncryptedConfig(encryptConfig(CONFIG, key, salt, COST));
+
+    const data = Buffer.from(file.data, 'base64');
+    data[0] ^= 1;
+    expect(() => decryptConfig({ ...file, data: data.toString('base64') }, key)).toThrow();
+  });
+
+  it('should not mistake plain or broken JSON for an encrypted config', () => {
+    expect(isEncryptedConfig(CONFIG)).toBe(false);
+    expect(isEncryptedConfig('{ "fleets": [')).toBe(false);
+    expect(() => parseEncryptedConfig(CONFIG)).toThrow();
+    expect(() => parseEncryptedConfig('{"ssharborEncrypted": 1, "kdf": "scrypt", "cost": 1024}')).toThrow(/salt/);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeFingerprint,
+  normalizeFingerprint,
+  formatKnownHostsName,
+  parseKeyscanOutput,
+  findKnownHostsEntries,
+  removeKnownHostsEntries,
+  buildHostKeyReport,
+} from '../host-keys';
+
+// Generated with ssh-keygen; fingerprint as printed by ssh-keygen -l
+const ED25519 = 'AAAAC3NzaC1lZDI1NTE5AAAAIC1oH8IQsfCOcGxsmYoo+9Cjnwu4ybkfopd3fsCpXFPt';
+const ED25519_FP = 'SHA256:/bPwlRK8h8bOnSyTxGR4I3RBn/n/gJo7GuyGGbIeCmI';
+const OTHER = 'AAAAC3NzaC1lZDI1NTE5AAAAIOtherKeyOtherKeyOtherKeyOtherKeyOtherKey00';
+
+// ssh-keygen -H output for [web.example.com]:2222
+const HASHED = `|1|Ew8uUtctQ25hp6vgB5lCtRGESZ4=|xL+czizPd0NhX3ZgIiQMwHqqVtc= ssh-ed25519 ${ED25519}`;
+
+describe('fingerprints', () => {
+  it('should match ssh-keygen -l', () => {
+    expect(computeFingerprint(ED25519)).toBe(ED25519_FP);
+  });
+
+  it('should normalize prefix and padding', () => {
+    const bare = ED25519_FP.slice('SHA256:'.length);
+    expect(normalizeFingerprint(bare)).toBe(ED25519_FP);
+    expect(normalizeFingerprint(`${ED25519_FP}=`)).toBe(ED25519_FP);
+  });
+});
+
+describe('formatKnownHostsName', () => {
+  it('should bracket non-standard ports', () => {
+    expect(formatKnownHostsName('web.example.com', 22)).toBe('web.example.com');
+    expect(formatKnownHostsName('web.example.com', 2222)).toBe('[web.example.com]:2222');
+  });
+});
+
+describe('parseKeyscanOutput', () => {
+  it('should parse keys and skip comments', () => {
+    const output = [
+      '# web.example.com:22 SSH-2.0-OpenSSH_9.6',
+      `web.example.com ssh-ed25519 ${ED25519}`,
+      `web.example.com ssh-ed25519 ${ED25519}`,
+      'garbage',
+    ].join('\n');
+
+    expect(parseKeyscanOutput(output)).toEqual([
+      { type: 'ssh-ed25519', key: ED25519, fingerprint: ED25519_FP },
+    ]);
+  });
+});
+
+describe('known_hosts', () => {
+  const content = [
+    `web.example.com,10.0.0.1 ssh-ed25519 ${ED25519}`,
+    `db.example.com ssh-ed25519 ${OTHER}`,
+    HASHED,
+    `@cert-authority *.example.com ssh-ed25519 ${OTHER}`,
+    '',
+  ].join('\n');
+
+  it('should find plain and hashed entries', () => {
+    expect(findKnownHostsEntries(content, 'web.example.com', 22).map((e) => e.line)).toEqual([1]);
+    expect(findKnownHostsEntries(content, '10.0.0.1', 22)).toHaveLength(1);
+
+    const hashed = findKnownHostsEntries(content, 'web.example.com', 2222);
+    expect(hashed).toHaveLength(1);
+    expect(hashed[0]).toMatchObject({ line: 3, hashed: true, fingerprint: ED25519_FP });
+  });
+
+  it('should ignore marker lines and other ports', () => {
+    expect(findKnownHostsEntries(content, 'app.example.com', 22)).toEqual([]);
+    expect(findKnownHostsEntries(content, 'db.example.com', 2222)).toEqual([]);
+  });
+
+  it('should remove only the host name from shared lines', () => {
+    const result = removeKnownHostsEntries(content, 'web.example.com', 22);
+    expect(result.removed).toBe(1);
+    expect(result.content.split('\n')[0]).toBe(`10.0.0.1 ssh-ed25519 ${ED25519}`);
+    expect(result.content).toContain('db.example.com');
+  });
+
+  it('should remove hashed entries', () => {
+    const result = removeKnownHostsEntries(content, 'web.example.com', 2222);
+    expect(result.removed).toBe(1);
+    expect(result.content).not.toContain('|1|');
+    expect(result.content.split('\n')).toHaveLength(content.split('\n').length - 1);
+  });
+});
+
+describe('buildHostKeyReport', () => {
+  const keys = parseKeyscanOutput(`web.example.com ssh-ed25519 ${ED25519}`);
+
+  it('should check the pinned fingerprint', () => {
+    expect(buildHostKeyReport(keys, undefined, []).pin).toBe('unpinned');
+    expect(buildHostKeyReport(keys, ED25519_FP.slice(7), []).pin).toBe('match');
+    expect(buildHostKeyReport(keys, computeFingerprint(OTHER), []).pin).toBe('mismatch');
+  });
+
+  it('should detect stale known_hosts keys of the same type', () => {
+    const stale = findKnownHostsEntries(`web.example.com ssh-ed25519 ${OTHER}`, 'web.example.com', 22);
+    const current = findKnownHostsEntries(`web.example.com ssh-ed25519 ${ED25519}`, 'web.example.com', 22);
+    const otherType = findKnownHostsEntries(`web.example.com ssh-rsa ${OTHER}`, 'web.example.com', 22);
+
+    expect(buildHostKeyReport(keys, undefined, stale).knownHosts).toBe('mismatch');
+    expect(buildHostKeyReport(keys, undefined, current).knownHosts).toBe('match');
+    expect(buildHostKeyReport(keys, undefined, otherType).knownHosts).toBe('missing');
+  });
+});
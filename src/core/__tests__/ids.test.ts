@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { ensureIds, isSameVessel, withFreshIds } from '../ids';
+import { HarborConfig, Fleet } from '../../types';
+
+/** Config as it looks on disk before ids existed */
+function legacyConfig(): HarborConfig {
+  return JSON.parse(
+    JSON.stringify({
+      fleets: [
+        {
+          name: 'Production',
+          vessels: [
+            { name: 'Web (deploy)', host: 'web.example.com', user: 'deploy' },
+            { name: 'Web (root)', host: 'web.example.com', user: 'root' },
+          ],
+        },
+      ],
+    })
+  );
+}
+
+describe('ensureIds', () => {
+  it('should assign ids to fleets and vessels without one', () => {
+    const config = legacyConfig();
+
+    expect(ensureIds(config)).toBe(true);
+
+    const [fleet] = config.fleets;
+    expect(fleet.id).toBeTruthy();
+    expect(fleet.vessels[0].id).toBeTruthy();
+    expect(fleet.vessels[0].id).not.toBe(fleet.vessels[1].id);
+  });
+
+  it('should leave existing ids alone', () => {
+    const config = legacyConfig();
+    ensureIds(config);
+    const before = JSON.stringify(config);
+
+    expect(ensureIds(config)).toBe(false);
+    expect(JSON.stringify(config)).toBe(before);
+  });
+
+  it('should replace duplicated ids but keep the first occurrence', () => {
+    const config = legacyConfig();
+    ensureIds(config);
+    const [first, second] = config.fleets[0].vessels;
+    second.id = first.id;
+
+    expect(ensureIds(config)).toBe(true);
+    expect(config.fleets[0].vessels[0].id).toBe(first.id);
+    expect(config.fleets[0].vessels[1].id).not.toBe(first.id);
+  });
+});
+
+describe('isSameVessel', () => {
+  it('should tell apart vessels sharing a host', () => {
+    expect(
+      isSameVessel(
+        { id: 'a', name: 'A', host: 'web.example.com', user: 'deploy' },
+        { id: 'b', name: 'B', host: 'web.example.com', user: 'root' }
+      )
+    ).toBe(false);
+  });
+
+  it('should match on id or on host, user and port', () => {
+    expect(
+      isSameVessel(
+        { id: 'a', name: 'A', host: 'old.example.com' },
+        { id: 'a', name: 'A', host: 'new.example.com' }
+      )
+    ).toBe(true);
+    expect(
+      isSameVessel(
+        { id: 'a', name: 'A', host: 'web.example.com', port: 2222 },
+        { id: 'b', name: 'Copy', host: 'web.example.com', port: 2222 }
+      )
+    ).toBe(true);
+  });
+});
+
+describe('withFreshIds', () => {
+  it('should only replace ids that are already taken', () => {
+    const config = legacyConfig();
+    ensureIds(config);
+    const existing = config.fleets[0];
+
+    const incoming: Fleet = {
+      id: existing.id,
+      name: 'Imported',
+      vessels: [
+        { id: existing.vessels[0].id, name: 'Clash', host: 'a.example.com' },
+        { id: 'unique-id', name: 'Fine', host: 'b.example.com' },
+      ],
+    };
+
+    const result = withFreshIds(incoming, config);
+
+    expect(result.id).not.toBe(existing.id);
+    expect(result.vessels[0].id).not.toBe(existing.vessels[0].id);
+    expect(result.vessels[1].id).toBe('unique-id');
+    expect(incoming.vessels[0].id).toBe(existing.vessels[0].id);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  JournalEntry,
+  emptyJournal,
+  findForgottenVesselIds,
+  isSameConfig,
+  keepUiState,
+  parseJournal,
+  recordChange,
+} from '../journal';
+
+const entry = (label: string, before: unknown, after: unknown): JournalEntry => ({
+  label,
+  timestamp: 1,
+  before: JSON.stringify(before),
+  after: JSON.stringify(after),
+});
+
+describe('recordChange', () => {
+  it('should push onto undo and clear redo', () => {
+    const journal = emptyJournal();
+    journal.redo.push(entry('old', { fleets: [] }, { fleets: [{}] }));
+
+    expect(recordChange(journal, entry('Add fleet', { fleets: [] }, { fleets: [{ name: 'a' }] }))).toBe(true);
+
+    expect(journal.undo.map((e) => e.label)).toEqual(['Add fleet']);
+    expect(journal.redo).toEqual([]);
+  });
+
+  it('should drop changes that change nothing', () => {
+    const journal = emptyJournal();
+    const before = '{"fleets":[]}';
+    const after = '{\n  "fleets": []\n}';
+
+    expect(recordChange(journal, { label: 'noop', timestamp: 1, before, after })).toBe(false);
+    expect(journal.undo).toEqual([]);
+  });
+
+  it('should keep only the newest entries', () => {
+    const journal = emptyJournal();
+    for (let i = 0; i < 5; i++) {
+      recordChange(journal, entry(`change ${i}`, { n: i }, { n: i + 1 }), 3);
+    }
+
+    expect(journal.undo.map((e) => e.label)).toEqual(['change 2', 'change 3', 'change 4']);
+  });
+});
+
+describe('parseJournal', () => {
+  it('should read a saved journal', () => {
+    const journal = { undo: [entry('a', {}, { x: 1 })], redo: [] };
+    expect(parseJournal(JSON.stringify(journal))).toEqual(journal);
+  });
+
+  it('should skip broken entries and unreadable files', () => {
+    const content = JSON.stringify({ undo: [{ label: 'no snapshots' }, entry('ok', {}, { x: 1 })] });
+    expect(parseJournal(content).undo.map((e) => e.label)).toEqual(['ok']);
+    expect(parseJournal('not json')).toEqual(emptyJournal());
+  });
+});
+
+describe('isSameConfig', () => {
+  it('should ignore formatting but not content', () => {
+    expect(isSameConfig('{"a":1}', '{\n  "a": 1\n}')).toBe(true);
+    expect(isSameConfig('{"a":1}', '{"a":2}')).toBe(false);
+    expect(isSameConfig('{"a":1}', 'broken')).toBe(false);
+  });
+
+  it('should ignore collapsed fleets', () => {
+    const fleet = { id: 'f', name: 'A', vessels: [] };
+    const collapsed = { fleets: [{ ...fleet, collapsed: true }] };
+    expect(isSameConfig(JSON.stringify({ fleets: [fleet] }), JSON.stringify(collapsed))).toBe(true);
+  });
+});
+
+describe('keepUiState', () => {
+  it('should take collapsed from the current fleets with the same id', () => {
+    const snapshot = {
+      fleets: [
+        { id: 'a', name: 'A', vessels: [], collapsed: true },
+        { id: 'b', name: 'B', vessels: [] },
+        { id: 'c', name: 'C', vessels: [], collapsed: true },
+      ],
+    };
+    const current = {
+      fleets: [
+        { id: 'a', name: 'A', vessels: [] },
+        { id: 'b', name: 'B', vessels: [], collapsed: true },
+      ],
+    };
+
+    const fleets = keepUiState(snapshot, current).fleets;
+
+    expect(fleets.map((f) => f.collapsed)).toEqual([undefined, true, true]);
+    expect('collapsed' in fleets[0]).toBe(false);
+  });
+});
+
+describe('findForgottenVesselIds', () => {
+  const harbor = (...ids: string[]) => ({
+    fleets: [{ id: 'f', name: 'A', vessels: ids.map((id) => ({ id, host: id })) }],
+  });
+
+  it('should give vessels that no entry left in the journal knows', () => {
+    const removeA = entry('Remove a', harbor('a', 'b', 'c'), harbor('b', 'c'));
+    const removeB = entry('Remove b', harbor('b', 'c'), harbor('c'));
+    const journal = emptyJournal();
+    journal.undo.push(removeB);
+
+    expect(findForgottenVesselIds([removeA], journal)).toEqual(['a']);
+  });
+
+  it('should keep vessels an undo or redo entry can bring back', () => {
+    const removeA = entry('Remove a', harbor('a', 'b'), harbor('b'));
+    const journal = emptyJournal();
+    journal.redo.push(entry('Remove b', harbor('a', 'b'), harbor('a')));
+
+    expect(findForgottenVesselIds([removeA], journal)).toEqual([]);
+  });
+});
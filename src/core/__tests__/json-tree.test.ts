@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { JsonSyntaxError, findJsonProperty, getJsonValue, offsetToPosition, parseJsonTree } from '../json-tree';
+
+describe('parseJsonTree', () => {
+  it('should produce the same value as JSON.parse', () => {
+    const text = JSON.stringify(
+      { a: [1, -2.5e3, true, false, null], b: { 'c "quoted"': 'x\\nyé' }, empty: {}, list: [] },
+      null,
+      2
+    );
+    expect(getJsonValue(parseJsonTree(text))).toEqual(JSON.parse(text));
+  });
+
+  it('should record where values and keys are', () => {
+    const text = '{ "host": "web-1", "port": 22 }';
+    const root = parseJsonTree(text);
+
+    const host = findJsonProperty(root, 'host')!;
+    expect(text.slice(host.keyOffset, host.keyOffset + host.keyLength)).toBe('"host"');
+    expect(text.slice(host.value.offset, host.value.offset + host.value.length)).toBe('"web-1"');
+
+    const port = findJsonProperty(root, 'port')!.value;
+    expect(text.slice(port.offset, port.offset + port.length)).toBe('22');
+  });
+
+  it('should use the last of duplicate keys, like JSON.parse', () => {
+    const root = parseJsonTree('{"a": 1, "a": 2}');
+    expect(getJsonValue(findJsonProperty(root, 'a')!.value)).toBe(2);
+  });
+
+  it.each([
+    ['{"a": 1,}', 8],
+    ['{"a" 1}', 5],
+    ['[1, 2', 5],
+    ['{"a": tru}', 6],
+    ['{} x', 3],
+    ['// comment\n{}', 0],
+  ])('should report the offset of the error in %j', (text, offset) => {
+    expect(() => JSON.parse(text)).toThrow();
+    try {
+      parseJsonTree(text);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(JsonSyntaxError);
+      expect((error as JsonSyntaxError).offset).toBe(offset);
+    }
+  });
+});
+
+describe('offsetToPosition', () => {
+  it('should count lines and columns from zero', () => {
+    const text = '{\n  "a": 1,\n  "b"\n}';
+    expect(offsetToPosition(text, 0)).toEqual({ line: 0, character: 0 });
+    expect(offsetToPosition(text, text.indexOf('"b"'))).toEqual({ line: 2, character: 2 });
+  });
+});
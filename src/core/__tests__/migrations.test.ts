@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { HarborConfig } from '../../types';
+import {
+  CONFIG_MIGRATIONS,
+  CONFIG_VERSION,
+  ConfigMigration,
+  UNVERSIONED_CONFIG_VERSION,
+  getConfigVersion,
+  migrateConfig,
+} from '../migrations';
+
+const step = (version: number) => CONFIG_MIGRATIONS.find((m) => m.version === version)!;
+
+// Configs as older versions wrote them, so field types are loose on purpose
+const legacy = (config: unknown) => config as HarborConfig;
+
+describe('CONFIG_MIGRATIONS', () => {
+  it('should be consecutive, starting after unversioned files', () => {
+    expect(CONFIG_MIGRATIONS.map((m) => m.version)).toEqual(
+      CONFIG_MIGRATIONS.map((_, i) => UNVERSIONED_CONFIG_VERSION + i + 1)
+    );
+    expect(CONFIG_VERSION).toBe(CONFIG_MIGRATIONS[CONFIG_MIGRATIONS.length - 1].version);
+  });
+});
+
+describe('migration to version 2', () => {
+  it('should give fleets and vessels ids', () => {
+    const config = legacy({ fleets: [{ name: 'Prod', vessels: [{ name: 'web', host: 'web.example.com' }] }] });
+
+    step(2).migrate(config);
+
+    expect(config.fleets[0].id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(config.fleets[0].vessels[0].id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should keep existing ids', () => {
+    const config = legacy({ fleets: [{ id: 'f1', name: 'Prod', vessels: [{ id: 'v1', name: 'web', host: 'h' }] }] });
+
+    step(2).migrate(config);
+
+    expect(config.fleets[0].id).toBe('f1');
+    expect(config.fleets[0].vessels[0].id).toBe('v1');
+  });
+});
+
+describe('migration to version 3', () => {
+  it('should turn string ports into numbers everywhere', () => {
+    const config = legacy({
+      defaults: { port: '2222' },
+      fleets: [
+        {
+          id: 'f1',
+          name: 'Prod',
+          defaults: { port: ' 22 ' },
+          vessels: [
+            {
+              id: 'v1',
+              name: 'web',
+              host: 'h',
+              port: '8022',
+              forwards: [{ type: 'local', bindPort: '8080', targetHost: 'localhost', targetPort: '80' }],
+            },
+          ],
+        },
+      ],
+    });
+
+    step(3).migrate(config);
+
+    expect(config.defaults?.port).toBe(2222);
+    expect(config.fleets[0].defaults?.port).toBe(22);
+    expect(config.fleets[0].vessels[0].port).toBe(8022);
+    expect(config.fleets[0].vessels[0].forwards?.[0]).toMatchObject({ bindPort: 8080, targetPort: 80 });
+  });
+
+  it('should leave values that are not plain numbers alone', () => {
+    const config = legacy({
+      fleets: [{ id: 'f1', name: 'Prod', vessels: [{ id: 'v1', name: 'web', host: 'h', port: 'ssh' }] }],
+    });
+
+    step(3).migrate(config);
+
+    expect(config.fleets[0].vessels[0].port).toBe('ssh');
+  });
+});
+
+describe('getConfigVersion', () => {
+  it('should treat files without a version as unversioned', () => {
+    expect(getConfigVersion({})).toBe(UNVERSIONED_CONFIG_VERSION);
+    expect(getConfigVersion({ version: 3 })).toBe(3);
+  });
+
+  it('should reject versions that are not whole numbers', () => {
+    expect(() => getConfigVersion({ version: '2' })).toThrow(/invalid "version"/);
+    expect(() => getConfigVersion({ version: 0 })).toThrow(/invalid "version"/);
+  });
+});
+
+describe('migrateConfig', () => {
+  const recorder = (log: string[]): ConfigMigration[] =>
+    [2, 3, 4].map((version) => ({
+      version,
+      description: `to ${version}`,
+      migrate: () => log.push(`to ${version}`),
+    }));
+
+  it('should run only the steps after the file version, in order', () => {
+    const log: string[] = [];
+    const config = legacy({ version: 2, fleets: [] });
+
+    expect(migrateConfig(config, recorder(log))).toEqual(['to 3', 'to 4']);
+    expect(log).toEqual(['to 3', 'to 4']);
+    expect(config.version).toBe(4);
+  });
+
+  it('should stamp current files without running steps', () => {
+    const log: string[] = [];
+    const config = legacy({ version: 4, fleets: [] });
+
+    expect(migrateConfig(config, recorder(log))).toEqual([]);
+    expect(config.version).toBe(4);
+  });
+
+  it('should refuse files from a newer version', () => {
+    const config = legacy({ version: CONFIG_VERSION + 1, fleets: [] });
+    expect(() => migrateConfig(config)).toThrow(/newer version of SSHarbor/);
+    expect(config.version).toBe(CONFIG_VERSION + 1);
+  });
+
+  it('should bring an unversioned file to the current version', () => {
+    const config = legacy({ fleets: [{ name: 'Prod', vessels: [{ name: 'web', host: 'h', port: '22' }] }] });
+
+    migrateConfig(config);
+
+    expect(config.version).toBe(CONFIG_VERSION);
+    expect(config.fleets[0].vessels[0]).toMatchObject({ port: 22, id: expect.any(String) });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { getProtectionReason } from '../policy';
+import { SSHConnectionInfo } from '../../types';
+
+const web: SSHConnectionInfo = {
+  name: 'Web',
+  host: 'web.example.com',
+  user: 'deploy',
+  port: 22,
+  shell: '/bin/bash',
+  vesselId: 'v1',
+  fleetName: 'Production',
+  favorite: false,
+  tags: ['Prod', 'nginx'],
+};
+
+const staging: SSHConnectionInfo = {
+  ...web,
+  name: 'Staging Web',
+  host: 'staging.example.com',
+  vesselId: 'v2',
+  fleetName: 'Staging',
+  tags: [],
+};
+
+describe('getProtectionReason', () => {
+  it('should protect vessels of protected fleets', () => {
+    expect(getProtectionReason(web, { protectedFleets: ['Production'] })).toBe(
+      'fleet "Production"'
+    );
+    expect(getProtectionReason(staging, { protectedFleets: ['Production'] })).toBeUndefined();
+  });
+
+  it('should match protected tags case-insensitively', () => {
+    expect(getProtectionReason(web, { protectedTags: ['prod'] })).toBe('tag "Prod"');
+  });
+
+  it('should protect nothing without a policy', () => {
+    expect(getProtectionReason(web, undefined)).toBeUndefined();
+    expect(getProtectionReason(web, {})).toBeUndefined();
+  });
+
+  it('should protect quick connections to a protected host', () => {
+    const quick = { ...web, vesselId: undefined, user: 'root', fleetName: 'Quick Connect', tags: [] };
+    expect(getProtectionReason(quick, { protectedTags: ['prod'] }, [staging, web])).toBe(
+      'tag "Prod" via Production/Web'
+    );
+    expect(
+      getProtectionReason({ ...quick, port: 2222 }, { protectedTags: ['prod'] }, [web])
+    ).toBeUndefined();
+  });
+
+  it('should not look up vessels that are in harbor.json', () => {
+    const sameHost = { ...staging, host: web.host };
+    expect(getProtectionReason(sameHost, { protectedTags: ['prod'] }, [web])).toBeUndefined();
+  });
+});
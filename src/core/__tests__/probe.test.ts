@@ -0,0 +1,86 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as net from 'net';
+import { probeSSH, runWithConcurrency } from '../probe';
+
+/**
+ * Start a local TCP server that runs `onConnection` for each client
+ */
+function startServer(onConnection: (socket: net.Socket) => void): Promise<net.Server> {
+  return new Promise((resolve) => {
+    const server = net.createServer(onConnection);
+    server.listen(0, '127.0.0.1', () => resolve(server));
+  });
+}
+
+function getPort(server: net.Server): number {
+  return (server.address() as net.AddressInfo).port;
+}
+
+describe('probeSSH', () => {
+  let server: net.Server | undefined;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = undefined;
+  });
+
+  it('should report up with banner and latency', async () => {
+    server = await startServer((socket) => socket.write('SSH-2.0-OpenSSH_9.6\r\n'));
+
+    const result = await probeSSH('127.0.0.1', getPort(server), 2000);
+
+    expect(result.status).toBe('up');
+    expect(result.banner).toBe('SSH-2.0-OpenSSH_9.6');
+    expect(result.latency).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report down for non-SSH servers', async () => {
+    server = await startServer((socket) => socket.write('HTTP/1.1 400 Bad Request\r\n'));
+
+    const result = await probeSSH('127.0.0.1', getPort(server), 2000);
+
+    expect(result.status).toBe('down');
+    expect(result.error).toBe('Not an SSH server');
+  });
+
+  it('should report down when no banner arrives in time', async () => {
+    server = await startServer(() => {
+      // Accept but stay silent
+    });
+
+    const result = await probeSSH('127.0.0.1', getPort(server), 200);
+
+    expect(result.status).toBe('down');
+    expect(result.error).toBe('No SSH banner received');
+  });
+
+  it('should report down when the port is closed', async () => {
+    server = await startServer(() => {});
+    const port = getPort(server);
+    await new Promise<void>((resolve) => server!.close(() => resolve()));
+    server = undefined;
+
+    const result = await probeSSH('127.0.0.1', port, 2000);
+
+    expect(result.status).toBe('down');
+    expect(result.error).toBe('ECONNREFUSED');
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('should preserve result order and respect the limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const tasks = [30, 10, 20, 5].map((delay, i) => async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight--;
+      return i;
+    });
+
+    expect(await runWithConcurrency(tasks, 2)).toEqual([0, 1, 2, 3]);
+    expect(maxInFlight).toBe(2);
+  });
+});
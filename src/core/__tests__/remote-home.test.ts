@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { buildRemoteHomeArgs, parseRemoteHome } from '../remote-home';
+import { SSHConnectionInfo } from '../../types';
+
+const info: SSHConnectionInfo = {
+  name: 'Web',
+  host: 'web.example.com',
+  user: 'deploy',
+  port: 2222,
+  jumpHosts: ['admin@bastion.example.com'],
+  forwards: [{ type: 'local', bindPort: 8080, targetHost: 'localhost', targetPort: 80 }],
+  fleetName: 'Production',
+  favorite: false,
+  tags: [],
+  shell: 'bash',
+};
+
+describe('buildRemoteHomeArgs', () => {
+  it('should run non-interactively and end with the echo command', () => {
+    const args = buildRemoteHomeArgs(info);
+
+    expect(args.slice(0, 5)).toEqual(['-T', '-o', 'BatchMode=yes', '-o', 'ConnectTimeout=10']);
+    expect(args).toContain('-J');
+    expect(args.slice(-2)).toEqual(['deploy@web.example.com', 'echo "$HOME"']);
+  });
+
+  it('should leave out port forwards', () => {
+    expect(buildRemoteHomeArgs(info)).not.toContain('-L');
+  });
+
+  it('should reject invalid connection info', () => {
+    expect(() => buildRemoteHomeArgs({ ...info, host: 'bad;host' })).toThrow();
+  });
+});
+
+describe('parseRemoteHome', () => {
+  it('should return the printed home directory', () => {
+    expect(parseRemoteHome('/home/deploy\n')).toBe('/home/deploy');
+    expect(parseRemoteHome('/var/lib/jenkins/\r\n')).toBe('/var/lib/jenkins');
+    expect(parseRemoteHome('/\n')).toBe('/');
+  });
+
+  it('should skip banners printed by shell rc files', () => {
+    expect(parseRemoteHome('Welcome to web-1\nLast login: today\n/srv/deploy\n')).toBe('/srv/deploy');
+  });
+
+  it('should return undefined without a usable path', () => {
+    expect(parseRemoteHome('')).toBeUndefined();
+    expect(parseRemoteHome('\n')).toBeUndefined();
+    expect(parseRemoteHome('~\n')).toBeUndefined();
+    expect(parseRemoteHome('/home/$(id)\n')).toBeUndefined();
+  });
+});
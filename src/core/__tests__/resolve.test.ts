@@ -0,0 +1,263 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveConnectionInfo,
+  resolveJumpHosts,
+  mergeSSHOptions,
+  renameFleetReferences,
+  renameVesselReferences,
+} from '../resolve';
+import { Fleet, HarborConfig, SSHarborSettings } from '../../types';
+
+const settings: SSHarborSettings = {
+  defaultShell: '/bin/zsh',
+  defaultUser: 'root',
+  defaultPort: 22,
+  showRecentConnections: true,
+  maxRecentConnections: 5,
+  healthCheckEnabled: true,
+  healthCheckInterval: 60,
+  healthCheckConcurrency: 8,
+  backupRetention: 20,
+  rememberConfigKey: false,
+};
+
+describe('resolveConnectionInfo', () => {
+  it('should cascade vessel, fleet and harbor defaults', () => {
+    const fleet: Fleet = {
+      name: 'Production',
+      defaults: { user: 'deploy', identityFile: '~/.ssh/prod' },
+      vessels: [{ name: 'Web', host: 'web.example.com', port: 2222 }],
+    };
+
+    const info = resolveConnectionInfo(fleet.vessels[0], fleet, { shell: '/bin/bash' }, settings);
+
+    expect(info).toEqual({
+      name: 'Web',
+      host: 'web.example.com',
+      user: 'deploy',
+      port: 2222,
+      identityFile: '~/.ssh/prod',
+      shell: '/bin/bash',
+      configuredShell: '/bin/bash',
+      jumpHosts: undefined,
+      forwards: undefined,
+      sshOptions: undefined,
+      fleetName: 'Production',
+      favorite: false,
+      tags: [],
+    });
+  });
+
+  it('should tell a shell from harbor.json apart from the setting default', () => {
+    const fleet: Fleet = { name: 'Production', vessels: [{ name: 'Web', host: 'web.example.com' }] };
+
+    const info = resolveConnectionInfo(fleet.vessels[0], fleet, {}, settings);
+    expect(info.shell).toBe('/bin/zsh');
+    expect(info.configuredShell).toBeUndefined();
+  });
+
+  it('should cascade jump hosts from fleet defaults', () => {
+    const fleet: Fleet = {
+      name: 'Private',
+      defaults: { jumpHosts: ['ops@bastion.example.com'] },
+      vessels: [{ name: 'DB', host: '10.0.0.5' }],
+    };
+
+    const info = resolveConnectionInfo(fleet.vessels[0], fleet, {}, settings);
+    expect(info.jumpHosts).toEqual(['ops@bastion.example.com']);
+  });
+
+  it('should let an empty vessel list override fleet jump hosts', () => {
+    const fleet: Fleet = {
+      name: 'Private',
+      defaults: { jumpHosts: ['Private/Bastion'] },
+      vessels: [{ name: 'Bastion', host: 'bastion.example.com', jumpHosts: [] }],
+    };
+
+    const info = resolveConnectionInfo(fleet.vessels[0], fleet, {}, settings);
+    expect(info.jumpHosts).toBeUndefined();
+  });
+});
+
+describe('resolveJumpHosts', () => {
+  const fleets: Fleet[] = [
+    {
+      name: 'Infra',
+      defaults: { user: 'ops' },
+      vessels: [
+        { name: 'Edge', host: 'edge.example.com', port: 2222 },
+        { name: 'Inner', host: '10.0.0.2', jumpHosts: ['Infra/Edge'] },
+        { name: 'Loop', host: '10.0.0.3', jumpHosts: ['Infra/Loop'] },
+      ],
+    },
+  ];
+
+  it('should keep raw entries as-is', () => {
+    expect(resolveJumpHosts(['admin@jump.example.com:22'], fleets, {}, settings)).toEqual([
+      'admin@jump.example.com:22',
+    ]);
+  });
+
+  it('should resolve vessel references with their cascaded user and port', () => {
+    expect(resolveJumpHosts(['Infra/Edge'], fleets, {}, settings)).toEqual([
+      'ops@edge.example.com:2222',
+    ]);
+  });
+
+  it('should expand nested jump chains', () => {
+    expect(resolveJumpHosts(['Infra/Inner'], fleets, {}, settings)).toEqual([
+      'ops@edge.example.com:2222',
+      'ops@10.0.0.2',
+    ]);
+  });
+
+  it('should leave unknown references unresolved', () => {
+    expect(resolveJumpHosts(['Infra/Missing'], fleets, {}, settings)).toEqual(['Infra/Missing']);
+  });
+
+  it('should stop on cycles', () => {
+    expect(resolveJumpHosts(['Infra/Loop'], fleets, {}, settings)).toEqual([
+      'Infra/Loop',
+      'ops@10.0.0.3',
+    ]);
+  });
+});
+
+describe('mergeSSHOptions', () => {
+  it('should let vessel options override fleet and harbor options', () => {
+    expect(
+      mergeSSHOptions(
+        { ServerAliveInterval: 60, Compression: true },
+        { ServerAliveInterval: 30 },
+        { ForwardAgent: 'yes' }
+      )
+    ).toEqual({ ServerAliveInterval: 30, Compression: true, ForwardAgent: 'yes' });
+  });
+
+  it('should match keys case-insensitively', () => {
+    expect(mergeSSHOptions({ compression: 'no' }, { COMPRESSION: 'yes' })).toEqual({
+      Compression: 'yes',
+    });
+  });
+
+  it('should keep unknown keys for validation to reject', () => {
+    expect(mergeSSHOptions({ ProxyCommand: 'nc %h %p' })).toEqual({ ProxyCommand: 'nc %h %p' });
+  });
+});
+
+describe('working directory and startup commands', () => {
+  it('should take the vessel value over the fleet default', () => {
+    const fleet: Fleet = {
+      id: 'f1',
+      name: 'Production',
+      defaults: { workingDirectory: '/srv/app', startupCommands: ['sudo -iu deploy'] },
+      vessels: [
+        { id: 'v1', name: 'Web', host: 'web.example.com' },
+        { id: 'v2', name: 'DB', host: 'db.example.com', workingDirectory: '~', startupCommands: [] },
+      ],
+    };
+
+    const web = resolveConnectionInfo(fleet.vessels[0], fleet, {}, settings);
+    const db = resolveConnectionInfo(fleet.vessels[1], fleet, {}, settings);
+
+    expect(web.workingDirectory).toBe('/srv/app');
+    expect(web.startupCommands).toEqual(['sudo -iu deploy']);
+    expect(db.workingDirectory).toBe('~');
+    expect(db.startupCommands).toEqual([]);
+  });
+});
+
+describe('agent options', () => {
+  it('should turn forwardAgent and identitiesOnly into ssh options', () => {
+    const fleet: Fleet = {
+      id: 'f1',
+      name: 'Production',
+      defaults: { identitiesOnly: true },
+      vessels: [
+        { id: 'v1', name: 'Web', host: 'web.example.com', forwardAgent: true },
+        { id: 'v2', name: 'DB', host: 'db.example.com', identitiesOnly: false },
+      ],
+    };
+
+    expect(resolveConnectionInfo(fleet.vessels[0], fleet, {}, settings).sshOptions).toEqual({
+      IdentitiesOnly: true,
+      ForwardAgent: true,
+    });
+    expect(resolveConnectionInfo(fleet.vessels[1], fleet, {}, settings).sshOptions).toEqual({
+      IdentitiesOnly: false,
+    });
+  });
+
+  it('should let sshOptions of the same level win', () => {
+    const fleet: Fleet = {
+      id: 'f1',
+      name: 'Production',
+      vessels: [
+        { id: 'v1', name: 'Web', host: 'web.example.com', forwardAgent: true, sshOptions: { forwardagent: 'no' } },
+      ],
+    };
+
+    expect(resolveConnectionInfo(fleet.vessels[0], fleet, {}, settings).sshOptions).toEqual({ ForwardAgent: 'no' });
+  });
+});
+
+describe('renameFleetReferences', () => {
+  it('should rename vessel references in vessels and defaults', () => {
+    const config: HarborConfig = {
+      defaults: { jumpHosts: ['Infra/Bastion'] },
+      policy: { protectedFleets: ['Infra', 'Production'] },
+      fleets: [
+        {
+          id: 'f1',
+          name: 'Infra',
+          vessels: [{ id: 'v1', name: 'Bastion', host: '10.0.0.1', jumpHosts: [] }],
+        },
+        {
+          id: 'f2',
+          name: 'Production',
+          defaults: { jumpHosts: ['Infra/Bastion'] },
+          vessels: [
+            { id: 'v2', name: 'DB', host: '10.0.0.5', jumpHosts: ['Infra/Bastion', 'ops@gw'] },
+            { id: 'v3', name: 'Web', host: '10.0.0.6', jumpHosts: ['Infrastructure/Other'] },
+          ],
+        },
+      ],
+    };
+
+    expect(renameFleetReferences(config, 'Infra', 'Core')).toBe(4);
+    expect(config.policy?.protectedFleets).toEqual(['Core', 'Production']);
+    expect(config.defaults?.jumpHosts).toEqual(['Core/Bastion']);
+    expect(config.fleets[1].defaults?.jumpHosts).toEqual(['Core/Bastion']);
+    expect(config.fleets[1].vessels[0].jumpHosts).toEqual(['Core/Bastion', 'ops@gw']);
+    expect(config.fleets[1].vessels[1].jumpHosts).toEqual(['Infrastructure/Other']);
+  });
+});
+
+describe('renameVesselReferences', () => {
+  it('should rename references to one vessel only', () => {
+    const config: HarborConfig = {
+      defaults: { jumpHosts: ['Infra/Bastion'] },
+      fleets: [
+        {
+          id: 'f1',
+          name: 'Infra',
+          vessels: [
+            { id: 'v1', name: 'Bastion', host: '10.0.0.1' },
+            { id: 'v2', name: 'Gateway', host: '10.0.0.2' },
+          ],
+        },
+        {
+          id: 'f2',
+          name: 'Production',
+          defaults: { jumpHosts: ['Infra/Gateway'] },
+          vessels: [{ id: 'v3', name: 'DB', host: '10.0.0.5', jumpHosts: ['Infra/Bastion', 'ops@gw'] }],
+        },
+      ],
+    };
+
+    expect(renameVesselReferences(config, 'Infra/Bastion', 'Edge/Jump')).toBe(2);
+    expect(config.defaults?.jumpHosts).toEqual(['Edge/Jump']);
+    expect(config.fleets[1].defaults?.jumpHosts).toEqual(['Infra/Gateway']);
+    expect(config.fleets[1].vessels[0].jumpHosts).toEqual(['Edge/Jump', 'ops@gw']);
+  });
+});
@@ -12,6 +12,16 @@ import {
   isValidFleetName,
   isValidVesselName,
   isValidTag,
+  isValidJumpHost,
+  isValidPortForward,
+  isValidSSHOption,
+  getCanonicalSSHOption,
+  isValidShell,
+  quoteShellArg,
+  isValidRemotePath,
+  isValidStartupCommand,
+  isValidHostKeyFingerprint,
+  quoteRemotePath,
 } from '../security';
 
 // Mock os.homedir for consistent tests
@@ -203,6 +213,17 @@ describe('validateConnectionInfo', () => {
     expect(result.valid).toBe(false);
     expect(result.error).toContain('Invalid identity file');
   });
+
+  it('should reject invalid jump hosts', () => {
+    const result = validateConnectionInfo({
+      host: 'example.com',
+      user: 'admin',
+      port: 22,
+      jumpHosts: ['bastion;rm -rf'],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('Invalid jump host');
+  });
 });
 
 describe('parseQuickConnect', () => {
@@ -295,3 +316,151 @@ describe('isValidTag', () => {
     expect(isValidTag('invalid;tag')).toBe(false);
   });
 });
+
+describe('isValidJumpHost', () => {
+  it('should accept raw host entries', () => {
+    expect(isValidJumpHost('bastion.example.com')).toBe(true);
+    expect(isValidJumpHost('ops@bastion.example.com')).toBe(true);
+    expect(isValidJumpHost('ops@bastion.example.com:2222')).toBe(true);
+    expect(isValidJumpHost('10.0.0.1:22')).toBe(true);
+  });
+
+  it('should accept vessel references', () => {
+    expect(isValidJumpHost('Infra/Bastion')).toBe(true);
+    expect(isValidJumpHost('AWS Prod/jump-01.eu')).toBe(true);
+  });
+
+  it('should reject invalid entries', () => {
+    expect(isValidJumpHost('')).toBe(false);
+    expect(isValidJumpHost('host;rm -rf')).toBe(false);
+    expect(isValidJumpHost('ops@host:99999')).toBe(false);
+    expect(isValidJumpHost('a/b/c')).toBe(false);
+    expect(isValidJumpHost('-oProxyCommand=evil')).toBe(false);
+  });
+});
+
+describe('isValidPortForward', () => {
+  it('should accept valid forwards', () => {
+    expect(isValidPortForward({ type: 'local', bindPort: 5432, targetHost: 'localhost', targetPort: 5432 })).toBe(true);
+    expect(isValidPortForward({ type: 'remote', bindAddress: '*', bindPort: 80, targetHost: '10.0.0.1', targetPort: 8080 })).toBe(true);
+    expect(isValidPortForward({ type: 'dynamic', bindAddress: '127.0.0.1', bindPort: 1080 })).toBe(true);
+  });
+
+  it('should reject invalid forwards', () => {
+    expect(isValidPortForward({ type: 'local', bindPort: 0, targetHost: 'localhost', targetPort: 5432 })).toBe(false);
+    expect(isValidPortForward({ type: 'local', bindPort: 5432 })).toBe(false);
+    expect(isValidPortForward({ type: 'dynamic', bindPort: 1080, targetHost: 'localhost', targetPort: 80 })).toBe(false);
+    expect(isValidPortForward({ type: 'local', bindAddress: 'a b', bindPort: 1, targetHost: 'x', targetPort: 1 })).toBe(false);
+    expect(isValidPortForward({ type: 'tcp' as 'local', bindPort: 1, targetHost: 'x', targetPort: 1 })).toBe(false);
+  });
+});
+
+describe('isValidSSHOption', () => {
+  it('should accept allowed keywords with safe values', () => {
+    expect(isValidSSHOption('ServerAliveInterval', 30)).toBe(true);
+    expect(isValidSSHOption('StrictHostKeyChecking', 'accept-new')).toBe(true);
+    expect(isValidSSHOption('Compression', true)).toBe(true);
+    expect(isValidSSHOption('forwardagent', 'no')).toBe(true);
+    expect(isValidSSHOption('Ciphers', 'aes256-gcm@openssh.com,chacha20-poly1305@openssh.com')).toBe(true);
+  });
+
+  it('should reject unknown or dangerous keywords', () => {
+    expect(isValidSSHOption('ProxyCommand', 'nc %h %p')).toBe(false);
+    expect(isValidSSHOption('LocalCommand', 'id')).toBe(false);
+    expect(isValidSSHOption('Include', '/etc/passwd')).toBe(false);
+  });
+
+  it('should reject unsafe values', () => {
+    expect(isValidSSHOption('ServerAliveInterval', '30; rm -rf /')).toBe(false);
+    expect(isValidSSHOption('Compression', 'maybe')).toBe(false);
+    expect(isValidSSHOption('Ciphers', 'aes256 -oProxyCommand=x')).toBe(false);
+    expect(isValidSSHOption('Compression', null)).toBe(false);
+  });
+});
+
+describe('getCanonicalSSHOption', () => {
+  it('should return canonical spelling', () => {
+    expect(getCanonicalSSHOption('serveraliveinterval')).toBe('ServerAliveInterval');
+    expect(getCanonicalSSHOption('MACS')).toBe('MACs');
+    expect(getCanonicalSSHOption('ProxyCommand')).toBeUndefined();
+  });
+});
+
+describe('isValidShell', () => {
+  it('should accept absolute paths and command names', () => {
+    expect(isValidShell('/bin/zsh')).toBe(true);
+    expect(isValidShell('/usr/local/bin/fish')).toBe(true);
+    expect(isValidShell('bash')).toBe(true);
+  });
+
+  it('should reject anything that needs quoting', () => {
+    expect(isValidShell('')).toBe(false);
+    expect(isValidShell('/bin/zsh; rm -rf /')).toBe(false);
+    expect(isValidShell('$(id)')).toBe(false);
+    expect(isValidShell('/bin/../tmp/sh')).toBe(false);
+    expect(isValidShell('/bin//zsh')).toBe(false);
+  });
+});
+
+describe('quoteShellArg', () => {
+  it('should leave safe words unquoted', () => {
+    expect(quoteShellArg('/srv/app')).toBe('/srv/app');
+  });
+
+  it('should single-quote everything else', () => {
+    expect(quoteShellArg('my dir')).toBe("'my dir'");
+    expect(quoteShellArg('$(id)')).toBe("'$(id)'");
+    expect(quoteShellArg("it's")).toBe("'it'\\''s'");
+    expect(quoteShellArg('')).toBe("''");
+  });
+});
+
+describe('isValidRemotePath', () => {
+  it('should accept absolute and home-relative paths', () => {
+    expect(isValidRemotePath('/srv/app')).toBe(true);
+    expect(isValidRemotePath('/srv/my app/')).toBe(true);
+    expect(isValidRemotePath('~')).toBe(true);
+    expect(isValidRemotePath('~/projects')).toBe(true);
+    expect(isValidRemotePath('/')).toBe(true);
+  });
+
+  it('should reject relative paths and special characters', () => {
+    expect(isValidRemotePath('srv/app')).toBe(false);
+    expect(isValidRemotePath('~user/app')).toBe(false);
+    expect(isValidRemotePath('/srv/$(id)')).toBe(false);
+    expect(isValidRemotePath("/srv/it's")).toBe(false);
+    expect(isValidRemotePath('/srv/app#1')).toBe(false);
+  });
+});
+
+describe('isValidStartupCommand', () => {
+  it('should accept single-line commands', () => {
+    expect(isValidStartupCommand('sudo -iu deploy')).toBe(true);
+    expect(isValidStartupCommand("echo 'hi' | tee /tmp/x")).toBe(true);
+  });
+
+  it('should reject empty and multi-line commands', () => {
+    expect(isValidStartupCommand('  ')).toBe(false);
+    expect(isValidStartupCommand('ls\nrm -rf /')).toBe(false);
+  });
+});
+
+describe('isValidHostKeyFingerprint', () => {
+  it('should accept SHA256 fingerprints with or without prefix', () => {
+    expect(isValidHostKeyFingerprint('SHA256:/bPwlRK8h8bOnSyTxGR4I3RBn/n/gJo7GuyGGbIeCmI')).toBe(true);
+    expect(isValidHostKeyFingerprint('/bPwlRK8h8bOnSyTxGR4I3RBn/n/gJo7GuyGGbIeCmI=')).toBe(true);
+  });
+
+  it('should reject MD5 and truncated fingerprints', () => {
+    expect(isValidHostKeyFingerprint('MD5:16:27:ac:a5:76:28:2d:36:63:1b:56:4d:eb:df:a6:48')).toBe(false);
+    expect(isValidHostKeyFingerprint('SHA256:abc')).toBe(false);
+  });
+});
+
+describe('quoteRemotePath', () => {
+  it('should keep ~ expandable', () => {
+    expect(quoteRemotePath('~')).toBe('"$HOME"');
+    expect(quoteRemotePath('~/my app')).toBe('"$HOME"/\'my app\'');
+    expect(quoteRemotePath('/srv/app')).toBe('/srv/app');
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigSource } from '../../types';
+import {
+  applyVesselOverrides,
+  deriveSourceId,
+  describeSource,
+  expandIncludePattern,
+  findFleetNameConflicts,
+  findSourceError,
+  findWorkspaceConfigFile,
+  readSourceFleets,
+  splitIncludePattern,
+} from '../sources';
+
+const source: ConfigSource = { kind: 'workspace', label: 'infra', path: '/work/infra/.ssharbor.json' };
+
+const text = (config: unknown) => JSON.stringify(config, null, 2);
+
+describe('findWorkspaceConfigFile', () => {
+  it('should prefer .ssharbor.json over .vscode/ssharbor.json', () => {
+    const both = [path.join('/work', '.ssharbor.json'), path.join('/work', '.vscode', 'ssharbor.json')];
+    expect(findWorkspaceConfigFile('/work', (p) => both.includes(p))).toBe(both[0]);
+    expect(findWorkspaceConfigFile('/work', (p) => p === both[1])).toBe(both[1]);
+    expect(findWorkspaceConfigFile('/work', () => false)).toBeUndefined();
+  });
+});
+
+describe('deriveSourceId', () => {
+  it('should be stable and shaped like a generated id', () => {
+    expect(deriveSourceId('a', 'b')).toBe(deriveSourceId('a', 'b'));
+    expect(deriveSourceId('a', 'b')).not.toBe(deriveSourceId('ab'));
+    expect(deriveSourceId('a')).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+  });
+});
+
+describe('readSourceFleets', () => {
+  it('should give fleets and vessels ids that survive a reload', () => {
+    const content = text({ fleets: [{ name: 'Staging', vessels: [{ name: 'web', host: 'web.staging' }] }] });
+
+    const first = readSourceFleets(content, source);
+    const second = readSourceFleets(content, source);
+
+    expect(first[0].id).toBe(second[0].id);
+    expect(first[0].vessels[0].id).toBe(second[0].vessels[0].id);
+    expect(first[0].vessels[0].id).not.toBe(first[0].id);
+  });
+
+  it('should keep explicit ids unless they are taken', () => {
+    const content = text({
+      fleets: [
+        {
+          id: 'f1',
+          name: 'Staging',
+          vessels: [{ id: 'v1', name: 'web', host: 'h' }, { id: 'v1', name: 'db', host: 'h2' }],
+        },
+      ],
+    });
+    const taken = new Set(['f1']);
+
+    const [fleet] = readSourceFleets(content, source, taken);
+
+    expect(fleet.id).not.toBe('f1');
+    expect(fleet.vessels[0].id).toBe('v1');
+    expect(fleet.vessels[1].id).not.toBe('v1');
+    expect(taken).toEqual(new Set(['f1', fleet.id, 'v1', fleet.vessels[1].id]));
+  });
+
+  it('should tell vessels with the same name apart', () => {
+    const content = text({
+      fleets: [{ name: 'Staging', vessels: [{ name: 'web', host: 'a' }, { name: 'web', host: 'b' }] }],
+    });
+    const [fleet] = readSourceFleets(content, source);
+    expect(fleet.vessels[0].id).not.toBe(fleet.vessels[1].id);
+  });
+
+  it('should fold the file defaults into fleet defaults', () => {
+    const content = text({
+      defaults: { user: 'deploy', port: 2222, sshOptions: { ServerAliveInterval: 30, Compression: true } },
+      fleets: [
+        { name: 'A', vessels: [] },
+        { name: 'B', defaults: { user: 'admin', sshOptions: { Compression: false } }, vessels: [] },
+      ],
+    });
+
+    const [a, b] = readSourceFleets(content, source);
+
+    expect(a.defaults).toEqual({
+      user: 'deploy',
+      port: 2222,
+      sshOptions: { ServerAliveInterval: 30, Compression: true },
+    });
+    expect(b.defaults).toEqual({
+      user: 'admin',
+      port: 2222,
+      sshOptions: { ServerAliveInterval: 30, Compression: false },
+    });
+  });
+
+  it('should skip fleets without a name and vessels without a host', () => {
+    const content = text({ fleets: [{ vessels: [] }, { name: 'A', vessels: [{ name: 'no host' }, { host: 'h' }] }] });
+    const fleets = readSourceFleets(content, source);
+    expect(fleets.map((f) => f.name)).toEqual(['A']);
+    expect(fleets[0].vessels.map((v) => v.host)).toEqual(['h']);
+  });
+
+  it('should reject files that are not harbor files', () => {
+    expect(() => readSourceFleets('{', source)).toThrow();
+    expect(() => readSourceFleets('{"hosts": []}', source)).toThrow('/work/infra/.ssharbor.json has no "fleets" array');
+  });
+});
+
+describe('describeSource', () => {
+  it('should name the kind of source, or harbor.json', () => {
+    expect(describeSource(source)).toBe('workspace: infra');
+    expect(describeSource({ kind: 'include', label: 'team.json', path: '/x/team.json' })).toBe('include: team.json');
+    expect(describeSource(undefined)).toBe('harbor.json');
+  });
+});
+
+describe('splitIncludePattern', () => {
+  it('should split at the first wildcard and resolve relative and ~ paths', () => {
+    expect(splitIncludePattern('shared/*.json', '/storage', '/home/me')).toEqual({
+      base: path.join('/storage', 'shared'),
+      glob: '*.json',
+    });
+    expect(splitIncludePattern('~/team/**/harbor.json', '/storage', '/home/me')).toEqual({
+      base: path.join('/home/me', 'team'),
+      glob: '**/harbor.json',
+    });
+    expect(splitIncludePattern('/etc/ssharbor/shared.json', '/storage', '/home/me')).toEqual({
+      base: path.join('/etc', 'ssharbor'),
+      glob: 'shared.json',
+    });
+  });
+});
+
+describe('expandIncludePattern', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ssharbor-include-'));
+    for (const file of ['a.json', 'b.json', 'notes.txt', 'team/c.json', 'team/deep/d.json']) {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), '{}');
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should match * within one directory', () => {
+    expect(expandIncludePattern('*.json', dir)).toEqual([path.join(dir, 'a.json'), path.join(dir, 'b.json')]);
+    expect(expandIncludePattern('?.json', dir)).toHaveLength(2);
+  });
+
+  it('should match ** across directories', () => {
+    expect(expandIncludePattern('**/*.json', dir)).toEqual(
+      ['a.json', 'b.json', 'team/c.json', 'team/deep/d.json'].map((file) => path.join(dir, file))
+    );
+    expect(expandIncludePattern(path.join(dir, 'team', '**', 'd.json'), '/elsewhere')).toEqual([
+      path.join(dir, 'team', 'deep', 'd.json'),
+    ]);
+  });
+
+  it('should not walk into node_modules, dot-directories or too deep with **', () => {
+    const deep = path.join('a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'deep.json');
+    for (const file of ['node_modules/x.json', '.git/y.json', deep]) {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), '{}');
+    }
+
+    const matches = expandIncludePattern('**/*.json', dir);
+    expect(matches).toContain(path.join(dir, 'team/deep/d.json'));
+    expect(matches.filter((file) => /node_modules|\.git|deep\.json/.test(file))).toEqual([]);
+    expect(expandIncludePattern('.git/*.json', dir)).toEqual([path.join(dir, '.git', 'y.json')]);
+  });
+
+  it('should return plain paths whether they exist or not', () => {
+    expect(expandIncludePattern('missing.json', dir)).toEqual([path.join(dir, 'missing.json')]);
+    expect(expandIncludePattern('nothing/*.json', dir)).toEqual([]);
+  });
+});
+
+describe('findSourceError', () => {
+  it('should accept files with warnings only', () => {
+    const content = text({
+      fleets: [{ name: 'A', vessels: [{ name: 'web', host: 'h', identityFile: '~/.ssh/not-there-for-sure' }] }],
+    });
+    expect(findSourceError(content)).toBeUndefined();
+  });
+
+  it('should give the line of the first error', () => {
+    const content = text({ fleets: [{ name: 'A', vessels: [{ name: 'web', host: 'web; rm -rf /' }] }] });
+    expect(findSourceError(content)).toMatch(/^line 8: Invalid host/);
+    expect(findSourceError('{"fleets": [')).toMatch(/^line 1: /);
+  });
+
+  it('should refuse encrypted files', () => {
+    expect(findSourceError(JSON.stringify({ ssharborEncrypted: 1 }))).toContain('encrypted');
+  });
+});
+
+describe('findFleetNameConflicts', () => {
+  it('should report names defined in more than one source, in order', () => {
+    expect(
+      findFleetNameConflicts([
+        { source: 'harbor.json', names: ['Prod', 'Dev'] },
+        { source: 'include: team.json', names: ['Prod', 'Staging', 'Staging'] },
+        { source: 'workspace: infra', names: ['Prod'] },
+      ])
+    ).toEqual([{ name: 'Prod', sources: ['harbor.json', 'include: team.json', 'workspace: infra'] }]);
+  });
+});
+
+describe('applyVesselOverrides', () => {
+  const fleets = () => [
+    { id: 'f', name: 'Staging', vessels: [{ id: 'v', name: 'web', host: 'h', user: 'deploy', favorite: true }] },
+  ];
+
+  it('should apply local favorite, user and identity file without touching the input', () => {
+    const original = fleets();
+    const [fleet] = applyVesselOverrides(original, { v: { favorite: false, user: 'me', identityFile: '~/.ssh/me' } });
+
+    expect(fleet.vessels[0]).toMatchObject({ favorite: false, user: 'me', identityFile: '~/.ssh/me' });
+    expect(original[0].vessels[0]).toEqual(fleets()[0].vessels[0]);
+  });
+
+  it('should leave vessels without overrides as they are', () => {
+    expect(applyVesselOverrides(fleets(), { other: { user: 'me' } })).toEqual(fleets());
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildHostBlock,
+  generateManagedConfig,
+  upsertHostBlock,
+  reconcileManagedConfig,
+  hasIncludeDirective,
+  addIncludeDirective,
+  removeIncludeDirective,
+  hasLegacyManagedEntries,
+  removeLegacyManagedEntries,
+  findLegacyAliases,
+  writeSSHFile,
+  INCLUDE_DIRECTIVE,
+} from '../ssh-config';
+import { SSHConnectionInfo } from '../../types';
+
+vi.mock('os', async () => {
+  const actual = await vi.importActual('os');
+  return {
+    ...actual,
+    homedir: () => '/home/testuser',
+  };
+});
+
+const web: SSHConnectionInfo = {
+  name: 'Web',
+  host: 'web.example.com',
+  user: 'deploy',
+  port: 2222,
+  identityFile: '~/.ssh/prod',
+  fleetName: 'Production',
+  favorite: false,
+  tags: [],
+};
+
+const db: SSHConnectionInfo = {
+  name: 'DB',
+  host: '10.0.0.5',
+  user: 'root',
+  port: 22,
+  jumpHosts: ['deploy@web.example.com:2222'],
+  fleetName: 'Production',
+  favorite: false,
+  tags: [],
+};
+
+describe('buildHostBlock', () => {
+  it('should build a Host block with cascaded values', () => {
+    expect(buildHostBlock(web)).toBe(
+      [
+        'Host SSHarbor_Production_Web',
+        '  HostName web.example.com',
+        '  User deploy',
+        '  Port 2222',
+        '  IdentityFile ~/.ssh/prod',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should include ProxyJump and omit the default port', () => {
+    const block = buildHostBlock(db);
+    expect(block).toContain('  ProxyJump deploy@web.example.com:2222');
+    expect(block).not.toContain('Port');
+  });
+
+  it('should reject invalid connection info', () => {
+    expect(() => buildHostBlock({ ...web, host: 'bad host' })).toThrow();
+  });
+});
+
+describe('generateManagedConfig', () => {
+  it('should contain a block per vessel', () => {
+    const content = generateManagedConfig([web, db]);
+    expect(content).toContain('Host SSHarbor_Production_Web\n');
+    expect(content).toContain('Host SSHarbor_Production_DB\n');
+    expect(content.startsWith('# Generated by SSHarbor')).toBe(true);
+  });
+
+  it('should comment out invalid vessels', () => {
+    const content = generateManagedConfig([{ ...web, host: 'bad;host' }]);
+    expect(content).not.toContain('Host SSHarbor_Production_Web');
+    expect(content).toContain('# Skipped SSHarbor_Production_Web:');
+  });
+
+  it('should skip duplicate aliases', () => {
+    const content = generateManagedConfig([{ ...web, name: 'W-b' }, { ...web, name: 'W b' }]);
+    expect(content.match(/^Host /gm)).toHaveLength(1);
+    expect(content).toContain('duplicate alias');
+  });
+});
+
+describe('upsertHostBlock', () => {
+  it('should replace an existing block and keep the others', () => {
+    const initial = generateManagedConfig([web, db]);
+    const updated = upsertHostBlock(initial, { ...web, user: 'admin' });
+
+    expect(updated).toContain('  User admin');
+    expect(updated).not.toContain('  User deploy');
+    expect(updated).toContain('Host SSHarbor_Production_DB');
+    expect(updated.match(/^Host SSHarbor_Production_Web$/gm)).toHaveLength(1);
+  });
+
+  it('should create the file content from scratch', () => {
+    const content = upsertHostBlock('', web);
+    expect(content.startsWith('# Generated by SSHarbor')).toBe(true);
+    expect(content).toContain('Host SSHarbor_Production_Web');
+  });
+});
+
+describe('reconcileManagedConfig', () => {
+  it('should drop entries of renamed and removed vessels', () => {
+    const current = upsertHostBlock(generateManagedConfig([web, db]), {
+      ...web,
+      name: 'Quick',
+      fleetName: 'Quick Connect',
+    });
+    const renamed = { ...db, name: 'Database' };
+
+    const result = reconcileManagedConfig(current, [web, renamed]);
+
+    expect(result.removed).toEqual(['SSHarbor_Production_DB', 'SSHarbor_Quick_Connect_Quick']);
+    expect(result.added).toEqual(['SSHarbor_Production_Database']);
+    expect(result.updated).toEqual([]);
+    expect(result.content).not.toContain('Host SSHarbor_Production_DB\n');
+    expect(result.content).toContain('Host SSHarbor_Production_Database');
+  });
+
+  it('should carry over entries that are asked to be kept', () => {
+    const quick = { ...web, name: 'Quick', fleetName: 'Quick Connect' };
+    const current = upsertHostBlock(generateManagedConfig([web, db]), quick);
+
+    const result = reconcileManagedConfig(current, [web], ['SSHarbor_Quick_Connect_Quick', 'SSHarbor_Gone']);
+
+    expect(result.removed).toEqual(['SSHarbor_Production_DB']);
+    expect(result.content).toContain(buildHostBlock(quick));
+    expect(result.content).not.toContain('SSHarbor_Gone');
+    expect(reconcileManagedConfig(result.content, [web], ['SSHarbor_Quick_Connect_Quick']).content).toBe(
+      result.content
+    );
+  });
+
+  it('should report changed entries', () => {
+    const current = generateManagedConfig([web]);
+    const result = reconcileManagedConfig(current, [{ ...web, port: 22 }]);
+
+    expect(result.updated).toEqual(['SSHarbor_Production_Web']);
+    expect(result.removed).toEqual([]);
+  });
+
+  it('should report nothing when already in sync', () => {
+    const result = reconcileManagedConfig(generateManagedConfig([web, db]), [web, db]);
+    expect(result).toMatchObject({ added: [], updated: [], removed: [] });
+  });
+});
+
+describe('Include directive', () => {
+  const userConfig = 'Host work\n\tHostName work.example.com\n\nMatch host *.internal\n\tUser me\n';
+
+  it('should detect the directive in its common spellings', () => {
+    expect(hasIncludeDirective(INCLUDE_DIRECTIVE)).toBe(true);
+    expect(hasIncludeDirective('include ssharbor_config')).toBe(true);
+    expect(hasIncludeDirective('Include /home/testuser/.ssh/ssharbor_config')).toBe(true);
+    expect(hasIncludeDirective('Include ~/.ssh/other other2')).toBe(false);
+    expect(hasIncludeDirective(userConfig)).toBe(false);
+  });
+
+  it('should add the directive before any Host block without touching the rest', () => {
+    const updated = addIncludeDirective(userConfig);
+    expect(updated.indexOf(INCLUDE_DIRECTIVE)).toBeLessThan(updated.indexOf('Host work'));
+    expect(updated.endsWith(userConfig)).toBe(true);
+  });
+
+  it('should not add the directive twice', () => {
+    const once = addIncludeDirective(userConfig);
+    expect(addIncludeDirective(once)).toBe(once);
+  });
+
+  it('should round-trip add and remove', () => {
+    expect(removeIncludeDirective(addIncludeDirective(userConfig))).toBe(userConfig);
+  });
+
+  it('should keep Include lines that list other files too', () => {
+    const content = 'Include ~/.ssh/ssharbor_config ~/.ssh/work\n';
+    expect(removeIncludeDirective(content)).toBe(content);
+  });
+});
+
+describe('legacy entries', () => {
+  const legacy = [
+    'Host work',
+    '\tHostName work.example.com',
+    '',
+    '# === SSHarbor Managed Entries ===',
+    'Host SSHarbor_Production_Web',
+    '  HostName web.example.com',
+    '  User deploy',
+    '',
+    'Host SSHarbor_Production_DB',
+    '  HostName 10.0.0.5',
+    '  User root',
+    '',
+  ].join('\n');
+
+  it('should detect entries written by older versions', () => {
+    expect(hasLegacyManagedEntries(legacy)).toBe(true);
+    expect(hasLegacyManagedEntries('Host work\n')).toBe(false);
+  });
+
+  it('should list legacy aliases', () => {
+    expect(findLegacyAliases(legacy)).toEqual([
+      'SSHarbor_Production_Web',
+      'SSHarbor_Production_DB',
+    ]);
+  });
+
+  it('should remove only SSHarbor blocks', () => {
+    expect(removeLegacyManagedEntries(legacy)).toBe('Host work\n\tHostName work.example.com\n');
+  });
+});
+
+describe('writeSSHFile', () => {
+  it.skipIf(os.platform() === 'win32')('should write through a symlink and keep it', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ssharbor-ssh-'));
+    try {
+      const target = path.join(dir, 'dotfiles-config');
+      const link = path.join(dir, 'config');
+      fs.writeFileSync(target, 'Host old\n');
+      fs.symlinkSync(target, link);
+
+      writeSSHFile(link, 'Host new\n');
+
+      expect(fs.lstatSync(link).isSymbolicLink()).toBe(true);
+      expect(fs.readFileSync(target, 'utf-8')).toBe('Host new\n');
+      expect(fs.readdirSync(dir).sort()).toEqual(['config', 'dotfiles-config']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should create missing files', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ssharbor-ssh-'));
+    try {
+      writeSSHFile(path.join(dir, 'ssh', 'ssharbor_config'), 'Host a\n');
+      expect(fs.readFileSync(path.join(dir, 'ssh', 'ssharbor_config'), 'utf-8')).toBe('Host a\n');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
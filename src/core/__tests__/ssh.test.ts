@@ -9,6 +9,10 @@ import {
   buildConnectionId,
   parseConnectionId,
   generateSSHConfigAlias,
+  formatForwardSpec,
+  formatForwardDirective,
+  buildRemoteShellCommand,
+  buildTerminalArgs,
 } from '../ssh';
 import { SSHConnectionInfo } from '../../types';
 
@@ -220,3 +224,207 @@ describe('buildSSHCommand', () => {
     expect(() => buildSSHCommand(info)).toThrow('Invalid host');
   });
 });
+
+describe('jump hosts', () => {
+  it('should render jump hosts as -J in display command', () => {
+    const info: SSHConnectionInfo = {
+      name: 'Server',
+      host: '10.0.0.5',
+      user: 'admin',
+      port: 22,
+      shell: '/bin/bash',
+      jumpHosts: ['ops@bastion.example.com', 'ops@inner.example.com:2222'],
+      fleetName: 'Production',
+      favorite: false,
+      tags: [],
+    };
+    expect(buildSSHCommandDisplay(info)).toBe(
+      'ssh -J ops@bastion.example.com,ops@inner.example.com:2222 admin@10.0.0.5'
+    );
+  });
+
+  it('should render jump hosts as -J in terminal command', () => {
+    const info: SSHConnectionInfo = {
+      name: 'Server',
+      host: '10.0.0.5',
+      user: 'admin',
+      port: 2222,
+      shell: '/bin/bash',
+      jumpHosts: ['bastion.example.com'],
+      fleetName: 'Production',
+      favorite: false,
+      tags: [],
+    };
+    expect(buildSSHCommand(info)).toBe('ssh -p 2222 -J bastion.example.com admin@10.0.0.5');
+  });
+
+  it('should reject unresolved vessel references', () => {
+    const info: SSHConnectionInfo = {
+      name: 'Server',
+      host: '10.0.0.5',
+      user: 'admin',
+      port: 22,
+      shell: '/bin/bash',
+      jumpHosts: ['Infra/Bastion'],
+      fleetName: 'Production',
+      favorite: false,
+      tags: [],
+    };
+    expect(() => buildSSHCommand(info)).toThrow('Unresolved jump host');
+  });
+});
+
+describe('port forwards', () => {
+  const base: SSHConnectionInfo = {
+    name: 'Server',
+    host: 'example.com',
+    user: 'admin',
+    port: 22,
+    shell: '/bin/bash',
+    fleetName: 'Production',
+    favorite: false,
+    tags: [],
+  };
+
+  it('should format forward specs', () => {
+    expect(formatForwardSpec({ type: 'local', bindPort: 5432, targetHost: 'db.internal', targetPort: 5432 }))
+      .toBe('5432:db.internal:5432');
+    expect(formatForwardSpec({ type: 'remote', bindAddress: '*', bindPort: 8080, targetHost: 'localhost', targetPort: 3000 }))
+      .toBe('*:8080:localhost:3000');
+    expect(formatForwardSpec({ type: 'dynamic', bindAddress: '127.0.0.1', bindPort: 1080 }))
+      .toBe('127.0.0.1:1080');
+  });
+
+  it('should format ssh_config directives', () => {
+    expect(formatForwardDirective({ type: 'local', bindAddress: '127.0.0.1', bindPort: 5432, targetHost: 'db', targetPort: 5432 }))
+      .toBe('LocalForward 127.0.0.1:5432 db:5432');
+    expect(formatForwardDirective({ type: 'remote', bindPort: 9000, targetHost: 'localhost', targetPort: 9000 }))
+      .toBe('RemoteForward 9000 localhost:9000');
+    expect(formatForwardDirective({ type: 'dynamic', bindPort: 1080 }))
+      .toBe('DynamicForward 1080');
+  });
+
+  it('should render -L/-R/-D flags', () => {
+    const info: SSHConnectionInfo = {
+      ...base,
+      forwards: [
+        { type: 'local', bindPort: 5432, targetHost: 'localhost', targetPort: 5432 },
+        { type: 'remote', bindPort: 9000, targetHost: 'localhost', targetPort: 3000 },
+        { type: 'dynamic', bindPort: 1080 },
+      ],
+    };
+    expect(buildSSHCommandDisplay(info)).toBe(
+      'ssh -L 5432:localhost:5432 -R 9000:localhost:3000 -D 1080 admin@example.com'
+    );
+  });
+
+  it('should add -N for tunnel-only sessions', () => {
+    const info: SSHConnectionInfo = {
+      ...base,
+      forwards: [{ type: 'local', bindPort: 8080, targetHost: 'localhost', targetPort: 80 }],
+    };
+    expect(buildSSHCommand(info, { tunnelOnly: true })).toBe(
+      'ssh -L 8080:localhost:80 -N -o ExitOnForwardFailure=yes admin@example.com'
+    );
+  });
+
+  it('should reject invalid forwards', () => {
+    const info: SSHConnectionInfo = {
+      ...base,
+      forwards: [{ type: 'local', bindPort: 8080, targetHost: 'evil;host', targetPort: 80 }],
+    };
+    expect(() => buildSSHCommand(info)).toThrow('Invalid port forward');
+  });
+});
+
+describe('ssh options', () => {
+  const base: SSHConnectionInfo = {
+    name: 'Server',
+    host: 'example.com',
+    user: 'admin',
+    port: 22,
+    shell: '/bin/bash',
+    fleetName: 'Production',
+    favorite: false,
+    tags: [],
+  };
+
+  it('should render options as -o Key=Value', () => {
+    const info: SSHConnectionInfo = {
+      ...base,
+      sshOptions: { ServerAliveInterval: 30, ForwardAgent: true, StrictHostKeyChecking: 'accept-new' },
+    };
+    expect(buildSSHCommand(info)).toBe(
+      'ssh -o ServerAliveInterval=30 -o ForwardAgent=yes -o StrictHostKeyChecking=accept-new admin@example.com'
+    );
+  });
+
+  it('should reject options outside the allow-list', () => {
+    const info: SSHConnectionInfo = {
+      ...base,
+      sshOptions: { ProxyCommand: 'nc evil 22' },
+    };
+    expect(() => buildSSHCommand(info)).toThrow('Invalid SSH option');
+  });
+});
+
+describe('remote shell', () => {
+  const base: SSHConnectionInfo = {
+    name: 'Server',
+    host: 'example.com',
+    user: 'admin',
+    port: 22,
+    shell: '/bin/zsh',
+    fleetName: 'Production',
+    favorite: false,
+    tags: [],
+  };
+
+  it('should start the shell with -t and fall back when it is missing', () => {
+    const command = buildSSHCommand(base, { remoteShell: '/bin/zsh' });
+    expect(command.startsWith('ssh -t admin@example.com ')).toBe(true);
+    expect(buildRemoteShellCommand('/bin/zsh')).toBe(
+      "sh -c 'if command -v /bin/zsh >/dev/null 2>&1; then exec /bin/zsh -l; fi; " +
+        'echo "SSHarbor: /bin/zsh not found, starting ${SHELL:-/bin/sh}" >&2; ' +
+        'exec "${SHELL:-/bin/sh}" -l\''
+    );
+  });
+
+  it('should only add a remote command when a shell, directory or startup command is set', () => {
+    expect(buildTerminalArgs(base)).toEqual(['admin@example.com']);
+    expect(buildTerminalArgs(base, { startupCommands: [] })).toEqual(['admin@example.com']);
+
+    const args = buildTerminalArgs(base, { workingDirectory: '/srv/app' });
+    expect(args.slice(0, 2)).toEqual(['-t', 'admin@example.com']);
+    expect(args[2]).toBe("sh -c 'cd /srv/app; exec \"${SHELL:-/bin/sh}\" -l'");
+  });
+
+  it('should not start a shell for tunnel-only sessions', () => {
+    expect(buildSSHCommand(base, { tunnelOnly: true, remoteShell: '/bin/zsh' })).toBe(
+      'ssh -N -o ExitOnForwardFailure=yes admin@example.com'
+    );
+  });
+
+  it('should reject invalid shells', () => {
+    expect(() => buildSSHCommand(base, { remoteShell: '/bin/zsh; id' })).toThrow('Invalid shell');
+  });
+
+  it('should change directory and run startup commands before the shell', () => {
+    const command = buildRemoteShellCommand('bash', {
+      workingDirectory: '~/app',
+      startupCommands: ["echo 'hi';", 'sudo -iu deploy'],
+    });
+    expect(command).toContain(
+      `cd "$HOME"/app && echo '\\''hi'\\'' && sudo -iu deploy; if command -v bash`
+    );
+  });
+
+  it('should reject invalid working directories and commands', () => {
+    expect(() => buildRemoteShellCommand('bash', { workingDirectory: 'app' })).toThrow(
+      'Invalid working directory'
+    );
+    expect(() => buildRemoteShellCommand('bash', { startupCommands: ['ls\nid'] })).toThrow(
+      'Invalid startup command'
+    );
+  });
+});
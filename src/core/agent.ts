@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import { execFile } from 'child_process';
+import { expandPath } from './ssh';
+import { parsePublicKey } from './keys';
+import { computeFingerprint } from './host-keys';
+
+/**
+ * A key loaded in ssh-agent, as listed by ssh-add -l
+ */
+export interface AgentKey {
+  bits: number;
+  /** "SHA256:..." */
+  fingerprint: string;
+  /** Key comment, or the file it was loaded from */
+  comment: string;
+  /** e.g. "ED25519", "RSA" */
+  type: string;
+}
+
+/**
+ * What the agent holds, or why it could not be asked
+ */
+export interface AgentStatus {
+  available: boolean;
+  keys: AgentKey[];
+  error?: string;
+}
+
+/**
+ * Lifetimes offered when adding a key (seconds; undefined keeps it until the agent stops)
+ */
+export const AGENT_LIFETIMES: Array<{ label: string; seconds?: number }> = [
+  { label: '1 hour', seconds: 3600 },
+  { label: '8 hours', seconds: 8 * 3600 },
+  { label: '1 day', seconds: 24 * 3600 },
+  { label: 'Until the agent stops' },
+];
+
+/**
+ * Parse ssh-add -l output ("256 SHA256:abc me@laptop (ED25519)")
+ */
+export function parseAgentList(output: string): AgentKey[] {
+  const keys: AgentKey[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.trim().match(/^(\d+)\s+(SHA256:[A-Za-z0-9+/]+)\s+(.*?)\s*\(([^)]+)\)$/);
+    if (match) {
+      keys.push({ bits: parseInt(match[1], 10), fingerprint: match[2], comment: match[3], type: match[4] });
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Fingerprint of an identity file, read from its .pub
+ * Returns undefined if there is no readable public key next to it
+ */
+export function getIdentityFingerprint(identityFile: string): string | undefined {
+  try {
+    const parsed = parsePublicKey(fs.readFileSync(`${expandPath(identityFile)}.pub`, 'utf-8'));
+    return parsed ? computeFingerprint(parsed.key) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether an identity file is loaded in the agent: by fingerprint, or by
+ * path for keys without a .pub (ssh-add lists the file when a key has no comment)
+ */
+export function isIdentityLoaded(identityFile: string, keys: AgentKey[]): boolean {
+  const fingerprint = getIdentityFingerprint(identityFile);
+  if (fingerprint) {
+    return keys.some((k) => k.fingerprint === fingerprint);
+  }
+
+  const keyPath = expandPath(identityFile);
+  return keys.some((k) => k.comment === keyPath || k.comment === identityFile);
+}
+
+/**
+ * A vessel's forwardAgent/identitiesOnly as a form value: '' inherits the
+ * fleet default, 'yes' and 'no' override it
+ */
+export type AgentSwitch = '' | 'yes' | 'no';
+
+export function formatAgentSwitch(value: boolean | undefined): AgentSwitch {
+  return value === undefined ? '' : value ? 'yes' : 'no';
+}
+
+/**
+ * Form value back to the vessel field (undefined inherits the fleet default)
+ */
+export function parseAgentSwitch(value: unknown): boolean | undefined {
+  return value === 'yes' ? true : value === 'no' ? false : undefined;
+}
+
+/**
+ * Build the ssh-add arguments for loading a key
+ */
+export function buildAgentAddArgs(identityFile: string, lifetimeSeconds?: number): string[] {
+  return [...(lifetimeSeconds ? ['-t', String(lifetimeSeconds)] : []), expandPath(identityFile)];
+}
+
+/**
+ * Ask the agent behind SSH_AUTH_SOCK for its keys (ssh-add -l)
+ * Never rejects - an unreachable agent is reported as unavailable.
+ */
+export function getAgentStatus(timeoutMs = 5000): Promise<AgentStatus> {
+  return new Promise((resolve) => {
+    // The Windows OpenSSH agent listens on a named pipe instead
+    if (os.platform() !== 'win32' && !process.env.SSH_AUTH_SOCK) {
+      resolve({ available: false, keys: [], error: 'SSH_AUTH_SOCK is not set - no agent running' });
+      return;
+    }
+
+    execFile('ssh-add', ['-l', '-E', 'sha256'], { timeout: timeoutMs, windowsHide: true }, (error, stdout, stderr) => {
+      // Exit status for a failed run, an errno string if ssh-add could not start
+      const code = error ? (error as { code?: number | string }).code : 0;
+
+      // Exit code 1: agent reachable but empty
+      if (!error || code === 1) {
+        resolve({ available: true, keys: parseAgentList(stdout) });
+        return;
+      }
+
+      const reason = code === 'ENOENT' ? 'ssh-add not found' : stderr.trim() || error.message;
+      resolve({ available: false, keys: [], error: reason });
+    });
+  });
+}
@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Compiled helper that ssh runs as SSH_ASKPASS (src/askpass-main.ts)
+ */
+const ASKPASS_HELPER = path.join(__dirname, '..', 'askpass-main.js');
+
+/**
+ * What ssh is asking for
+ */
+export type AskpassPrompt =
+  | { kind: 'password'; user?: string; host?: string }
+  | { kind: 'passphrase'; keyPath: string }
+  | { kind: 'confirm' }
+  | { kind: 'other' };
+
+/**
+ * Answers a prompt; undefined cancels it
+ */
+export type AskpassHandler = (prompt: string) => Promise<string | undefined>;
+
+/**
+ * Classify an ssh prompt:
+ *   "user@host's password: "                      password
+ *   "(user@host) Password: "                      password (keyboard-interactive)
+ *   "Enter passphrase for key '/path/id_ed25519': " passphrase
+ *   "... continue connecting (yes/no/[fingerprint])? " confirm
+ */
+export function parseAskpassPrompt(prompt: string): AskpassPrompt {
+  const text = prompt.trim();
+
+  if (/\(yes\/no(\/\[fingerprint\])?\)\?$/.test(text)) {
+    return { kind: 'confirm' };
+  }
+
+  const passphrase = text.match(/^Enter passphrase for key '(.+)':$/);
+  if (passphrase) {
+    return { kind: 'passphrase', keyPath: passphrase[1] };
+  }
+
+  const password = text.match(/^(?:([^\s@]+)@(\S+)'s password|\(([^\s@]+)@(\S+)\) Password):$/);
+  if (password) {
+    return { kind: 'password', user: password[1] ?? password[3], host: password[2] ?? password[4] };
+  }
+
+  if (/^Password:$/i.test(text)) {
+    return { kind: 'password' };
+  }
+
+  return { kind: 'other' };
+}
+
+/**
+ * Whether a password prompt is for the target itself rather than a jump host
+ * A bare "Password:" names no host, so it only counts when there is no jump host.
+ */
+export function isTargetPasswordPrompt(
+  prompt: AskpassPrompt,
+  target: { user: string; host: string; jumpHosts?: string[] }
+): boolean {
+  if (prompt.kind !== 'password') return false;
+  if (!prompt.host) return !target.jumpHosts?.length;
+  return prompt.user === target.user && prompt.host === target.host;
+}
+
+/**
+ * Local endpoint that ssh's askpass helper talks to
+ *
+ * ssh runs SSH_ASKPASS for every password, passphrase and host key prompt
+ * (SSH_ASKPASS_REQUIRE=force). The helper sends the prompt over a socket in a
+ * private temp directory, together with a per-session token, and prints
+ * whatever the handler answers.
+ */
+export class AskpassServer {
+  private server?: net.Server;
+  private dir?: string;
+  private readonly token = crypto.randomBytes(16).toString('hex');
+
+  constructor(private readonly handler: AskpassHandler) {}
+
+  /**
+   * Start listening; resolves with the environment to run ssh with
+   */
+  async start(): Promise<Record<string, string>> {
+    const windows = os.platform() === 'win32';
+    this.dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ssharbor-askpass-'));
+
+    const socketPath = windows
+      ? `\\\\.\\pipe\\ssharbor-askpass-${this.token}`
+      : path.join(this.dir, 'askpass.sock');
+    const scriptPath = path.join(this.dir, windows ? 'askpass.cmd' : 'askpass.sh');
+
+    // SSH_ASKPASS takes a program without arguments, so wrap the helper
+    const script = windows
+      ? '@set ELECTRON_RUN_AS_NODE=1\r\n@"%SSHARBOR_ASKPASS_NODE%" "%SSHARBOR_ASKPASS_MAIN%" %*\r\n'
+      : '#!/bin/sh\nELECTRON_RUN_AS_NODE=1 exec "$SSHARBOR_ASKPASS_NODE" "$SSHARBOR_ASKPASS_MAIN" "$@"\n';
+    fs.writeFileSync(scriptPath, script, { mode: 0o700 });
+
+    const server = net.createServer((socket) => this.handleConnection(socket));
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(socketPath, () => resolve());
+    });
+
+    return {
+      SSH_ASKPASS: scriptPath,
+      SSH_ASKPASS_REQUIRE: 'force',
+      // ssh before 8.4 ignores SSH_ASKPASS_REQUIRE and only uses askpass with a DISPLAY
+      DISPLAY: process.env.DISPLAY || ':0',
+      SSHARBOR_ASKPASS_NODE: process.execPath,
+      SSHARBOR_ASKPASS_MAIN: ASKPASS_HELPER,
+      SSHARBOR_ASKPASS_HANDLE: socketPath,
+      SSHARBOR_ASKPASS_TOKEN: this.token,
+    };
+  }
+
+  /**
+   * Read one {token, prompt} line and reply with {answer}
+   */
+  private handleConnection(socket: net.Socket): void {
+    let data = '';
+    socket.setEncoding('utf8');
+
+    socket.on('data', async (chunk: string) => {
+      data += chunk;
+      const newline = data.indexOf('\n');
+      if (newline === -1) return;
+
+      let answer: string | undefined;
+      try {
+        const request = JSON.parse(data.slice(0, newline));
+        if (this.isValidToken(request.token) && typeof request.prompt === 'string') {
+          answer = await this.handler(request.prompt);
+        }
+      } catch (error) {
+        console.error('SSHarbor: Askpass request failed:', error);
+      }
+
+      socket.end(JSON.stringify({ answer }) + '\n');
+    });
+    socket.on('error', (error) => console.error('SSHarbor: Askpass socket error:', error));
+  }
+
+  private isValidToken(token: unknown): boolean {
+    if (typeof token !== 'string' || token.length !== this.token.length) return false;
+    return crypto.timingSafeEqual(Buffer.from(token), Buffer.from(this.token));
+  }
+
+  /**
+   * Stop listening and remove the socket and script
+   */
+  dispose(): void {
+    this.server?.close();
+    this.server = undefined;
+
+    if (this.dir) {
+      try {
+        fs.rmSync(this.dir, { recursive: true, force: true });
+      } catch (error) {
+        console.error('SSHarbor: Error removing askpass directory:', error);
+      }
+      this.dir = undefined;
+    }
+  }
+}
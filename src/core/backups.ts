@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * A backup copy of one of the storage files
+ */
+export interface BackupEntry {
+  /** Name of the file it is a copy of (e.g. "harbor.json") */
+  fileName: string;
+  /** Full path of the backup */
+  path: string;
+  /** When the backup was taken */
+  date: Date;
+}
+
+// harbor.json.2026-10-19T18-55-12.123Z.bak
+const BACKUP_PATTERN = /^(.+)\.(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.\d{3}Z)\.bak$/;
+
+/**
+ * Backup file name for a file at a given time (sorts chronologically)
+ */
+export function formatBackupName(fileName: string, date: Date): string {
+  return `${fileName}.${date.toISOString().replace(/:/g, '-')}.bak`;
+}
+
+/**
+ * Parse a backup file name; undefined if it is not one
+ */
+export function parseBackupName(name: string): { fileName: string; date: Date } | undefined {
+  const match = name.match(BACKUP_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const [day, time] = match[2].split('T');
+  const date = new Date(`${day}T${time.replace(/-/g, ':')}`);
+  return isNaN(date.getTime()) ? undefined : { fileName: match[1], date };
+}
+
+/**
+ * List backups in a directory, newest first, optionally for one file only
+ */
+export function listBackups(dir: string, fileName?: string): BackupEntry[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+
+  const entries: BackupEntry[] = [];
+  for (const name of names) {
+    const parsed = parseBackupName(name);
+    if (parsed && (!fileName || parsed.fileName === fileName)) {
+      entries.push({ ...parsed, path: path.join(dir, name) });
+    }
+  }
+
+  return entries.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Copy a file into the backup directory and prune old copies
+ * Skipped when the file does not exist, retention is 0, or the newest
+ * backup already has the same content. Returns the backup path, if one was written.
+ */
+export function createBackup(
+  filePath: string,
+  dir: string,
+  retention: number,
+  now = new Date()
+): string | undefined {
+  if (retention <= 0 || !fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  const fileName = path.basename(filePath);
+  const content = fs.readFileSync(filePath);
+
+  const latest = listBackups(dir, fileName)[0];
+  if (latest && fs.readFileSync(latest.path).equals(content)) {
+    return undefined;
+  }
+
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const backupPath = path.join(dir, formatBackupName(fileName, now));
+  fs.writeFileSync(backupPath, content);
+  if (os.platform() !== 'win32') {
+    fs.chmodSync(backupPath, 0o600);
+  }
+
+  pruneBackups(dir, fileName, retention);
+  return backupPath;
+}
+
+/**
+ * Delete all but the newest `retention` backups of a file
+ * Returns the number deleted.
+ */
+export function pruneBackups(dir: string, fileName: string, retention: number): number {
+  const stale = listBackups(dir, fileName).slice(Math.max(retention, 0));
+  for (const entry of stale) {
+    fs.unlinkSync(entry.path);
+  }
+  return stale.length;
+}
+
+/**
+ * One-line summary of a storage file's content, for the restore picker
+ */
+export function summarizeBackupContent(fileName: string, data: unknown): string {
+  const count = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+
+  if (fileName === 'harbor.json') {
+    const fleets = Array.isArray((data as { fleets?: unknown })?.fleets)
+      ? (data as { fleets: Array<{ vessels?: unknown[] }> }).fleets
+      : [];
+    const vessels = fleets.reduce((sum, f) => sum + (Array.isArray(f.vessels) ? f.vessels.length : 0), 0);
+    return `${count(fleets.length, 'fleet', 'fleets')}, ${count(vessels, 'vessel', 'vessels')}`;
+  }
+
+  // recent.json
+  if (Array.isArray(data)) {
+    return count(data.length, 'recent connection', 'recent connections');
+  }
+
+  // vessel-paths.json
+  if (data && typeof data === 'object') {
+    return count(Object.keys(data).length, 'vessel with saved paths', 'vessels with saved paths');
+  }
+
+  return 'unreadable';
+}
@@ -0,0 +1,80 @@
+/**
+ * Fleet colors.
+ *
+ * VS Code only tints tree icons, terminal tabs and status bar items with theme
+ * colors, not raw hex values, so every fleet color maps to the nearest entry of
+ * this palette. Each entry is contributed as `ssharbor.fleet.<key>` in
+ * package.json with the same hex as default.
+ */
+export interface FleetColor {
+  key: string;
+  label: string;
+  hex: string;
+}
+
+export const FLEET_COLORS: FleetColor[] = [
+  { key: 'red', label: 'Red', hex: '#e51400' },
+  { key: 'orange', label: 'Orange', hex: '#f09609' },
+  { key: 'yellow', label: 'Yellow', hex: '#e3c800' },
+  { key: 'green', label: 'Green', hex: '#339933' },
+  { key: 'blue', label: 'Blue', hex: '#1ba1e2' },
+  { key: 'purple', label: 'Purple', hex: '#6a00ff' },
+  { key: 'magenta', label: 'Magenta', hex: '#d80073' },
+  { key: 'gray', label: 'Gray', hex: '#808080' },
+];
+
+function parseHex(hex: string): [number, number, number] | undefined {
+  const match = hex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return undefined;
+
+  return [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)];
+}
+
+/**
+ * Palette entry closest to a #rrggbb color
+ * Returns undefined for missing or malformed colors
+ */
+export function nearestFleetColor(hex: string | undefined): FleetColor | undefined {
+  const rgb = hex ? parseHex(hex) : undefined;
+  if (!rgb) return undefined;
+
+  let best: FleetColor | undefined;
+  let bestDistance = Infinity;
+
+  for (const color of FLEET_COLORS) {
+    const [r, g, b] = parseHex(color.hex)!;
+    const distance = (r - rgb[0]) ** 2 + (g - rgb[1]) ** 2 + (b - rgb[2]) ** 2;
+    if (distance < bestDistance) {
+      best = color;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Theme color id for a fleet color (e.g. "ssharbor.fleet.red")
+ */
+export function getFleetThemeColorId(hex: string | undefined): string | undefined {
+  const color = nearestFleetColor(hex);
+  return color ? `ssharbor.fleet.${color.key}` : undefined;
+}
+
+/**
+ * Status bar items only accept the error and warning backgrounds:
+ * red-ish fleets get the error background, orange/yellow the warning one,
+ * others none (their color is applied to the text instead)
+ */
+export function getFleetStatusBarBackground(hex: string | undefined): string | undefined {
+  switch (nearestFleetColor(hex)?.key) {
+    case 'red':
+    case 'magenta':
+      return 'statusBarItem.errorBackground';
+    case 'orange':
+    case 'yellow':
+      return 'statusBarItem.warningBackground';
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,386 @@
+import * as fs from 'fs';
+import { PortForward } from '../types';
+import {
+  getCanonicalSSHOption,
+  isValidFleetName,
+  isValidHost,
+  isValidHostKeyFingerprint,
+  isValidIdentityFile,
+  isValidJumpHost,
+  isValidPort,
+  isValidPortForward,
+  isValidRemotePath,
+  isValidShell,
+  isValidSSHOption,
+  isValidStartupCommand,
+  isValidTag,
+  isValidUser,
+  isValidVesselName,
+} from './security';
+import { expandPath, generateSSHConfigAlias } from './ssh';
+import { KNOWN_FLEET_ICONS } from './icons';
+import { CONFIG_VERSION, UNVERSIONED_CONFIG_VERSION } from './migrations';
+import { JsonNode, JsonProperty, JsonSyntaxError, findJsonProperty, getJsonValue, parseJsonTree } from './json-tree';
+
+export type ConfigProblemSeverity = 'error' | 'warning';
+
+/**
+ * A text edit that fixes a problem
+ */
+export interface ConfigFix {
+  title: string;
+  offset: number;
+  length: number;
+  text: string;
+}
+
+/**
+ * A problem in harbor.json, located by character offset
+ */
+export interface ConfigProblem {
+  offset: number;
+  length: number;
+  severity: ConfigProblemSeverity;
+  message: string;
+  fixes: ConfigFix[];
+}
+
+export interface ConfigCheckOptions {
+  /** Whether a (~-expanded) key file exists; defaults to the file system */
+  fileExists?: (filePath: string) => boolean;
+}
+
+/**
+ * Levenshtein distance, for suggesting a known icon
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * First `${name}-2`, `${name}-3`, ... that is not taken
+ */
+function uniqueName(name: string, taken: (candidate: string) => boolean): string {
+  let n = 2;
+  while (taken(`${name}-${n}`)) {
+    n++;
+  }
+  return `${name}-${n}`;
+}
+
+/**
+ * Check harbor.json text: syntax, the security validators used when
+ * connecting, and problems they do not catch (duplicate names, duplicate
+ * SSH config aliases, missing key files, unknown icons, dangling jump hosts)
+ */
+export function checkConfigText(text: string, options: ConfigCheckOptions = {}): ConfigProblem[] {
+  const fileExists = options.fileExists ?? ((filePath: string) => fs.existsSync(expandPath(filePath)));
+
+  let root: JsonNode;
+  try {
+    root = parseJsonTree(text);
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      return [{ offset: error.offset, length: 1, severity: 'error', message: error.message, fixes: [] }];
+    }
+    throw error;
+  }
+
+  const problems: ConfigProblem[] = [];
+  const report = (
+    node: { offset: number; length: number },
+    severity: ConfigProblemSeverity,
+    message: string,
+    fixes: ConfigFix[] = []
+  ) => problems.push({ offset: node.offset, length: node.length, severity, message, fixes });
+
+  const replaceString = (node: JsonNode, value: string, title: string): ConfigFix => ({
+    title,
+    offset: node.offset,
+    length: node.length,
+    text: JSON.stringify(value),
+  });
+
+  // Removes a property with the comma that separates it from its neighbours
+  const removeProperty = (object: JsonNode, property: JsonProperty, title: string): ConfigFix | undefined => {
+    if (object.type !== 'object') return undefined;
+    const index = object.properties.indexOf(property);
+    const next = object.properties[index + 1];
+    const previous = object.properties[index - 1];
+    const end = property.value.offset + property.value.length;
+
+    if (next) {
+      return { title, offset: property.keyOffset, length: next.keyOffset - property.keyOffset, text: '' };
+    }
+    if (previous) {
+      const start = previous.value.offset + previous.value.length;
+      return { title, offset: start, length: end - start, text: '' };
+    }
+    return { title, offset: property.keyOffset, length: end - property.keyOffset, text: '' };
+  };
+
+  const stringProperty = (object: JsonNode, key: string) => {
+    const property = findJsonProperty(object, key);
+    if (!property) return undefined;
+    if (property.value.type !== 'string') {
+      report(property.value, 'error', `"${key}" must be a string`);
+      return undefined;
+    }
+    return { property, node: property.value, value: property.value.value };
+  };
+
+  const arrayItems = (object: JsonNode, key: string): JsonNode[] => {
+    const property = findJsonProperty(object, key);
+    if (!property) return [];
+    if (property.value.type !== 'array') {
+      report(property.value, 'error', `"${key}" must be an array`);
+      return [];
+    }
+    return property.value.items;
+  };
+
+  const namesOf = (nodes: JsonNode[]): Set<string> =>
+    new Set(
+      nodes.map((n) => findJsonProperty(n, 'name')?.value).flatMap((n) => (n?.type === 'string' ? [n.value] : []))
+    );
+
+  // "Fleet/Vessel" names that jump hosts can refer to
+  const vesselRefs = new Set<string>();
+  const fleetsNode = findJsonProperty(root, 'fleets')?.value;
+  for (const fleetNode of fleetsNode?.type === 'array' ? fleetsNode.items : []) {
+    const fleetName = findJsonProperty(fleetNode, 'name')?.value;
+    const vesselsNode = findJsonProperty(fleetNode, 'vessels')?.value;
+    for (const vesselName of vesselsNode?.type === 'array' ? namesOf(vesselsNode.items) : []) {
+      if (fleetName?.type === 'string') {
+        vesselRefs.add(`${fleetName.value}/${vesselName}`);
+      }
+    }
+  }
+
+  // Connection settings shared by harbor defaults, fleet defaults and vessels
+  const checkConnection = (object: JsonNode) => {
+    const user = stringProperty(object, 'user');
+    if (user && !isValidUser(user.value)) {
+      report(user.node, 'error', `Invalid user: ${user.value}`);
+    }
+
+    const port = findJsonProperty(object, 'port');
+    const portValue = port?.value.type === 'number' ? port.value.value : NaN;
+    if (port && (!Number.isInteger(portValue) || !isValidPort(portValue))) {
+      report(port.value, 'error', 'Port must be a whole number from 1 to 65535');
+    }
+
+    const identityFile = stringProperty(object, 'identityFile');
+    if (identityFile) {
+      if (!isValidIdentityFile(identityFile.value)) {
+        report(identityFile.node, 'error', `Invalid identity file path: ${identityFile.value}`);
+      } else if (!fileExists(identityFile.value)) {
+        const fix = removeProperty(object, identityFile.property, 'Remove "identityFile"');
+        report(identityFile.node, 'warning', `Key file not found: ${identityFile.value}`, fix ? [fix] : []);
+      }
+    }
+
+    const shell = stringProperty(object, 'shell');
+    if (shell && !isValidShell(shell.value)) {
+      report(shell.node, 'error', `Invalid shell: ${shell.value}`);
+    }
+
+    for (const jumpHost of arrayItems(object, 'jumpHosts')) {
+      if (jumpHost.type !== 'string' || !isValidJumpHost(jumpHost.value)) {
+        report(jumpHost, 'error', `Invalid jump host: ${JSON.stringify(getJsonValue(jumpHost))}`);
+      } else if (jumpHost.value.includes('/') && !vesselRefs.has(jumpHost.value)) {
+        report(jumpHost, 'warning', `No vessel "${jumpHost.value}" (jump hosts refer to vessels as "Fleet/Vessel")`);
+      }
+    }
+
+    const sshOptions = findJsonProperty(object, 'sshOptions');
+    if (sshOptions && sshOptions.value.type !== 'object') {
+      report(sshOptions.value, 'error', '"sshOptions" must be an object');
+    } else if (sshOptions && sshOptions.value.type === 'object') {
+      for (const option of sshOptions.value.properties) {
+        const keyNode = { offset: option.keyOffset, length: option.keyLength };
+        if (!getCanonicalSSHOption(option.key)) {
+          report(keyNode, 'error', `SSH option not allowed: ${option.key}`);
+        } else if (!isValidSSHOption(option.key, getJsonValue(option.value))) {
+          report(option.value, 'error', `Invalid value for ${option.key}`);
+        }
+      }
+    }
+
+    const workingDirectory = stringProperty(object, 'workingDirectory');
+    if (workingDirectory && !isValidRemotePath(workingDirectory.value)) {
+      report(workingDirectory.node, 'error', `Invalid working directory: ${workingDirectory.value}`);
+    }
+
+    for (const command of arrayItems(object, 'startupCommands')) {
+      if (command.type !== 'string' || !isValidStartupCommand(command.value)) {
+        report(command, 'error', 'Startup commands must be non-empty, single-line strings');
+      }
+    }
+  };
+
+  if (root.type !== 'object') {
+    report(root, 'error', 'harbor.json must be an object with a "fleets" array');
+    return problems;
+  }
+
+  const version = findJsonProperty(root, 'version')?.value;
+  const versionValue = version?.type === 'number' ? version.value : NaN;
+  if (version && (!Number.isInteger(versionValue) || versionValue < UNVERSIONED_CONFIG_VERSION)) {
+    report(version, 'error', '"version" must be a whole number (it is managed by SSHarbor)');
+  } else if (version && versionValue > CONFIG_VERSION) {
+    report(version, 'warning', `Written by a newer SSHarbor (version ${versionValue}) - this one does not save changes to it`);
+  }
+
+  for (const pattern of arrayItems(root, 'include')) {
+    if (pattern.type !== 'string' || !pattern.value.trim()) {
+      report(pattern, 'error', '"include" entries must be file paths or glob patterns');
+    }
+  }
+
+  const defaults = findJsonProperty(root, 'defaults');
+  if (defaults?.value.type === 'object') {
+    checkConnection(defaults.value);
+  }
+
+  const fleets = findJsonProperty(root, 'fleets');
+  if (!fleets) {
+    report({ offset: root.offset, length: 1 }, 'error', 'Missing "fleets" array');
+    return problems;
+  }
+  if (fleets.value.type !== 'array') {
+    report(fleets.value, 'error', '"fleets" must be an array');
+    return problems;
+  }
+
+  const fleetNames = new Set<string>();
+  const allFleetNames = namesOf(fleets.value.items);
+  // SSH config alias -> "Fleet/Vessel" that has it
+  const aliases = new Map<string, string>();
+
+  for (const fleet of fleets.value.items) {
+    if (fleet.type !== 'object') {
+      report(fleet, 'error', 'A fleet must be an object');
+      continue;
+    }
+
+    const name = stringProperty(fleet, 'name');
+    if (!name) {
+      report({ offset: fleet.offset, length: 1 }, 'error', 'Fleet has no "name"');
+    } else if (!isValidFleetName(name.value)) {
+      report(name.node, 'error', `Invalid fleet name: ${name.value} (letters, digits, spaces, "-" and "_", up to 50)`);
+    } else if (fleetNames.has(name.value)) {
+      const renamed = uniqueName(name.value, (candidate) => allFleetNames.has(candidate));
+      report(name.node, 'warning', `Duplicate fleet name: ${name.value}`, [
+        replaceString(name.node, renamed, `Rename to "${renamed}"`),
+      ]);
+    }
+    const fleetName = name?.value ?? '';
+    fleetNames.add(fleetName);
+
+    const icon = stringProperty(fleet, 'icon');
+    if (icon && !KNOWN_FLEET_ICONS.has(icon.value)) {
+      const suggestions = [...KNOWN_FLEET_ICONS]
+        .sort((a, b) => editDistance(icon.value, a) - editDistance(icon.value, b))
+        .slice(0, 3);
+      report(
+        icon.node,
+        'warning',
+        `Unknown icon: ${icon.value} (VS Code shows no icon for names it does not know)`,
+        suggestions.map((id) => replaceString(icon.node, id, `Use "${id}"`))
+      );
+    }
+
+    const fleetDefaults = findJsonProperty(fleet, 'defaults');
+    if (fleetDefaults?.value.type === 'object') {
+      checkConnection(fleetDefaults.value);
+    }
+
+    const vesselsProperty = findJsonProperty(fleet, 'vessels');
+    if (!vesselsProperty || vesselsProperty.value.type !== 'array') {
+      report(vesselsProperty?.value ?? { offset: fleet.offset, length: 1 }, 'error', 'Fleet needs a "vessels" array');
+      continue;
+    }
+
+    const vessels = vesselsProperty.value.items;
+    const vesselNames = new Set<string>();
+    const allVesselNames = namesOf(vessels);
+
+    for (const vessel of vessels) {
+      if (vessel.type !== 'object') {
+        report(vessel, 'error', 'A vessel must be an object');
+        continue;
+      }
+
+      const vesselName = stringProperty(vessel, 'name');
+      if (!vesselName) {
+        report({ offset: vessel.offset, length: 1 }, 'error', 'Vessel has no "name"');
+      } else if (!isValidVesselName(vesselName.value)) {
+        report(
+          vesselName.node,
+          'error',
+          `Invalid vessel name: ${vesselName.value} (letters, digits, spaces, ".", "-" and "_", up to 50)`
+        );
+      } else {
+        const taken = (candidate: string) => allVesselNames.has(candidate);
+        const alias = generateSSHConfigAlias({ fleetName, name: vesselName.value });
+
+        if (vesselNames.has(vesselName.value)) {
+          const renamed = uniqueName(vesselName.value, taken);
+          report(vesselName.node, 'warning', `Duplicate vessel name in "${fleetName}": ${vesselName.value}`, [
+            replaceString(vesselName.node, renamed, `Rename to "${renamed}"`),
+          ]);
+        } else if (aliases.has(alias)) {
+          const renamed = uniqueName(vesselName.value, taken);
+          report(
+            vesselName.node,
+            'warning',
+            `Same SSH config alias as "${aliases.get(alias)}" (${alias}) - only one of them is reachable by it`,
+            [replaceString(vesselName.node, renamed, `Rename to "${renamed}"`)]
+          );
+        }
+
+        vesselNames.add(vesselName.value);
+        if (!aliases.has(alias)) {
+          aliases.set(alias, `${fleetName}/${vesselName.value}`);
+        }
+      }
+
+      const host = stringProperty(vessel, 'host');
+      if (!host) {
+        report({ offset: vessel.offset, length: 1 }, 'error', 'Vessel has no "host"');
+      } else if (!isValidHost(host.value)) {
+        report(host.node, 'error', `Invalid host: ${host.value}`);
+      }
+
+      checkConnection(vessel);
+
+      for (const forward of arrayItems(vessel, 'forwards')) {
+        if (!isValidPortForward(getJsonValue(forward) as PortForward)) {
+          report(forward, 'error', 'Invalid port forward');
+        }
+      }
+
+      const fingerprint = stringProperty(vessel, 'hostKeyFingerprint');
+      if (fingerprint && !isValidHostKeyFingerprint(fingerprint.value)) {
+        report(fingerprint.node, 'error', 'Host key fingerprint must look like SHA256:<43 base64 characters>');
+      }
+
+      for (const tag of arrayItems(vessel, 'tags')) {
+        if (tag.type !== 'string' || !isValidTag(tag.value)) {
+          report(tag, 'error', 'Tags may contain letters, digits and "-" (up to 30)');
+        }
+      }
+    }
+  }
+
+  return problems;
+}
@@ -3,17 +3,69 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import {
+  ConfigSource,
+  SourceFleet,
   HarborConfig,
   HarborDefaults,
   Fleet,
   Vessel,
   RecentConnection,
   SSHarborSettings,
+  SSHConnectionInfo,
+  VesselCredentials,
+  VesselOverrides,
 } from '../types';
+import { ensureIds, generateId } from './ids';
+import { resolveConnectionInfo, renameFleetReferences, renameVesselReferences } from './resolve';
+import { getProtectionReason } from './policy';
+import { buildConnectionId, generateSSHConfigAlias } from './ssh';
+import {
+  SCRYPT_COST,
+  decryptConfig,
+  deriveKey,
+  encryptConfig,
+  generateSalt,
+  isEncryptedConfig,
+  parseEncryptedConfig,
+} from './encryption';
+import { BackupEntry, createBackup, listBackups, summarizeBackupContent } from './backups';
+import { JsonSyntaxError, offsetToPosition, parseJsonTree } from './json-tree';
+import { CONFIG_VERSION, getConfigVersion, migrateConfig } from './migrations';
+import {
+  Journal,
+  JournalEntry,
+  emptyJournal,
+  findForgottenVesselIds,
+  isSameConfig,
+  keepUiState,
+  parseJournal,
+  recordChange,
+} from './journal';
+import {
+  WORKSPACE_CONFIG_FILES,
+  applyVesselOverrides,
+  describeSource,
+  expandIncludePattern,
+  findFleetNameConflicts,
+  findSourceError,
+  findWorkspaceConfigFile,
+  readSourceFleets,
+  splitIncludePattern,
+} from './sources';
 
 const CONFIG_FILENAME = 'harbor.json';
 const RECENT_FILENAME = 'recent.json';
 const VESSEL_PATHS_FILENAME = 'vessel-paths.json';
+const REMOTE_HOMES_FILENAME = 'remote-homes.json';
+const BACKUPS_DIRNAME = 'backups';
+const JOURNAL_FILENAME = 'journal.json';
+const OVERRIDES_FILENAME = 'vessel-overrides.json';
+
+// SecretStorage entry holding all stored passwords and passphrases
+const CREDENTIALS_SECRET = 'ssharbor.credentials';
+
+// SecretStorage entry caching the key of an encrypted harbor.json
+const CONFIG_KEY_SECRET = 'ssharbor.configKey';
 
 // Legacy publisher IDs for migration
 const LEGACY_PUBLISHERS = ['markfields-solutions'];
@@ -25,6 +77,34 @@ interface VesselPathsStorage {
   [vesselKey: string]: string[]; // vesselKey -> array of paths
 }
 
+/**
+ * Home directories detected over SSH
+ */
+interface RemoteHomesStorage {
+  /** connectionId: user@host:port the home was detected for */
+  [vesselKey: string]: { home: string; detectedAt: number; connectionId?: string };
+}
+
+/**
+ * Stored credentials (kept in SecretStorage, never in a file)
+ */
+interface CredentialsStorage {
+  [vesselKey: string]: VesselCredentials;
+}
+
+/**
+ * Local changes to vessels from read-only sources, by vessel id
+ */
+interface OverridesStorage {
+  [vesselId: string]: VesselOverrides;
+}
+
+/**
+ * What saved paths are keyed by: the vessel id, or user@host:port for
+ * connections that are not in harbor.json
+ */
+type VesselPathsTarget = Pick<SSHConnectionInfo, 'vesselId' | 'host' | 'user' | 'port'>;
+
 /**
  * Configuration manager for SSHarbor
  */
@@ -32,6 +112,23 @@ export class ConfigManager {
   private configPath: string;
   private recentPath: string;
   private vesselPathsPath: string;
+  private vesselPathsMigrated = false;
+  private remoteHomesPath: string;
+  private backupsPath: string;
+  private journalPath: string;
+  private overridesPath: string;
+  /** Last error reported per source file, so a broken file warns once */
+  private sourceErrors = new Map<string, string>();
+  /** Fleet name conflicts last reported, so they warn once */
+  private reportedConflicts = '';
+  /** Expanded include patterns, until a source watcher fires */
+  private includeMatches = new Map<string, string[]>();
+  /** Parsed fleets of the read-only sources (before overrides), until a source watcher fires */
+  private sourceFleets?: { key: string; fleets: SourceFleet[] };
+  /** Key of an encrypted harbor.json, once unlocked (undefined: plain JSON or locked) */
+  private encryption?: { key: Buffer; salt: Buffer; cost: number };
+  /** Serializes read-modify-write of the credentials secret */
+  private credentialsQueue: Promise<unknown> = Promise.resolve();
   private _onConfigChange = new vscode.EventEmitter<void>();
 
   public readonly onConfigChange = this._onConfigChange.event;
@@ -41,6 +138,10 @@ export class ConfigManager {
     this.configPath = path.join(storagePath, CONFIG_FILENAME);
     this.recentPath = path.join(storagePath, RECENT_FILENAME);
     this.vesselPathsPath = path.join(storagePath, VESSEL_PATHS_FILENAME);
+    this.remoteHomesPath = path.join(storagePath, REMOTE_HOMES_FILENAME);
+    this.backupsPath = path.join(storagePath, BACKUPS_DIRNAME);
+    this.journalPath = path.join(storagePath, JOURNAL_FILENAME);
+    this.overridesPath = path.join(storagePath, OVERRIDES_FILENAME);
 
     // Ensure storage directory exists
     this.ensureStorageDir();
@@ -114,6 +215,11 @@ export class ConfigManager {
       defaultPort: config.get<number>('defaultPort', 22),
       showRecentConnections: config.get<boolean>('showRecentConnections', true),
       maxRecentConnections: config.get<number>('maxRecentConnections', 5),
+      healthCheckEnabled: config.get<boolean>('healthCheck.enabled', true),
+      healthCheckInterval: config.get<number>('healthCheck.interval', 60),
+      healthCheckConcurrency: config.get<number>('healthCheck.concurrency', 8),
+      backupRetention: config.get<number>('backups.retention', 20),
+      rememberConfigKey: config.get<boolean>('encryption.rememberKey', false),
     };
   }
 
@@ -127,51 +233,70 @@ export class ConfigManager {
   /**
    * Load harbor configuration
    * CRITICAL: Throws error on parse failure to prevent data loss
+   * (and when harbor.json is encrypted but locked, or cannot be decrypted)
+   * Older files are backed up and migrated to the current version; files
+   * from a newer version are returned as they are and cannot be saved.
    */
   loadConfig(): HarborConfig {
     if (!fs.existsSync(this.configPath)) {
       return { fleets: [] };
     }
 
-    const content = fs.readFileSync(this.configPath, 'utf-8');
-
     // Parse JSON - let errors propagate to prevent silent data loss
-    const config = JSON.parse(content) as HarborConfig;
+    const config = JSON.parse(this.decryptContent(fs.readFileSync(this.configPath, 'utf-8'))) as HarborConfig;
 
     // Ensure fleets array exists
     if (!Array.isArray(config.fleets)) {
       config.fleets = [];
     }
 
+    const version = getConfigVersion(config);
+    if (version < CONFIG_VERSION) {
+      // Keep the file as it was before upgrading it
+      this.backupFile(this.configPath, true);
+      const steps = migrateConfig(config);
+      console.log(`SSHarbor: Migrated harbor.json from version ${version} to ${CONFIG_VERSION}: ${steps.join('; ')}`);
+      this.saveConfigSilent(config);
+    } else if (ensureIds(config)) {
+      // Give fleets/vessels without an id (hand edits) a stable one
+      this.saveConfigSilent(config);
+    }
+
     return config;
   }
 
+  /**
+   * Where harbor.json stops being valid JSON (zero-based), if that is why it cannot be loaded
+   */
+  getConfigSyntaxErrorPosition(): { line: number; character: number } | undefined {
+    let content: string;
+    try {
+      content = this.decryptContent(fs.readFileSync(this.configPath, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+
+    try {
+      parseJsonTree(content);
+      return undefined;
+    } catch (error) {
+      return error instanceof JsonSyntaxError ? offsetToPosition(content, error.offset) : undefined;
+    }
+  }
+
   /**
    * Save harbor configuration
    * Uses atomic write (write to temp, then rename) to prevent corruption
    * Uses chmod 0o600 to ensure file is only readable by owner
+   * With a label, the change is recorded in the undo journal
    */
-  saveConfig(config: HarborConfig): void {
+  saveConfig(config: HarborConfig, journalLabel?: string): void {
     try {
-      this.ensureStorageDir();
-
-      // Add schema reference
-      config.$schema = './schema.json';
-
-      const content = JSON.stringify(config, null, 2);
-
-      // Atomic write: write to temp file first, then rename
-      const tempPath = `${this.configPath}.tmp`;
-      fs.writeFileSync(tempPath, content, 'utf-8');
-
-      // Set secure permissions before rename
-      if (os.platform() !== 'win32') {
-        fs.chmodSync(tempPath, 0o600);
+      const before = journalLabel ? this.readConfigSnapshot() : undefined;
+      this.writeConfigFile(this.serializeConfig(config));
+      if (journalLabel && before !== undefined) {
+        this.recordJournal(journalLabel, before, this.toConfigJson(config));
       }
-
-      // Atomic rename (prevents corruption if crash during write)
-      fs.renameSync(tempPath, this.configPath);
-
       this._onConfigChange.fire();
     } catch (error) {
       console.error('SSHarbor: Error saving config:', error);
@@ -186,23 +311,214 @@ export class ConfigManager {
    */
   saveConfigSilent(config: HarborConfig): void {
     try {
-      this.ensureStorageDir();
-      config.$schema = './schema.json';
+      this.writeConfigFile(this.serializeConfig(config), false);
+    } catch (error) {
+      console.error('SSHarbor: Error saving config:', error);
+    }
+  }
+
+  /**
+   * Plain JSON text of a config at the current version
+   * Throws for configs from a newer version, so they are never downgraded.
+   */
+  private toConfigJson(config: HarborConfig): string {
+    migrateConfig(config);
+    ensureIds(config);
+
+    // $schema and version first, whatever order the config was built in
+    const { $schema: _schema, version, ...rest } = config;
+    return JSON.stringify({ $schema: './schema.json', version, ...rest }, null, 2);
+  }
 
-      const content = JSON.stringify(config, null, 2);
+  /**
+   * Turn a config into harbor.json content, encrypted when encryption is on
+   * Refuses to write plain JSON over a locked encrypted file; `plain` is for
+   * decrypting it on purpose.
+   */
+  private serializeConfig(config: HarborConfig, plain = false): string {
+    const content = this.toConfigJson(config);
+    if (plain) {
+      return content;
+    }
+    if (this.encryption) {
+      return encryptConfig(content, this.encryption.key, this.encryption.salt, this.encryption.cost);
+    }
+    if (this.isConfigLocked()) {
+      throw new Error('harbor.json is encrypted - unlock it before saving');
+    }
+    return content;
+  }
 
-      // Atomic write
-      const tempPath = `${this.configPath}.tmp`;
-      fs.writeFileSync(tempPath, content, 'utf-8');
+  /**
+   * harbor.json content as plain JSON text
+   * Throws when it is encrypted and the key is unknown or wrong
+   */
+  private decryptContent(content: string): string {
+    if (!isEncryptedConfig(content)) {
+      return content;
+    }
+    if (!this.encryption) {
+      throw new Error('harbor.json is encrypted - run "SSHarbor: Unlock Configuration" first');
+    }
+    return decryptConfig(parseEncryptedConfig(content), this.encryption.key);
+  }
 
-      if (os.platform() !== 'win32') {
-        fs.chmodSync(tempPath, 0o600);
-      }
+  /**
+   * Write harbor.json atomically (temp file, then rename) with 0o600
+   * Backs up the previous file first, except for silent UI-state saves
+   * (collapsed fleets) that would otherwise push real backups out.
+   */
+  private writeConfigFile(content: string, backup = true): void {
+    this.ensureStorageDir();
+    if (backup) {
+      this.backupFile(this.configPath);
+    }
+
+    // Atomic write: write to temp file first, then rename
+    const tempPath = `${this.configPath}.tmp`;
+    fs.writeFileSync(tempPath, content, 'utf-8');
+
+    // Set secure permissions before rename
+    if (os.platform() !== 'win32') {
+      fs.chmodSync(tempPath, 0o600);
+    }
+
+    // Atomic rename (prevents corruption if crash during write)
+    fs.renameSync(tempPath, this.configPath);
+  }
+
+  // ============================================================================
+  // Encryption at rest (harbor.json only)
+  // ============================================================================
+
+  /**
+   * Whether harbor.json is stored encrypted
+   */
+  isConfigEncrypted(): boolean {
+    try {
+      return fs.existsSync(this.configPath) && isEncryptedConfig(fs.readFileSync(this.configPath, 'utf-8'));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether harbor.json is encrypted and its key is not known yet
+   */
+  isConfigLocked(): boolean {
+    return !this.encryption && this.isConfigEncrypted();
+  }
+
+  /**
+   * Use a key if it decrypts the current file; throws otherwise
+   */
+  private applyConfigKey(key: Buffer): void {
+    const file = parseEncryptedConfig(fs.readFileSync(this.configPath, 'utf-8'));
+    decryptConfig(file, key);
+    this.encryption = { key, salt: Buffer.from(file.salt, 'base64'), cost: file.cost };
+  }
+
+  /**
+   * Keep the key in SecretStorage only if ssharbor.encryption.rememberKey is on;
+   * otherwise it lives in memory for this window and any stored copy is dropped
+   */
+  async cacheConfigKey(): Promise<void> {
+    if (this.encryption && this.getSettings().rememberConfigKey) {
+      await this.context.secrets.store(CONFIG_KEY_SECRET, this.encryption.key.toString('base64'));
+    } else {
+      await this.context.secrets.delete(CONFIG_KEY_SECRET);
+    }
+  }
+
+  /**
+   * Unlock with the key remembered in SecretStorage, if there is one that works
+   * Returns true if harbor.json is readable now (plain or unlocked).
+   */
+  async unlockWithCachedKey(): Promise<boolean> {
+    if (!this.isConfigLocked()) {
+      return true;
+    }
+
+    if (!this.getSettings().rememberConfigKey) {
+      // Left behind by an older version or before the setting was turned off
+      await this.context.secrets.delete(CONFIG_KEY_SECRET);
+      return false;
+    }
+
+    const cached = await this.context.secrets.get(CONFIG_KEY_SECRET);
+    if (!cached) {
+      return false;
+    }
+
+    try {
+      this.applyConfigKey(Buffer.from(cached, 'base64'));
+    } catch {
+      // Passphrase changed elsewhere (settings sync, another machine)
+      return false;
+    }
+
+    this._onConfigChange.fire();
+    return true;
+  }
+
+  /**
+   * Unlock an encrypted harbor.json with its passphrase
+   * Throws if the passphrase is wrong
+   */
+  async unlockConfig(passphrase: string): Promise<void> {
+    const file = parseEncryptedConfig(fs.readFileSync(this.configPath, 'utf-8'));
+    this.applyConfigKey(await deriveKey(passphrase, Buffer.from(file.salt, 'base64'), file.cost));
+    await this.cacheConfigKey();
+    this._onConfigChange.fire();
+  }
 
-      fs.renameSync(tempPath, this.configPath);
+  /**
+   * Store harbor.json encrypted from now on, or re-encrypt it with a new
+   * passphrase. The config is loaded first, so a broken or locked file
+   * throws instead of being overwritten.
+   */
+  async setConfigPassphrase(passphrase: string): Promise<void> {
+    const config = this.loadConfig();
+    const journal = this.loadJournal();
+    const salt = generateSalt();
+    const key = await deriveKey(passphrase, salt, SCRYPT_COST);
+
+    const previous = this.encryption;
+    this.encryption = { key, salt, cost: SCRYPT_COST };
+    try {
+      this.saveConfig(config);
     } catch (error) {
-      console.error('SSHarbor: Error saving config:', error);
+      this.encryption = previous;
+      throw error;
     }
+
+    this.saveJournal(journal);
+    this.secureConfigBackups(previous?.key);
+    await this.cacheConfigKey();
+  }
+
+  /**
+   * Forget the key (here and in SecretStorage); the passphrase is needed again
+   */
+  async lockConfig(): Promise<void> {
+    this.encryption = undefined;
+    await this.context.secrets.delete(CONFIG_KEY_SECRET);
+    this._onConfigChange.fire();
+  }
+
+  /**
+   * Store harbor.json as plain JSON again
+   * Throws if it is locked or cannot be decrypted.
+   */
+  async decryptConfigFile(): Promise<void> {
+    const config = this.loadConfig();
+    const journal = this.loadJournal();
+
+    this.writeConfigFile(this.serializeConfig(config, true));
+    this.encryption = undefined;
+    this.saveJournal(journal);
+    await this.context.secrets.delete(CONFIG_KEY_SECRET);
+    this._onConfigChange.fire();
   }
 
   /**
@@ -233,10 +549,12 @@ export class ConfigManager {
       },
       fleets: [
         {
+          id: generateId(),
           name: 'Example Fleet',
           icon: 'cloud',
           vessels: [
             {
+              id: generateId(),
               name: 'Example Server',
               host: '192.168.1.1',
               notes: 'Edit harbor.json to configure your servers',
@@ -257,7 +575,7 @@ export class ConfigManager {
     try {
       const config = this.loadConfig();
       config.fleets.push(fleet);
-      this.saveConfig(config);
+      this.saveConfig(config, `Add fleet "${fleet.name}"`);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       throw new Error(`Cannot add fleet - config load failed: ${message}. Your existing config may be corrupted.`);
@@ -265,25 +583,60 @@ export class ConfigManager {
   }
 
   /**
-   * Remove a fleet by name
+   * Remove a fleet by id
    * Throws error if config cannot be loaded (prevents data loss)
    */
-  removeFleet(fleetName: string): void {
+  removeFleet(fleetId: string): void {
+    this.assertWritableFleet(fleetId);
     try {
       const config = this.loadConfig();
-      config.fleets = config.fleets.filter((f) => f.name !== fleetName);
-      this.saveConfig(config);
+      const fleet = config.fleets.find((f) => f.id === fleetId);
+      config.fleets = config.fleets.filter((f) => f.id !== fleetId);
+      this.saveConfig(config, `Remove fleet "${fleet?.name ?? fleetId}"`);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       throw new Error(`Cannot remove fleet - config load failed: ${message}`);
     }
   }
 
+  /**
+   * Update a fleet's name, icon, color or defaults
+   * A rename also updates jump host references ("Fleet/Vessel") and recent
+   * entries; favorites and saved folders are keyed by vessel id and unaffected.
+   * Throws error if config cannot be loaded (prevents data loss)
+   */
+  updateFleet(fleetId: string, updates: Partial<Omit<Fleet, 'id' | 'vessels'>>): void {
+    this.assertWritableFleet(fleetId);
+    let config: HarborConfig;
+    try {
+      config = this.loadConfig();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot update fleet - config load failed: ${message}`);
+    }
+
+    const fleet = config.fleets.find((f) => f.id === fleetId);
+    if (!fleet) {
+      throw new Error(`Fleet not found: ${fleetId}`);
+    }
+
+    const oldName = fleet.name;
+    Object.assign(fleet, updates);
+
+    if (updates.name && updates.name !== oldName) {
+      renameFleetReferences(config, oldName, updates.name);
+      this.renameRecentFleet(fleet, oldName);
+    }
+
+    this.saveConfig(config, `Edit fleet "${fleet.name}"`);
+  }
+
   /**
    * Add vessel to fleet
    * Throws error if config cannot be loaded (prevents data loss)
    */
-  addVessel(fleetName: string, vessel: Vessel): void {
+  addVessel(fleetId: string, vessel: Vessel): void {
+    this.assertWritableFleet(fleetId);
     let config: HarborConfig;
     try {
       config = this.loadConfig();
@@ -292,77 +645,148 @@ export class ConfigManager {
       throw new Error(`Cannot add vessel - config load failed: ${message}`);
     }
 
-    const fleet = config.fleets.find((f) => f.name === fleetName);
+    const fleet = config.fleets.find((f) => f.id === fleetId);
 
     if (!fleet) {
-      throw new Error(`Fleet not found: ${fleetName}`);
+      throw new Error(`Fleet not found: ${fleetId}`);
     }
 
     fleet.vessels.push(vessel);
-    this.saveConfig(config);
+    this.saveConfig(config, `Add vessel "${vessel.name}"`);
   }
 
   /**
-   * Remove vessel from fleet
+   * Update a vessel's fields, optionally moving it to another fleet
+   * Fields set to undefined are removed from the vessel. A rename or move also
+   * updates jump host references ("Fleet/Vessel") to it.
+   * Vessels from read-only sources only take local overrides (user, identity file, favorite)
    * Throws error if config cannot be loaded (prevents data loss)
    */
-  removeVessel(fleetName: string, vesselHost: string): void {
+  updateVessel(vesselId: string, updates: Partial<Omit<Vessel, 'id'>>, targetFleetId?: string): void {
+    const shared = this.findSourceVessel(vesselId);
+    if (shared) {
+      const local = Object.keys(updates).every((key) => key === 'user' || key === 'identityFile' || key === 'favorite');
+      if (!local || (targetFleetId && targetFleetId !== shared.fleet.id)) {
+        throw new Error(
+          `Vessel "${shared.vessel.name}" is shared from ${shared.source.path} and read-only here - ` +
+            'only its user, identity file and favorite can be changed locally'
+        );
+      }
+      this.updateVesselOverrides(vesselId, updates);
+      return;
+    }
+    if (targetFleetId) {
+      this.assertWritableFleet(targetFleetId);
+    }
+
     let config: HarborConfig;
     try {
       config = this.loadConfig();
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      throw new Error(`Cannot remove vessel - config load failed: ${message}`);
+      throw new Error(`Cannot update vessel - config load failed: ${message}`);
     }
 
-    const fleet = config.fleets.find((f) => f.name === fleetName);
+    const { vessel, fleet } = this.findVessel(config, vesselId);
+    const oldReference = `${fleet.name}/${vessel.name || vessel.host}`;
+    Object.assign(vessel, updates);
 
-    if (!fleet) {
-      throw new Error(`Fleet not found: ${fleetName}`);
+    let newFleet = fleet;
+    if (targetFleetId && targetFleetId !== fleet.id) {
+      const targetFleet = config.fleets.find((f) => f.id === targetFleetId);
+      if (!targetFleet) {
+        throw new Error(`Fleet not found: ${targetFleetId}`);
+      }
+
+      fleet.vessels = fleet.vessels.filter((v) => v.id !== vesselId);
+      targetFleet.vessels.push(vessel);
+      newFleet = targetFleet;
     }
 
-    fleet.vessels = fleet.vessels.filter((v) => v.host !== vesselHost);
-    this.saveConfig(config);
+    const newReference = `${newFleet.name}/${vessel.name || vessel.host}`;
+    if (newReference !== oldReference) {
+      renameVesselReferences(config, oldReference, newReference);
+    }
+
+    this.saveConfig(config, `Edit vessel "${vessel.name}"`);
   }
 
   /**
-   * Toggle vessel favorite
+   * Remove vessel by id
    * Throws error if config cannot be loaded (prevents data loss)
    */
-  toggleFavorite(fleetName: string, vesselHost: string): boolean {
+  removeVessel(vesselId: string): void {
+    const shared = this.findSourceVessel(vesselId);
+    if (shared) {
+      throw new Error(`Vessel "${shared.vessel.name}" is shared from ${shared.source.path} and read-only here`);
+    }
+
     let config: HarborConfig;
     try {
       config = this.loadConfig();
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      throw new Error(`Cannot toggle favorite - config load failed: ${message}`);
+      throw new Error(`Cannot remove vessel - config load failed: ${message}`);
     }
 
-    const fleet = config.fleets.find((f) => f.name === fleetName);
+    const { vessel, fleet } = this.findVessel(config, vesselId);
 
-    if (!fleet) {
-      throw new Error(`Fleet not found: ${fleetName}`);
+    fleet.vessels = fleet.vessels.filter((v) => v.id !== vesselId);
+    this.saveConfig(config, `Remove vessel "${vessel.name}"`);
+  }
+
+  /**
+   * Toggle vessel favorite
+   * Favorites of vessels from read-only sources are kept locally
+   * Throws error if config cannot be loaded (prevents data loss)
+   */
+  toggleFavorite(vesselId: string): boolean {
+    const shared = this.findSourceVessel(vesselId);
+    if (shared) {
+      const favorite = !shared.vessel.favorite;
+      this.updateVesselOverrides(vesselId, { favorite });
+      return favorite;
     }
 
-    const vessel = fleet.vessels.find((v) => v.host === vesselHost);
-    if (!vessel) {
-      throw new Error(`Vessel not found: ${vesselHost}`);
+    let config: HarborConfig;
+    try {
+      config = this.loadConfig();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot toggle favorite - config load failed: ${message}`);
     }
 
+    const { vessel } = this.findVessel(config, vesselId);
+
     vessel.favorite = !vessel.favorite;
-    this.saveConfig(config);
+    this.saveConfig(config, `${vessel.favorite ? 'Favorite' : 'Unfavorite'} "${vessel.name}"`);
 
     return vessel.favorite;
   }
 
+  /**
+   * Find a vessel and its fleet by vessel id
+   * Throws if there is no such vessel
+   */
+  private findVessel(config: HarborConfig, vesselId: string): { vessel: Vessel; fleet: Fleet } {
+    for (const fleet of config.fleets) {
+      const vessel = fleet.vessels.find((v) => v.id === vesselId);
+      if (vessel) {
+        return { vessel, fleet };
+      }
+    }
+
+    throw new Error(`Vessel not found: ${vesselId}`);
+  }
+
   /**
    * Set fleet collapsed state
    * Silently fails if config cannot be loaded (UI state only, not critical)
    */
-  setFleetCollapsed(fleetName: string, collapsed: boolean): void {
+  setFleetCollapsed(fleetId: string, collapsed: boolean): void {
     try {
       const config = this.loadConfig();
-      const fleet = config.fleets.find((f) => f.name === fleetName);
+      const fleet = config.fleets.find((f) => f.id === fleetId);
 
       if (fleet) {
         fleet.collapsed = collapsed;
@@ -377,14 +801,14 @@ export class ConfigManager {
   /**
    * Get all favorites
    */
-  getFavorites(): Array<{ vessel: Vessel; fleetName: string }> {
-    const config = this.loadConfig();
-    const favorites: Array<{ vessel: Vessel; fleetName: string }> = [];
+  getFavorites(): Array<{ vessel: Vessel; fleet: Fleet }> {
+    const config = this.loadMergedConfig();
+    const favorites: Array<{ vessel: Vessel; fleet: Fleet }> = [];
 
     for (const fleet of config.fleets) {
       for (const vessel of fleet.vessels) {
         if (vessel.favorite) {
-          favorites.push({ vessel, fleetName: fleet.name });
+          favorites.push({ vessel, fleet });
         }
       }
     }
@@ -392,98 +816,527 @@ export class ConfigManager {
     return favorites;
   }
 
-  // ============================================================================
-  // Recent connections management
-  // ============================================================================
-
   /**
-   * Load recent connections
+   * Resolve connection info for every vessel in harbor.json and the read-only sources
+   * Throws if config cannot be loaded
    */
-  loadRecent(): RecentConnection[] {
-    try {
-      if (!fs.existsSync(this.recentPath)) {
-        return [];
-      }
+  getConnectionInfos(): SSHConnectionInfo[] {
+    const config = this.loadMergedConfig();
+    const settings = this.getSettings();
+    const defaults = config.defaults || {};
 
-      const content = fs.readFileSync(this.recentPath, 'utf-8');
-      return JSON.parse(content) as RecentConnection[];
-    } catch (error) {
-      console.error('SSHarbor: Error loading recent connections:', error);
-      return [];
-    }
+    return config.fleets.flatMap((fleet) =>
+      fleet.vessels.map((vessel) =>
+        resolveConnectionInfo(vessel, fleet, defaults, settings, config.fleets)
+      )
+    );
   }
 
   /**
-   * Add recent connection
+   * Why connecting needs confirmation under the harbor policy
+   * Returns undefined for unprotected connections
+   * Throws if config cannot be loaded (the policy cannot be checked)
    */
-  addRecent(connection: Omit<RecentConnection, 'timestamp'>): void {
-    const settings = this.getSettings();
-    let recent = this.loadRecent();
-
-    // Remove existing entry for same host/user/port
-    recent = recent.filter(
-      (r) =>
-        !(
-          r.host === connection.host &&
-          r.user === connection.user &&
-          r.port === connection.port
-        )
-    );
-
-    // Add new entry at the beginning
-    recent.unshift({
-      ...connection,
-      timestamp: Date.now(),
-    });
-
-    // Limit to max recent
-    recent = recent.slice(0, settings.maxRecentConnections);
+  checkProtection(info: SSHConnectionInfo): string | undefined {
+    const config = this.loadConfig();
+    if (!config.policy) {
+      return undefined;
+    }
 
-    this.saveRecent(recent);
+    const known = info.vesselId ? [] : this.getConnectionInfos();
+    return getProtectionReason(info, config.policy, known);
   }
 
   /**
-   * Save recent connections
-   * Uses chmod 0o600 to ensure file is only readable by owner
+   * Find the vessel behind an SSHarbor_Fleet_Vessel alias (Remote SSH authority)
+   * Returns undefined if no vessel matches or config is broken
    */
-  private saveRecent(recent: RecentConnection[]): void {
+  findConnectionInfoByAlias(alias: string): SSHConnectionInfo | undefined {
     try {
-      this.ensureStorageDir();
-      fs.writeFileSync(this.recentPath, JSON.stringify(recent, null, 2), 'utf-8');
-
-      // Set secure permissions (owner read/write only)
-      if (os.platform() !== 'win32') {
-        fs.chmodSync(this.recentPath, 0o600);
-      }
+      return this.getConnectionInfos().find((info) => generateSSHConfigAlias(info) === alias);
     } catch (error) {
-      console.error('SSHarbor: Error saving recent connections:', error);
+      console.error('SSHarbor: Error resolving vessel:', error);
+      return undefined;
     }
   }
 
   /**
-   * Clear recent connections
-   */
-  clearRecent(): void {
-    this.saveRecent([]);
-  }
-
-  /**
-   * Get last connection
+   * Resolve connection info for a vessel by id
+   * Returns undefined if the vessel no longer exists or config is broken
    */
-  getLastConnection(): RecentConnection | null {
-    const recent = this.loadRecent();
-    return recent.length > 0 ? recent[0] : null;
+  findConnectionInfo(vesselId: string): SSHConnectionInfo | undefined {
+    try {
+      return this.getConnectionInfos().find((info) => info.vesselId === vesselId);
+    } catch (error) {
+      console.error('SSHarbor: Error resolving vessel:', error);
+      return undefined;
+    }
   }
 
   // ============================================================================
-  // Vessel paths management (folders opened per vessel)
+  // Read-only sources (workspace .ssharbor.json files and "include" entries)
   // ============================================================================
 
   /**
-   * Generate a unique key for a vessel
+   * Shared harbor files of the open workspace folders
+   * None until the workspace is trusted: its hosts and ssh options would end
+   * up in ~/.ssh/ssharbor_config and be probed by the health monitor.
    */
-  private getVesselKey(host: string, user: string, port: number): string {
-    return `${user}@${host}:${port}`;
+  private getWorkspaceSources(): ConfigSource[] {
+    if (!vscode.workspace.isTrusted) {
+      return [];
+    }
+
+    return (vscode.workspace.workspaceFolders || [])
+      .filter((folder) => folder.uri.scheme === 'file')
+      .flatMap((folder): ConfigSource[] => {
+        const filePath = findWorkspaceConfigFile(folder.uri.fsPath);
+        return filePath ? [{ kind: 'workspace', label: folder.name, path: filePath }] : [];
+      });
+  }
+
+  /**
+   * The "include" patterns of harbor.json
+   */
+  private getIncludePatterns(config: HarborConfig): string[] {
+    return Array.isArray(config.include)
+      ? config.include.filter((pattern): pattern is string => typeof pattern === 'string' && pattern.trim() !== '')
+      : [];
+  }
+
+  /**
+   * Files listed in the "include" array of harbor.json, with globs expanded
+   * Relative paths are resolved against the folder of harbor.json. Files in
+   * `seen` (harbor.json itself, workspace files) are left out. Expansions are
+   * cached until the watchers of watchSources() see a change.
+   */
+  private getIncludeSources(config: HarborConfig, seen: Set<string>): ConfigSource[] {
+    const baseDir = path.dirname(this.configPath);
+    const sources: ConfigSource[] = [];
+
+    for (const pattern of this.getIncludePatterns(config)) {
+      let matches = this.includeMatches.get(pattern);
+      if (!matches) {
+        matches = expandIncludePattern(pattern, baseDir);
+        this.includeMatches.set(pattern, matches);
+      }
+
+      for (const filePath of matches) {
+        if (!seen.has(path.resolve(filePath))) {
+          seen.add(path.resolve(filePath));
+          sources.push({ kind: 'include', label: path.basename(filePath), path: filePath });
+        }
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * Fleets of the read-only sources, with local overrides applied
+   * Ids are kept apart from those in `config` (harbor.json, loaded if not
+   * given). A source that cannot be read or does not pass the harbor.json
+   * checks is skipped with a warning. Includes of included files are not followed.
+   * The files are parsed again only when a watcher of watchSources() fires or
+   * the ids in harbor.json change.
+   */
+  loadSourceFleets(config?: HarborConfig): SourceFleet[] {
+    let personal = config;
+    if (!personal) {
+      try {
+        personal = this.loadConfig();
+      } catch {
+        // Broken harbor.json is reported elsewhere; workspace fleets still load
+      }
+    }
+
+    const taken = new Set<string>();
+    for (const fleet of personal?.fleets ?? []) {
+      taken.add(fleet.id);
+      fleet.vessels.forEach((v) => taken.add(v.id));
+    }
+
+    const workspace = this.getWorkspaceSources();
+    const seen = new Set([this.configPath, ...workspace.map((s) => s.path)].map((p) => path.resolve(p)));
+    const sources = [...workspace, ...(personal ? this.getIncludeSources(personal, seen) : [])];
+
+    const key = JSON.stringify([sources, [...taken]]);
+    if (this.sourceFleets?.key !== key) {
+      this.sourceFleets = { key, fleets: this.readSources(sources, taken) };
+    }
+
+    const overrides = this.loadOverrides();
+    const result = this.sourceFleets.fleets.flatMap(({ fleet, source }) =>
+      applyVesselOverrides([fleet], overrides).map((withOverrides) => ({ fleet: withOverrides, source }))
+    );
+
+    if (personal) {
+      this.reportFleetConflicts(personal, result);
+    }
+    return result;
+  }
+
+  /**
+   * Read and check the source files; ids in `taken` are not reused
+   */
+  private readSources(sources: ConfigSource[], taken: Set<string>): SourceFleet[] {
+    const result: SourceFleet[] = [];
+
+    for (const source of sources) {
+      try {
+        if (!fs.existsSync(source.path)) {
+          throw new Error('file not found');
+        }
+        const content = fs.readFileSync(source.path, 'utf-8');
+        const problem = findSourceError(content);
+        if (problem) {
+          throw new Error(problem);
+        }
+
+        readSourceFleets(content, source, taken).forEach((fleet) => result.push({ fleet, source }));
+        this.sourceErrors.delete(source.path);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (this.sourceErrors.get(source.path) !== message) {
+          this.sourceErrors.set(source.path, message);
+          console.error(`SSHarbor: Error loading ${source.path}:`, error);
+          vscode.window.showWarningMessage(`SSHarbor: Ignoring ${source.path}: ${message}`);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Warn about fleet names that more than one source defines (once per change)
+   * Jump hosts refer to vessels as "Fleet/Vessel", which then means the first one.
+   */
+  private reportFleetConflicts(config: HarborConfig, shared: SourceFleet[]): void {
+    const groups = new Map<string, { source: string; names: string[] }>();
+    groups.set(this.configPath, { source: describeSource(undefined), names: config.fleets.map((f) => f.name) });
+    for (const { fleet, source } of shared) {
+      const group = groups.get(source.path) ?? { source: describeSource(source), names: [] };
+      group.names.push(fleet.name);
+      groups.set(source.path, group);
+    }
+
+    const conflicts = findFleetNameConflicts([...groups.values()]);
+    const key = JSON.stringify(conflicts);
+    if (key === this.reportedConflicts) {
+      return;
+    }
+    this.reportedConflicts = key;
+
+    if (conflicts.length > 0) {
+      const list = conflicts.map((c) => `"${c.name}" (${c.sources.join(', ')})`).join('; ');
+      console.warn(`SSHarbor: Fleet names defined more than once: ${list}`);
+      vscode.window.showWarningMessage(
+        `SSHarbor: Fleet names defined more than once: ${list}. Jump hosts ("Fleet/Vessel") use the first one.`
+      );
+    }
+  }
+
+  /**
+   * harbor.json plus the fleets of the read-only sources, for showing and
+   * connecting. Never save the result - changes go through loadConfig().
+   * Throws if harbor.json cannot be loaded
+   */
+  loadMergedConfig(): HarborConfig {
+    const config = this.loadConfig();
+    const shared = this.loadSourceFleets(config).map(({ fleet }) => fleet);
+    return { ...config, fleets: [...config.fleets, ...shared] };
+  }
+
+  /**
+   * Where a fleet comes from; undefined for fleets in harbor.json
+   */
+  getFleetSource(fleetId: string): ConfigSource | undefined {
+    return this.loadSourceFleets().find(({ fleet }) => fleet.id === fleetId)?.source;
+  }
+
+  /**
+   * Where a vessel comes from; undefined for vessels in harbor.json
+   */
+  getVesselSource(vesselId: string): ConfigSource | undefined {
+    return this.findSourceVessel(vesselId)?.source;
+  }
+
+  private findSourceVessel(vesselId: string): (SourceFleet & { vessel: Vessel }) | undefined {
+    for (const shared of this.loadSourceFleets()) {
+      const vessel = shared.fleet.vessels.find((v) => v.id === vesselId);
+      if (vessel) {
+        return { ...shared, vessel };
+      }
+    }
+    return undefined;
+  }
+
+  private assertWritableFleet(fleetId: string): void {
+    const shared = this.loadSourceFleets().find(({ fleet }) => fleet.id === fleetId);
+    if (shared) {
+      throw new Error(`Fleet "${shared.fleet.name}" is shared from ${shared.source.path} and read-only here`);
+    }
+  }
+
+  private loadOverrides(): OverridesStorage {
+    try {
+      if (!fs.existsSync(this.overridesPath)) {
+        return {};
+      }
+      return JSON.parse(fs.readFileSync(this.overridesPath, 'utf-8')) as OverridesStorage;
+    } catch (error) {
+      console.error('SSHarbor: Error loading vessel overrides:', error);
+      return {};
+    }
+  }
+
+  private saveOverrides(storage: OverridesStorage): void {
+    this.ensureStorageDir();
+    fs.writeFileSync(this.overridesPath, JSON.stringify(storage, null, 2), 'utf-8');
+
+    if (os.platform() !== 'win32') {
+      fs.chmodSync(this.overridesPath, 0o600);
+    }
+  }
+
+  /**
+   * Local overrides of a vessel from a read-only source
+   */
+  getVesselOverrides(vesselId: string): VesselOverrides {
+    return this.loadOverrides()[vesselId] ?? {};
+  }
+
+  /**
+   * Change local overrides of a vessel from a read-only source
+   * Fields set to undefined (or an empty string) go back to the shared value
+   */
+  updateVesselOverrides(vesselId: string, updates: VesselOverrides): void {
+    const storage = this.loadOverrides();
+    const overrides: VesselOverrides = { ...storage[vesselId], ...updates };
+
+    for (const key of Object.keys(overrides) as Array<keyof VesselOverrides>) {
+      if (overrides[key] === undefined || overrides[key] === '') {
+        delete overrides[key];
+      }
+    }
+
+    if (Object.keys(overrides).length > 0) {
+      storage[vesselId] = overrides;
+    } else {
+      delete storage[vesselId];
+    }
+
+    this.saveOverrides(storage);
+    this._onConfigChange.fire();
+  }
+
+  /**
+   * Watch the shared harbor files: workspace files (and the workspace
+   * folders they live in) and the "include" entries of harbor.json, whose
+   * watchers follow changes to that list
+   */
+  watchSources(): vscode.Disposable {
+    const fire = () => {
+      this.includeMatches.clear();
+      this.sourceFleets = undefined;
+      this._onConfigChange.fire();
+    };
+    const watch = (pattern: vscode.GlobPattern): vscode.FileSystemWatcher => {
+      const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+      watcher.onDidChange(fire);
+      watcher.onDidCreate(fire);
+      watcher.onDidDelete(fire);
+      return watcher;
+    };
+
+    const files = WORKSPACE_CONFIG_FILES.map((file) => file.split(path.sep).join('/')).join(',');
+    const workspaceWatcher = watch(`**/{${files}}`);
+
+    let includeKey = '';
+    let includeWatchers: vscode.Disposable[] = [];
+    const updateIncludeWatchers = () => {
+      let patterns: string[];
+      try {
+        patterns = this.getIncludePatterns(this.loadConfig());
+      } catch {
+        // Broken or locked harbor.json: keep watching what it listed before
+        return;
+      }
+
+      const key = JSON.stringify(patterns);
+      if (key === includeKey) {
+        return;
+      }
+      includeKey = key;
+      this.includeMatches.clear();
+      this.sourceFleets = undefined;
+      includeWatchers.forEach((w) => w.dispose());
+      includeWatchers = patterns.map((pattern) => {
+        const { base, glob } = splitIncludePattern(pattern, path.dirname(this.configPath));
+        return watch(new vscode.RelativePattern(vscode.Uri.file(base), glob));
+      });
+    };
+    updateIncludeWatchers();
+
+    return vscode.Disposable.from(
+      workspaceWatcher,
+      this.onConfigChange(updateIncludeWatchers),
+      vscode.workspace.onDidChangeWorkspaceFolders(fire),
+      vscode.workspace.onDidGrantWorkspaceTrust(fire),
+      { dispose: () => includeWatchers.forEach((w) => w.dispose()) }
+    );
+  }
+
+  // ============================================================================
+  // Recent connections management
+  // ============================================================================
+
+  /**
+   * Load recent connections
+   */
+  loadRecent(): RecentConnection[] {
+    try {
+      if (!fs.existsSync(this.recentPath)) {
+        return [];
+      }
+
+      const content = fs.readFileSync(this.recentPath, 'utf-8');
+      return JSON.parse(content) as RecentConnection[];
+    } catch (error) {
+      console.error('SSHarbor: Error loading recent connections:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add recent connection
+   */
+  addRecent(connection: Omit<RecentConnection, 'timestamp'>): void {
+    const settings = this.getSettings();
+    let recent = this.loadRecent();
+
+    // Remove existing entry for the same vessel (or same host/user/port for quick connections)
+    recent = recent.filter((r) =>
+      r.vesselId && connection.vesselId
+        ? r.vesselId !== connection.vesselId
+        : !(
+            r.host === connection.host &&
+            r.user === connection.user &&
+            r.port === connection.port
+          )
+    );
+
+    // Add new entry at the beginning
+    recent.unshift({
+      ...connection,
+      timestamp: Date.now(),
+    });
+
+    // Limit to max recent
+    recent = recent.slice(0, settings.maxRecentConnections);
+
+    this.saveRecent(recent);
+  }
+
+  /**
+   * Save recent connections
+   * Uses chmod 0o600 to ensure file is only readable by owner
+   */
+  private saveRecent(recent: RecentConnection[]): void {
+    try {
+      this.ensureStorageDir();
+      this.backupFile(this.recentPath);
+      fs.writeFileSync(this.recentPath, JSON.stringify(recent, null, 2), 'utf-8');
+
+      // Set secure permissions (owner read/write only)
+      if (os.platform() !== 'win32') {
+        fs.chmodSync(this.recentPath, 0o600);
+      }
+    } catch (error) {
+      console.error('SSHarbor: Error saving recent connections:', error);
+    }
+  }
+
+  /**
+   * Update the fleet name recorded in recent entries of a renamed fleet
+   */
+  private renameRecentFleet(fleet: Fleet, oldName: string): void {
+    const vesselIds = new Set(fleet.vessels.map((v) => v.id));
+    let changed = false;
+
+    const recent = this.loadRecent().map((r) => {
+      const inFleet = r.vesselId ? vesselIds.has(r.vesselId) : r.fleetName === oldName;
+      if (!inFleet || r.fleetName === fleet.name) {
+        return r;
+      }
+      changed = true;
+      return { ...r, fleetName: fleet.name };
+    });
+
+    if (changed) {
+      this.saveRecent(recent);
+    }
+  }
+
+  /**
+   * Clear recent connections
+   */
+  clearRecent(): void {
+    this.saveRecent([]);
+  }
+
+  /**
+   * Get last connection
+   */
+  getLastConnection(): RecentConnection | null {
+    const recent = this.loadRecent();
+    return recent.length > 0 ? recent[0] : null;
+  }
+
+  /**
+   * Connection info for a recent entry
+   * Uses the vessel's current settings while it still exists in harbor.json,
+   * otherwise what was recorded at connect time
+   */
+  getRecentConnectionInfo(recent: RecentConnection): SSHConnectionInfo {
+    const vessel = recent.vesselId ? this.findConnectionInfo(recent.vesselId) : undefined;
+    if (vessel) {
+      return vessel;
+    }
+
+    const settings = this.getSettings();
+    let configuredShell: string | undefined;
+    try {
+      configuredShell = this.getDefaults().shell;
+    } catch {
+      // Broken config - fall back to settings
+    }
+
+    return {
+      name: recent.vesselName || recent.host,
+      host: recent.host,
+      user: recent.user,
+      port: recent.port,
+      identityFile: recent.identityFile,
+      shell: configuredShell || settings.defaultShell,
+      configuredShell,
+      jumpHosts: recent.jumpHosts,
+      fleetName: recent.fleetName || 'Recent',
+      favorite: false,
+      tags: [],
+    };
+  }
+
+  // ============================================================================
+  // Vessel paths management (folders opened per vessel)
+  // ============================================================================
+
+  /**
+   * Generate a unique key for a vessel
+   */
+  private getVesselKey(target: VesselPathsTarget): string {
+    return target.vesselId || buildConnectionId(target);
   }
 
   /**
@@ -495,13 +1348,49 @@ export class ConfigManager {
         return {};
       }
       const content = fs.readFileSync(this.vesselPathsPath, 'utf-8');
-      return JSON.parse(content) as VesselPathsStorage;
+      const storage = JSON.parse(content) as VesselPathsStorage;
+
+      if (!this.vesselPathsMigrated) {
+        this.vesselPathsMigrated = true;
+        this.migrateVesselPathKeys(storage);
+      }
+
+      return storage;
     } catch (error) {
       console.error('SSHarbor: Error loading vessel paths:', error);
       return {};
     }
   }
 
+  /**
+   * Re-key paths saved under user@host:port (older versions) to vessel ids
+   * Keys that match no vessel are kept for quick connections
+   */
+  private migrateVesselPathKeys(storage: VesselPathsStorage): void {
+    let infos: SSHConnectionInfo[];
+    try {
+      infos = this.getConnectionInfos();
+    } catch {
+      // Broken config - try again next session
+      this.vesselPathsMigrated = false;
+      return;
+    }
+
+    const migrated = new Set<string>();
+    for (const info of infos) {
+      const legacyKey = buildConnectionId(info);
+      if (info.vesselId && storage[legacyKey] && !storage[info.vesselId]) {
+        storage[info.vesselId] = [...storage[legacyKey]];
+        migrated.add(legacyKey);
+      }
+    }
+
+    if (migrated.size > 0) {
+      migrated.forEach((key) => delete storage[key]);
+      this.saveVesselPaths(storage);
+    }
+  }
+
   /**
    * Save vessel paths storage
    * Uses chmod 0o600 to ensure file is only readable by owner
@@ -509,6 +1398,7 @@ export class ConfigManager {
   private saveVesselPaths(storage: VesselPathsStorage): void {
     try {
       this.ensureStorageDir();
+      this.backupFile(this.vesselPathsPath);
       fs.writeFileSync(this.vesselPathsPath, JSON.stringify(storage, null, 2), 'utf-8');
 
       // Set secure permissions (owner read/write only)
@@ -523,18 +1413,18 @@ export class ConfigManager {
   /**
    * Get saved paths for a vessel
    */
-  getVesselSavedPaths(host: string, user: string, port: number): string[] {
+  getVesselSavedPaths(target: VesselPathsTarget): string[] {
     const storage = this.loadVesselPaths();
-    const key = this.getVesselKey(host, user, port);
+    const key = this.getVesselKey(target);
     return storage[key] || [];
   }
 
   /**
    * Add a path to vessel's saved paths
    */
-  addVesselPath(host: string, user: string, port: number, folderPath: string): void {
+  addVesselPath(target: VesselPathsTarget, folderPath: string): void {
     const storage = this.loadVesselPaths();
-    const key = this.getVesselKey(host, user, port);
+    const key = this.getVesselKey(target);
 
     if (!storage[key]) {
       storage[key] = [];
@@ -555,9 +1445,9 @@ export class ConfigManager {
   /**
    * Remove a path from vessel's saved paths
    */
-  removeVesselPath(host: string, user: string, port: number, folderPath: string): void {
+  removeVesselPath(target: VesselPathsTarget, folderPath: string): void {
     const storage = this.loadVesselPaths();
-    const key = this.getVesselKey(host, user, port);
+    const key = this.getVesselKey(target);
 
     if (storage[key]) {
       storage[key] = storage[key].filter((p) => p !== folderPath);
@@ -565,6 +1455,476 @@ export class ConfigManager {
     }
   }
 
+  // ============================================================================
+  // Detected remote home directories
+  // ============================================================================
+
+  private loadRemoteHomes(): RemoteHomesStorage {
+    try {
+      if (!fs.existsSync(this.remoteHomesPath)) {
+        return {};
+      }
+      return JSON.parse(fs.readFileSync(this.remoteHomesPath, 'utf-8')) as RemoteHomesStorage;
+    } catch (error) {
+      console.error('SSHarbor: Error loading remote homes:', error);
+      return {};
+    }
+  }
+
+  private saveRemoteHomes(storage: RemoteHomesStorage): void {
+    try {
+      this.ensureStorageDir();
+      fs.writeFileSync(this.remoteHomesPath, JSON.stringify(storage, null, 2), 'utf-8');
+
+      if (os.platform() !== 'win32') {
+        fs.chmodSync(this.remoteHomesPath, 0o600);
+      }
+    } catch (error) {
+      console.error('SSHarbor: Error saving remote homes:', error);
+    }
+  }
+
+  /**
+   * Get the home directory detected for a vessel, if it was probed before
+   * as the same user@host:port (a changed user or host has a different home)
+   */
+  getDetectedRemoteHome(target: VesselPathsTarget): string | undefined {
+    const entry = this.loadRemoteHomes()[this.getVesselKey(target)];
+    return entry?.connectionId === buildConnectionId(target) ? entry.home : undefined;
+  }
+
+  /**
+   * Remember the home directory detected for a vessel
+   */
+  setDetectedRemoteHome(target: VesselPathsTarget, home: string): void {
+    const storage = this.loadRemoteHomes();
+    storage[this.getVesselKey(target)] = { home, detectedAt: Date.now(), connectionId: buildConnectionId(target) };
+    this.saveRemoteHomes(storage);
+  }
+
+  // ============================================================================
+  // Credentials (passwords and key passphrases in SecretStorage)
+  // ============================================================================
+
+  private async loadCredentials(): Promise<CredentialsStorage> {
+    try {
+      const content = await this.context.secrets.get(CREDENTIALS_SECRET);
+      return content ? JSON.parse(content) : {};
+    } catch (error) {
+      console.error('SSHarbor: Error loading stored credentials:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Run a read-modify-write on the stored credentials, one at a time
+   */
+  private updateCredentials<T>(update: (storage: CredentialsStorage) => T): Promise<T> {
+    const next = this.credentialsQueue.then(async () => {
+      const storage = await this.loadCredentials();
+      const result = update(storage);
+
+      if (Object.keys(storage).length > 0) {
+        await this.context.secrets.store(CREDENTIALS_SECRET, JSON.stringify(storage));
+      } else {
+        await this.context.secrets.delete(CREDENTIALS_SECRET);
+      }
+      return result;
+    });
+
+    this.credentialsQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Get the password and passphrase stored for a vessel
+   */
+  async getCredentials(target: VesselPathsTarget): Promise<VesselCredentials | undefined> {
+    await this.credentialsQueue;
+    return (await this.loadCredentials())[this.getVesselKey(target)];
+  }
+
+  /**
+   * Store a vessel's password and/or passphrase
+   * Fields left undefined are kept; an empty string removes that field.
+   */
+  setCredentials(target: VesselPathsTarget, credentials: VesselCredentials): Promise<void> {
+    const key = this.getVesselKey(target);
+
+    return this.updateCredentials((storage) => {
+      const merged: VesselCredentials = { ...storage[key] };
+      for (const field of ['password', 'passphrase'] as const) {
+        if (credentials[field] !== undefined) {
+          merged[field] = credentials[field] || undefined;
+        }
+      }
+
+      if (merged.password || merged.passphrase) {
+        storage[key] = { password: merged.password, passphrase: merged.passphrase };
+      } else {
+        delete storage[key];
+      }
+    });
+  }
+
+  /**
+   * Forget everything stored for a vessel
+   */
+  clearCredentials(target: VesselPathsTarget): Promise<void> {
+    const key = this.getVesselKey(target);
+    return this.updateCredentials((storage) => {
+      delete storage[key];
+    });
+  }
+
+  /**
+   * Forget what is stored for vessels (by id) that are gone for good
+   */
+  private forgetCredentials(vesselIds: string[]): Promise<void> {
+    return this.updateCredentials((storage) => {
+      vesselIds.forEach((id) => delete storage[id]);
+    });
+  }
+
+  /**
+   * Forget all stored credentials
+   * Returns the number of vessels that had any.
+   */
+  purgeCredentials(): Promise<number> {
+    return this.updateCredentials((storage) => {
+      const count = Object.keys(storage).length;
+      for (const key of Object.keys(storage)) {
+        delete storage[key];
+      }
+      return count;
+    });
+  }
+
+  // ============================================================================
+  // Undo journal (harbor.json only)
+  // ============================================================================
+
+  /**
+   * Current harbor.json as plain, pretty-printed JSON
+   * Undefined if it cannot be read (the journal is skipped then).
+   */
+  private readConfigSnapshot(): string | undefined {
+    if (!fs.existsSync(this.configPath)) {
+      return JSON.stringify({ fleets: [] }, null, 2);
+    }
+    try {
+      return JSON.stringify(JSON.parse(this.decryptContent(fs.readFileSync(this.configPath, 'utf-8'))), null, 2);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Load the journal; encrypted like harbor.json when that is encrypted
+   * A journal that cannot be read or decrypted starts over empty.
+   */
+  private loadJournal(): Journal {
+    if (!fs.existsSync(this.journalPath)) {
+      return emptyJournal();
+    }
+    try {
+      return parseJournal(this.decryptContent(fs.readFileSync(this.journalPath, 'utf-8')));
+    } catch {
+      return emptyJournal();
+    }
+  }
+
+  /**
+   * Save the journal
+   * Uses chmod 0o600 to ensure file is only readable by owner
+   */
+  private saveJournal(journal: Journal): void {
+    try {
+      this.ensureStorageDir();
+      let content = JSON.stringify(journal);
+      if (this.encryption) {
+        content = encryptConfig(content, this.encryption.key, this.encryption.salt, this.encryption.cost);
+      }
+      fs.writeFileSync(this.journalPath, content, 'utf-8');
+
+      // Set secure permissions (owner read/write only)
+      if (os.platform() !== 'win32') {
+        fs.chmodSync(this.journalPath, 0o600);
+      }
+    } catch (error) {
+      console.error('SSHarbor: Error saving undo journal:', error);
+    }
+  }
+
+  /**
+   * Record a change; credentials of removed vessels are kept while undo can
+   * still bring them back, and forgotten once their last entry is dropped
+   */
+  private recordJournal(label: string, before: string, after: string): void {
+    const journal = this.loadJournal();
+    const previous = [...journal.undo, ...journal.redo];
+    if (!recordChange(journal, { label, timestamp: Date.now(), before, after })) {
+      return;
+    }
+    this.saveJournal(journal);
+
+    const dropped = previous.filter((entry) => !journal.undo.includes(entry));
+    const forgotten = findForgottenVesselIds(dropped, journal);
+    if (forgotten.length > 0) {
+      this.forgetCredentials(forgotten).catch((error) =>
+        console.error('SSHarbor: Error removing stored credentials:', error)
+      );
+    }
+  }
+
+  /**
+   * The change undo would revert, if any
+   */
+  getUndoEntry(): JournalEntry | undefined {
+    return this.loadJournal().undo.at(-1);
+  }
+
+  /**
+   * The change redo would apply again, if any
+   */
+  getRedoEntry(): JournalEntry | undefined {
+    return this.loadJournal().redo.at(-1);
+  }
+
+  /**
+   * Whether harbor.json still holds a journal snapshot
+   * False after hand edits (or other changes that were not recorded).
+   */
+  isCurrentConfig(snapshot: string): boolean {
+    const current = this.readConfigSnapshot();
+    return current !== undefined && isSameConfig(current, snapshot);
+  }
+
+  /**
+   * Save a journal snapshot as harbor.json, keeping which fleets are collapsed now
+   */
+  private restoreSnapshot(snapshot: string): void {
+    let config = JSON.parse(snapshot) as HarborConfig;
+    const current = this.readConfigSnapshot();
+    if (current !== undefined) {
+      try {
+        config = keepUiState(config, JSON.parse(current) as HarborConfig);
+      } catch {
+        // Unreadable harbor.json - restore the snapshot as it is
+      }
+    }
+    this.saveConfig(config);
+  }
+
+  /**
+   * Put harbor.json back to how it was before the last recorded change
+   * Returns the change, or undefined if there is nothing to undo.
+   * Throws if harbor.json cannot be saved (the journal is left as is).
+   */
+  undo(): JournalEntry | undefined {
+    const journal = this.loadJournal();
+    const entry = journal.undo.pop();
+    if (!entry) {
+      return undefined;
+    }
+
+    this.restoreSnapshot(entry.before);
+    journal.redo.push(entry);
+    this.saveJournal(journal);
+    return entry;
+  }
+
+  /**
+   * Apply the last undone change again
+   * Returns the change, or undefined if there is nothing to redo.
+   * Throws if harbor.json cannot be saved (the journal is left as is).
+   */
+  redo(): JournalEntry | undefined {
+    const journal = this.loadJournal();
+    const entry = journal.redo.pop();
+    if (!entry) {
+      return undefined;
+    }
+
+    this.restoreSnapshot(entry.after);
+    journal.undo.push(entry);
+    this.saveJournal(journal);
+    return entry;
+  }
+
+  // ============================================================================
+  // Backups
+  // ============================================================================
+
+  /**
+   * Copy a storage file into the backups directory before it is overwritten
+   * `always` keeps one even when backups are turned off (before migrations).
+   * Never throws: a failed backup must not block the save itself.
+   */
+  private backupFile(filePath: string, always = false): void {
+    try {
+      const retention = this.getSettings().backupRetention;
+      createBackup(filePath, this.backupsPath, always ? Math.max(retention, 1) : retention);
+    } catch (error) {
+      console.error(`SSHarbor: Error backing up ${path.basename(filePath)}:`, error);
+    }
+  }
+
+  /**
+   * Storage file a backup belongs to
+   */
+  private getBackupTarget(entry: BackupEntry): string {
+    const target = [this.configPath, this.recentPath, this.vesselPathsPath].find(
+      (p) => path.basename(p) === entry.fileName
+    );
+    if (!target) {
+      throw new Error(`Unknown backup file: ${entry.fileName}`);
+    }
+    return target;
+  }
+
+  /**
+   * All backups of harbor.json, recent.json and vessel-paths.json, newest first
+   */
+  listBackups(): BackupEntry[] {
+    const fileNames = new Set([CONFIG_FILENAME, RECENT_FILENAME, VESSEL_PATHS_FILENAME]);
+    return listBackups(this.backupsPath).filter((entry) => fileNames.has(entry.fileName));
+  }
+
+  /**
+   * Readable (decrypted when possible, pretty-printed) content of a backup,
+   * or of the current file it belongs to
+   * An encrypted harbor.json that the current key cannot open is returned as is.
+   */
+  readBackupContent(entry: BackupEntry, current = false): string {
+    const filePath = current ? this.getBackupTarget(entry) : entry.path;
+    if (!fs.existsSync(filePath)) {
+      return '';
+    }
+
+    let content = fs.readFileSync(filePath, 'utf-8');
+    if (entry.fileName === CONFIG_FILENAME) {
+      try {
+        content = this.decryptContent(content);
+      } catch {
+        return content;
+      }
+    }
+
+    try {
+      return JSON.stringify(JSON.parse(content), null, 2);
+    } catch {
+      return content;
+    }
+  }
+
+  /**
+   * One-line summary of a backup (or the current file): fleet/vessel counts etc.
+   */
+  summarizeBackup(entry: BackupEntry, current = false): string {
+    const content = this.readBackupContent(entry, current);
+    if (!content) {
+      return 'missing';
+    }
+    if (isEncryptedConfig(content)) {
+      return 'encrypted';
+    }
+    try {
+      return summarizeBackupContent(entry.fileName, JSON.parse(content));
+    } catch {
+      return 'invalid JSON';
+    }
+  }
+
+  /**
+   * Encrypt plain harbor.json backups with the current key, and re-encrypt
+   * the ones the previous key opens, so no backup keeps the config in plain
+   * text or under an old passphrase
+   */
+  private secureConfigBackups(previousKey?: Buffer): void {
+    if (!this.encryption) {
+      return;
+    }
+
+    const { key, salt, cost } = this.encryption;
+    for (const entry of listBackups(this.backupsPath, CONFIG_FILENAME)) {
+      try {
+        let content = fs.readFileSync(entry.path, 'utf-8');
+        if (isEncryptedConfig(content)) {
+          if (!previousKey) {
+            continue;
+          }
+          try {
+            content = decryptConfig(parseEncryptedConfig(content), previousKey);
+          } catch {
+            // Already current, or from an older passphrase
+            continue;
+          }
+        }
+        fs.writeFileSync(entry.path, encryptConfig(content, key, salt, cost), 'utf-8');
+      } catch (error) {
+        console.error(`SSHarbor: Error encrypting backup ${path.basename(entry.path)}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Whether restoring a backup would turn encryption off: a plain harbor.json
+   * backup while harbor.json is encrypted and locked, so it cannot be
+   * encrypted on the way back
+   */
+  restoreDisablesEncryption(entry: BackupEntry): boolean {
+    if (entry.fileName !== CONFIG_FILENAME || !this.isConfigLocked()) {
+      return false;
+    }
+    return !isEncryptedConfig(fs.readFileSync(entry.path, 'utf-8'));
+  }
+
+  /**
+   * Put a backup back in place of its file
+   * The current file is backed up first, so a restore can itself be undone.
+   * A plain harbor.json backup is encrypted on the way back while encryption
+   * is on. An encrypted one stays readable if the current key opens it,
+   * otherwise it is locked until its passphrase is entered.
+   */
+  async restoreBackup(entry: BackupEntry): Promise<void> {
+    const target = this.getBackupTarget(entry);
+    let content = fs.readFileSync(entry.path);
+    if (target === this.configPath && this.encryption && !isEncryptedConfig(content.toString('utf-8'))) {
+      const { key, salt, cost } = this.encryption;
+      content = Buffer.from(encryptConfig(content.toString('utf-8'), key, salt, cost), 'utf-8');
+    }
+
+    this.ensureStorageDir();
+    this.backupFile(target);
+
+    const tempPath = `${target}.tmp`;
+    fs.writeFileSync(tempPath, content);
+    if (os.platform() !== 'win32') {
+      fs.chmodSync(tempPath, 0o600);
+    }
+    fs.renameSync(tempPath, target);
+
+    if (target === this.configPath) {
+      const key = this.encryption?.key;
+      this.encryption = undefined;
+      if (this.isConfigEncrypted()) {
+        try {
+          if (key) {
+            this.applyConfigKey(key);
+          }
+        } catch {
+          // Encrypted with another passphrase
+        }
+        if (!this.encryption) {
+          await this.unlockWithCachedKey();
+        }
+      }
+    }
+
+    this._onConfigChange.fire();
+  }
+
   // ============================================================================
   // Private helpers
   // ============================================================================
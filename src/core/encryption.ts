@@ -0,0 +1,111 @@
+import * as crypto from 'crypto';
+
+/**
+ * harbor.json when encrypted: still JSON, so editors and the file watcher
+ * keep working, but the config itself is an AES-256-GCM blob
+ */
+export interface EncryptedConfigFile {
+  ssharborEncrypted: 1;
+  kdf: 'scrypt';
+  /** scrypt cost (N) */
+  cost: number;
+  /** base64 */
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// scrypt N=2^15, r=8: ~32 MB and well under a second to derive
+export const SCRYPT_COST = 2 ** 15;
+const SCRYPT_BLOCK_SIZE = 8;
+const KEY_LENGTH = 32;
+
+/**
+ * Whether file content is an encrypted config
+ */
+export function isEncryptedConfig(content: string): boolean {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed !== null && typeof parsed === 'object' && parsed.ssharborEncrypted === 1;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse an encrypted config file
+ * Throws if it is not one or a field is missing
+ */
+export function parseEncryptedConfig(content: string): EncryptedConfigFile {
+  const parsed = JSON.parse(content);
+  if (!parsed || parsed.ssharborEncrypted !== 1) {
+    throw new Error('Not an encrypted SSHarbor configuration');
+  }
+  if (parsed.kdf !== 'scrypt' || !Number.isInteger(parsed.cost)) {
+    throw new Error(`Unsupported key derivation: ${parsed.kdf}`);
+  }
+  for (const field of ['salt', 'iv', 'tag', 'data']) {
+    if (typeof parsed[field] !== 'string') {
+      throw new Error(`Encrypted configuration is missing "${field}"`);
+    }
+  }
+  return parsed as EncryptedConfigFile;
+}
+
+/**
+ * Derive the config key from a passphrase
+ */
+export function deriveKey(passphrase: string, salt: Buffer, cost = SCRYPT_COST): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      passphrase,
+      salt,
+      KEY_LENGTH,
+      { N: cost, r: SCRYPT_BLOCK_SIZE, p: 1, maxmem: 256 * cost * SCRYPT_BLOCK_SIZE },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+/**
+ * Fresh random salt for a new passphrase
+ */
+export function generateSalt(): Buffer {
+  return crypto.randomBytes(16);
+}
+
+/**
+ * Encrypt config text with a derived key; the salt is stored alongside so
+ * the key can be derived again from the passphrase
+ */
+export function encryptConfig(plaintext: string, key: Buffer, salt: Buffer, cost = SCRYPT_COST): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  const file: EncryptedConfigFile = {
+    ssharborEncrypted: 1,
+    kdf: 'scrypt',
+    cost,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Decrypt an encrypted config file
+ * Throws on a wrong key or a modified file - never returns partial data
+ */
+export function decryptConfig(file: EncryptedConfigFile, key: Buffer): string {
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error('Cannot decrypt harbor.json - wrong passphrase or the file was modified');
+  }
+}
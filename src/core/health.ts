@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { SSHConnectionInfo, VesselHealth } from '../types';
+import { ConfigManager } from './config';
+import { resolveConnectionInfo } from './resolve';
+import { probeSSH, runWithConcurrency } from './probe';
+
+const PROBE_TIMEOUT_MS = 5000;
+const MIN_INTERVAL_SECONDS = 10;
+
+/**
+ * Background reachability monitor for all vessels.
+ *
+ * Periodically opens a TCP connection to each vessel's host:port, reads the
+ * SSH banner and keeps the last result in memory. Vessels behind jump hosts
+ * are not directly reachable and are left unchecked.
+ */
+export class HealthMonitor {
+  private results = new Map<string, VesselHealth>();
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  private _onDidChange = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [];
+
+  public readonly onDidChange = this._onDidChange.event;
+
+  constructor(private configManager: ConfigManager) {
+    // Restart with new interval/concurrency when settings change
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('ssharbor.healthCheck')) {
+          this.start();
+        }
+      })
+    );
+
+    // Check new/edited vessels right away
+    this.disposables.push(configManager.onConfigChange(() => this.checkNow()));
+  }
+
+  /**
+   * Start (or restart) periodic checks according to settings
+   */
+  start(): void {
+    this.stop();
+
+    const settings = this.configManager.getSettings();
+    if (!settings.healthCheckEnabled) {
+      this.results.clear();
+      this._onDidChange.fire();
+      return;
+    }
+
+    const intervalMs = Math.max(settings.healthCheckInterval, MIN_INTERVAL_SECONDS) * 1000;
+    this.timer = setInterval(() => this.checkNow(), intervalMs);
+    this.checkNow();
+  }
+
+  /**
+   * Stop periodic checks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run a check pass over all vessels (skipped if one is already running)
+   */
+  async checkNow(): Promise<void> {
+    const settings = this.configManager.getSettings();
+    if (this.running || !settings.healthCheckEnabled) {
+      return;
+    }
+
+    let config;
+    try {
+      config = this.configManager.loadMergedConfig();
+    } catch (error) {
+      // Broken config is reported by the tree; nothing to check
+      console.error('SSHarbor: Health check skipped, config load failed:', error);
+      return;
+    }
+
+    // Unique host:port targets, skipping vessels only reachable through a bastion
+    const targets = new Map<string, { host: string; port: number }>();
+    const defaults = config.defaults || {};
+    for (const fleet of config.fleets) {
+      for (const vessel of fleet.vessels) {
+        const info = resolveConnectionInfo(vessel, fleet, defaults, settings, config.fleets);
+        if (!info.jumpHosts) {
+          targets.set(this.getKey(info), { host: info.host, port: info.port });
+        }
+      }
+    }
+
+    this.running = true;
+    try {
+      const tasks = Array.from(targets.entries()).map(([key, target]) => async () => {
+        const result = await probeSSH(target.host, target.port, PROBE_TIMEOUT_MS);
+        return [key, result] as const;
+      });
+
+      const results = await runWithConcurrency(tasks, settings.healthCheckConcurrency);
+      this.results = new Map(results);
+      this._onDidChange.fire();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Get the last result for a vessel
+   */
+  getHealth(info: SSHConnectionInfo): VesselHealth | undefined {
+    return this.results.get(this.getKey(info));
+  }
+
+  private getKey(info: { host: string; port: number }): string {
+    return `${info.host}:${info.port}`;
+  }
+
+  /**
+   * Dispose
+   */
+  dispose(): void {
+    this.stop();
+    this.disposables.forEach((d) => d.dispose());
+    this._onDidChange.dispose();
+  }
+}
@@ -0,0 +1,226 @@
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { HostKey, HostKeyReport, SSHConnectionInfo } from '../types';
+import { isValidHost, isValidPort } from './security';
+
+/**
+ * A known_hosts line that applies to a host
+ */
+export interface KnownHostsEntry {
+  /** 1-based line number */
+  line: number;
+  type: string;
+  key: string;
+  fingerprint: string;
+  /** Whether the host name is stored hashed (HashKnownHosts) */
+  hashed: boolean;
+}
+
+/**
+ * Path of the user's known_hosts file
+ */
+export function getKnownHostsPath(): string {
+  return path.join(os.homedir(), '.ssh', 'known_hosts');
+}
+
+/**
+ * OpenSSH-style SHA256 fingerprint of a base64 public key blob
+ * ("SHA256:" + unpadded base64, as printed by ssh-keygen -l)
+ */
+export function computeFingerprint(keyBase64: string): string {
+  const digest = crypto.createHash('sha256').update(Buffer.from(keyBase64, 'base64')).digest('base64');
+  return `SHA256:${digest.replace(/=+$/, '')}`;
+}
+
+/**
+ * Normalize a fingerprint for comparison: the SHA256: prefix is optional and
+ * base64 padding is ignored
+ */
+export function normalizeFingerprint(fingerprint: string): string {
+  const value = fingerprint.trim().replace(/^SHA256:/i, '').replace(/=+$/, '');
+  return `SHA256:${value}`;
+}
+
+/**
+ * Name a host is stored under in known_hosts: host, or [host]:port for
+ * non-standard ports
+ */
+export function formatKnownHostsName(host: string, port: number): string {
+  return port === 22 ? host : `[${host}]:${port}`;
+}
+
+/**
+ * Parse "host keytype base64" lines as printed by ssh-keyscan
+ * Comments and malformed lines are skipped, duplicate keys are dropped
+ */
+export function parseKeyscanOutput(output: string): HostKey[] {
+  const keys: HostKey[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of output.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [, type, key] = line.split(/\s+/);
+    if (!type || !key || !/^[A-Za-z0-9+/]+=*$/.test(key) || seen.has(key)) continue;
+
+    seen.add(key);
+    keys.push({ type, key, fingerprint: computeFingerprint(key) });
+  }
+
+  return keys;
+}
+
+/**
+ * Check one known_hosts host pattern (plain or |1|salt|hash) against a name
+ * Wildcard patterns are not matched: they are not entries for this host.
+ */
+function matchesHostPattern(pattern: string, name: string): boolean {
+  const hashed = pattern.match(/^\|1\|([^|]+)\|([^|]+)$/);
+  if (hashed) {
+    const hmac = crypto.createHmac('sha1', Buffer.from(hashed[1], 'base64')).update(name).digest('base64');
+    return hmac === hashed[2];
+  }
+
+  return pattern === name;
+}
+
+/**
+ * Split a known_hosts line into its fields
+ * Lines with a marker (@cert-authority, @revoked) are ignored
+ */
+function parseKnownHostsLine(line: string): { hosts: string; type: string; key: string } | undefined {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('@')) {
+    return undefined;
+  }
+
+  const [hosts, type, key] = trimmed.split(/\s+/);
+  return hosts && type && key ? { hosts, type, key } : undefined;
+}
+
+/**
+ * Find the known_hosts entries for a host
+ */
+export function findKnownHostsEntries(content: string, host: string, port: number): KnownHostsEntry[] {
+  const name = formatKnownHostsName(host, port);
+  const entries: KnownHostsEntry[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const parsed = parseKnownHostsLine(line);
+    if (!parsed) return;
+
+    const patterns = parsed.hosts.split(',');
+    if (patterns.some((pattern) => matchesHostPattern(pattern, name))) {
+      entries.push({
+        line: index + 1,
+        type: parsed.type,
+        key: parsed.key,
+        fingerprint: computeFingerprint(parsed.key),
+        hashed: parsed.hosts.startsWith('|'),
+      });
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Remove a host from known_hosts content
+ * Lines listing other hosts too only lose this host's name.
+ */
+export function removeKnownHostsEntries(
+  content: string,
+  host: string,
+  port: number
+): { content: string; removed: number } {
+  const name = formatKnownHostsName(host, port);
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const result: string[] = [];
+  let removed = 0;
+
+  for (const line of content.split(/\r?\n/)) {
+    const parsed = parseKnownHostsLine(line);
+    if (!parsed) {
+      result.push(line);
+      continue;
+    }
+
+    const patterns = parsed.hosts.split(',');
+    const remaining = patterns.filter((pattern) => !matchesHostPattern(pattern, name));
+    if (remaining.length === patterns.length) {
+      result.push(line);
+      continue;
+    }
+
+    removed++;
+    if (remaining.length > 0) {
+      result.push(line.replace(parsed.hosts, remaining.join(',')));
+    }
+  }
+
+  return { content: result.join(eol), removed };
+}
+
+/**
+ * Compare scanned keys with a pinned fingerprint and known_hosts
+ * known_hosts is stale when it has a key of a scanned type that differs.
+ */
+export function buildHostKeyReport(
+  keys: HostKey[],
+  pinned: string | undefined,
+  known: KnownHostsEntry[]
+): HostKeyReport {
+  let pin: HostKeyReport['pin'] = 'unpinned';
+  if (pinned) {
+    const expected = normalizeFingerprint(pinned);
+    pin = keys.some((k) => k.fingerprint === expected) ? 'match' : 'mismatch';
+  }
+
+  let knownHosts: HostKeyReport['knownHosts'] = 'missing';
+  const comparable = known.filter((entry) => keys.some((k) => k.type === entry.type));
+  if (comparable.length > 0) {
+    const stale = comparable.some((entry) => !keys.some((k) => k.key === entry.key));
+    knownHosts = stale ? 'mismatch' : 'match';
+  }
+
+  return { keys, pin, knownHosts, scannedAt: Date.now() };
+}
+
+/**
+ * Fetch a host's public keys with ssh-keyscan
+ * The scan connects directly, so hosts only reachable through a jump host
+ * cannot be scanned. Rejects if no key was received.
+ */
+export function scanHostKeys(
+  info: Pick<SSHConnectionInfo, 'host' | 'port' | 'jumpHosts'>,
+  timeoutMs = 15000
+): Promise<HostKey[]> {
+  return new Promise((resolve, reject) => {
+    if (!isValidHost(info.host) || !isValidPort(info.port)) {
+      reject(new Error(`Invalid host: ${info.host}:${info.port}`));
+      return;
+    }
+    if (info.jumpHosts && info.jumpHosts.length > 0) {
+      reject(new Error(`${info.host} is behind a jump host and cannot be scanned directly`));
+      return;
+    }
+
+    const args = ['-T', '5', '-p', String(info.port), info.host];
+    execFile('ssh-keyscan', args, { timeout: timeoutMs, windowsHide: true }, (error, stdout) => {
+      const keys = parseKeyscanOutput(stdout || '');
+      if (keys.length > 0) {
+        resolve(keys);
+        return;
+      }
+
+      if (error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        reject(new Error('ssh-keyscan not found - install OpenSSH client tools'));
+      } else {
+        reject(new Error(error?.killed ? 'Timed out' : `No host keys received from ${info.host}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * Codicons offered for fleets
+ */
+export const FLEET_ICONS = [
+  { id: 'server', label: 'Server', emoji: '🖥️' },
+  { id: 'cloud', label: 'Cloud', emoji: '☁️' },
+  { id: 'database', label: 'Database', emoji: '🗄️' },
+  { id: 'globe', label: 'Globe', emoji: '🌐' },
+  { id: 'home', label: 'Home', emoji: '🏠' },
+  { id: 'shield', label: 'Shield', emoji: '🛡️' },
+  { id: 'beaker', label: 'Beaker', emoji: '🧪' },
+  { id: 'rocket', label: 'Rocket', emoji: '🚀' },
+  { id: 'package', label: 'Package', emoji: '📦' },
+  { id: 'organization', label: 'Organization', emoji: '🏢' },
+  { id: 'plug', label: 'Plug', emoji: '🔌' },
+  { id: 'radio-tower', label: 'Radio Tower', emoji: '📡' },
+  { id: 'layers', label: 'Layers', emoji: '📚' },
+  { id: 'terminal', label: 'Terminal', emoji: '💻' },
+  { id: 'tools', label: 'Tools', emoji: '🔧' },
+  { id: 'lock', label: 'Lock', emoji: '🔒' },
+];
+
+/**
+ * Icons SSHarbor itself gives fleets: the offered ones, the fallback and the
+ * one used for ~/.ssh/config imports
+ */
+export const KNOWN_FLEET_ICONS: ReadonlySet<string> = new Set([
+  ...FLEET_ICONS.map((icon) => icon.id),
+  'folder',
+  'cloud-download',
+]);
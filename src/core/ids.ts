@@ -0,0 +1,79 @@
+import * as crypto from 'crypto';
+import { HarborConfig, Fleet, Vessel } from '../types';
+
+/**
+ * Generate a new fleet/vessel id
+ */
+export function generateId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Give every fleet and vessel a unique id.
+ * Missing ids are generated; duplicates (e.g. a vessel copy-pasted in
+ * harbor.json or imported twice) keep the first occurrence and get a new id.
+ * Returns true if the config was changed.
+ */
+export function ensureIds(config: HarborConfig): boolean {
+  const seen = new Set<string>();
+  let changed = false;
+
+  const claim = (id: string | undefined): string => {
+    if (id && !seen.has(id)) {
+      seen.add(id);
+      return id;
+    }
+
+    let fresh = generateId();
+    while (seen.has(fresh)) {
+      fresh = generateId();
+    }
+    seen.add(fresh);
+    changed = true;
+    return fresh;
+  };
+
+  for (const fleet of config.fleets) {
+    fleet.id = claim(fleet.id);
+
+    for (const vessel of fleet.vessels || []) {
+      vessel.id = claim(vessel.id);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Whether an imported vessel duplicates an existing one: same id, or the
+ * same host, user and port. Vessels sharing a host with a different user
+ * or port are distinct.
+ */
+export function isSameVessel(a: Vessel, b: Vessel): boolean {
+  if (a.id && a.id === b.id) {
+    return true;
+  }
+
+  return a.host === b.host && a.user === b.user && a.port === b.port;
+}
+
+/**
+ * Copy of an incoming fleet (e.g. from an import) with new ids wherever its
+ * fleet or vessel ids are already used in `config`, so existing vessels keep
+ * their ids (and with them favorites, recent entries and saved paths)
+ */
+export function withFreshIds(fleet: Fleet, config: HarborConfig): Fleet {
+  const taken = new Set<string>();
+  for (const existing of config.fleets) {
+    taken.add(existing.id);
+    existing.vessels.forEach((v) => taken.add(v.id));
+  }
+
+  const fresh = (id: string | undefined) => (id && !taken.has(id) ? id : generateId());
+
+  return {
+    ...fleet,
+    id: fresh(fleet.id),
+    vessels: fleet.vessels.map((vessel) => ({ ...vessel, id: fresh(vessel.id) })),
+  };
+}
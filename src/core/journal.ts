@@ -0,0 +1,141 @@
+import { HarborConfig } from '../types';
+
+/**
+ * One recorded harbor.json change, with the whole config before and after
+ * (plain JSON text, as written by SSHarbor)
+ */
+export interface JournalEntry {
+  /** What the change did, e.g. 'Remove vessel "web-1"' */
+  label: string;
+  timestamp: number;
+  before: string;
+  after: string;
+}
+
+/**
+ * Undo and redo stacks, most recent last
+ */
+export interface Journal {
+  undo: JournalEntry[];
+  redo: JournalEntry[];
+}
+
+// Whole-config snapshots add up; older changes can still be restored from backups
+export const JOURNAL_LIMIT = 50;
+
+export function emptyJournal(): Journal {
+  return { undo: [], redo: [] };
+}
+
+function isEntry(value: unknown): value is JournalEntry {
+  const entry = value as JournalEntry;
+  return (
+    !!entry &&
+    typeof entry.label === 'string' &&
+    typeof entry.timestamp === 'number' &&
+    typeof entry.before === 'string' &&
+    typeof entry.after === 'string'
+  );
+}
+
+/**
+ * Parse journal file content; anything unreadable becomes an empty journal
+ */
+export function parseJournal(content: string): Journal {
+  try {
+    const parsed = JSON.parse(content);
+    return {
+      undo: Array.isArray(parsed?.undo) ? parsed.undo.filter(isEntry) : [],
+      redo: Array.isArray(parsed?.redo) ? parsed.redo.filter(isEntry) : [],
+    };
+  } catch {
+    return emptyJournal();
+  }
+}
+
+/**
+ * Record a new change: it goes on the undo stack and clears redo
+ * No-op changes are dropped. Returns false if nothing was recorded.
+ */
+export function recordChange(journal: Journal, entry: JournalEntry, limit = JOURNAL_LIMIT): boolean {
+  if (isSameConfig(entry.before, entry.after)) {
+    return false;
+  }
+
+  journal.undo.push(entry);
+  journal.undo.splice(0, Math.max(journal.undo.length - limit, 0));
+  journal.redo = [];
+  return true;
+}
+
+/**
+ * A config without UI state (collapsed fleets), which is saved silently and
+ * is not part of any recorded change
+ */
+function withoutUiState(config: HarborConfig): HarborConfig {
+  if (!Array.isArray(config?.fleets)) {
+    return config;
+  }
+  return { ...config, fleets: config.fleets.map(({ collapsed: _collapsed, ...fleet }) => fleet) };
+}
+
+/**
+ * Whether two config texts hold the same config (formatting and UI state aside)
+ */
+export function isSameConfig(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+  try {
+    return (
+      JSON.stringify(withoutUiState(JSON.parse(a))) === JSON.stringify(withoutUiState(JSON.parse(b)))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ids of the vessels in a config snapshot (none if it cannot be parsed)
+ */
+function findVesselIds(snapshot: string): string[] {
+  try {
+    const config = JSON.parse(snapshot) as HarborConfig;
+    return (config.fleets || []).flatMap((fleet) => (fleet.vessels || []).map((vessel) => vessel.id));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Vessels only the dropped entries still knew: in their snapshots but in none
+ * of the entries left in the journal, so undo can no longer bring them back
+ */
+export function findForgottenVesselIds(dropped: JournalEntry[], journal: Journal): string[] {
+  const idsOf = (entry: JournalEntry) => [...findVesselIds(entry.before), ...findVesselIds(entry.after)];
+
+  const forgotten = new Set(dropped.flatMap(idsOf));
+  for (const id of [...journal.undo, ...journal.redo].flatMap(idsOf)) {
+    forgotten.delete(id);
+  }
+  return [...forgotten].filter(Boolean);
+}
+
+/**
+ * Give the fleets of a snapshot being restored their current UI state
+ * (collapsed or not), so undo and redo leave the tree as it is
+ */
+export function keepUiState(snapshot: HarborConfig, current: HarborConfig): HarborConfig {
+  const collapsed = new Map((current.fleets || []).map((fleet) => [fleet.id, fleet.collapsed]));
+  for (const fleet of snapshot.fleets || []) {
+    if (!collapsed.has(fleet.id)) {
+      continue;
+    }
+    if (collapsed.get(fleet.id) === undefined) {
+      delete fleet.collapsed;
+    } else {
+      fleet.collapsed = collapsed.get(fleet.id);
+    }
+  }
+  return snapshot;
+}
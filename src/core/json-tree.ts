@@ -0,0 +1,190 @@
+/**
+ * Strict JSON (what JSON.parse accepts) parsed into a tree that remembers
+ * where each value is, so problems can be pointed at in the editor
+ */
+export type JsonNode =
+  | { type: 'object'; offset: number; length: number; properties: JsonProperty[] }
+  | { type: 'array'; offset: number; length: number; items: JsonNode[] }
+  | { type: 'string'; offset: number; length: number; value: string }
+  | { type: 'number'; offset: number; length: number; value: number }
+  | { type: 'boolean'; offset: number; length: number; value: boolean }
+  | { type: 'null'; offset: number; length: number };
+
+export interface JsonProperty {
+  key: string;
+  keyOffset: number;
+  keyLength: number;
+  value: JsonNode;
+}
+
+/**
+ * JSON syntax error at a character offset
+ */
+export class JsonSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number
+  ) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const STRING_PATTERN = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+
+/**
+ * Parse JSON text into a tree
+ * Throws JsonSyntaxError with the offset of the first problem
+ */
+export function parseJsonTree(text: string): JsonNode {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && ' \t\n\r'.includes(text[pos])) {
+      pos++;
+    }
+  };
+
+  const fail = (expected: string): never => {
+    const found = pos < text.length ? `"${text[pos]}"` : 'end of file';
+    throw new JsonSyntaxError(`Expected ${expected} but found ${found}`, pos);
+  };
+
+  const match = (pattern: RegExp): string | undefined => {
+    pattern.lastIndex = pos;
+    const result = pattern.exec(text);
+    return result ? result[0] : undefined;
+  };
+
+  const parseString = (): { value: string; offset: number; length: number } => {
+    const token = match(STRING_PATTERN);
+    if (token === undefined) {
+      return fail('a string');
+    }
+    const offset = pos;
+    pos += token.length;
+    return { value: JSON.parse(token) as string, offset, length: token.length };
+  };
+
+  const parseValue = (): JsonNode => {
+    skipWhitespace();
+    const offset = pos;
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      const properties: JsonProperty[] = [];
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return { type: 'object', offset, length: pos - offset, properties };
+      }
+      for (;;) {
+        skipWhitespace();
+        const key = parseString();
+        skipWhitespace();
+        if (text[pos] !== ':') fail('":"');
+        pos++;
+        properties.push({ key: key.value, keyOffset: key.offset, keyLength: key.length, value: parseValue() });
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] !== '}') fail('"," or "}"');
+        pos++;
+        return { type: 'object', offset, length: pos - offset, properties };
+      }
+    }
+
+    if (char === '[') {
+      pos++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return { type: 'array', offset, length: pos - offset, items };
+      }
+      for (;;) {
+        items.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] !== ']') fail('"," or "]"');
+        pos++;
+        return { type: 'array', offset, length: pos - offset, items };
+      }
+    }
+
+    if (char === '"') {
+      return { type: 'string', ...parseString() };
+    }
+
+    for (const [word, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (text.startsWith(word, pos)) {
+        pos += word.length;
+        return value === null
+          ? { type: 'null', offset, length: word.length }
+          : { type: 'boolean', offset, length: word.length, value };
+      }
+    }
+
+    const number = match(NUMBER_PATTERN);
+    if (number !== undefined) {
+      pos += number.length;
+      return { type: 'number', offset, length: number.length, value: Number(number) };
+    }
+
+    return fail('a value');
+  };
+
+  const root = parseValue();
+  skipWhitespace();
+  if (pos < text.length) {
+    fail('end of file');
+  }
+  return root;
+}
+
+/**
+ * Plain JavaScript value of a node
+ */
+export function getJsonValue(node: JsonNode): unknown {
+  switch (node.type) {
+    case 'object':
+      return Object.fromEntries(node.properties.map((p) => [p.key, getJsonValue(p.value)]));
+    case 'array':
+      return node.items.map(getJsonValue);
+    case 'null':
+      return null;
+    default:
+      return node.value;
+  }
+}
+
+/**
+ * Property of an object node by key (the last one, like JSON.parse)
+ */
+export function findJsonProperty(node: JsonNode | undefined, key: string): JsonProperty | undefined {
+  if (node?.type !== 'object') {
+    return undefined;
+  }
+  for (let i = node.properties.length - 1; i >= 0; i--) {
+    if (node.properties[i].key === key) {
+      return node.properties[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Zero-based line and character of an offset
+ */
+export function offsetToPosition(text: string, offset: number): { line: number; character: number } {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length - 1;
+  return { line, character: offset - (before.lastIndexOf('\n') + 1) };
+}
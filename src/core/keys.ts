@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { expandPath } from './ssh';
+import { quoteShellArg } from './security';
+import { AskpassServer } from './askpass';
+
+/**
+ * Key types offered when generating a key
+ */
+export type SSHKeyType = 'ed25519' | 'rsa';
+
+/**
+ * Options for ssh-keygen
+ */
+export interface KeyGenOptions {
+  type: SSHKeyType;
+  /** Private key path (~ allowed); the public key goes to <path>.pub */
+  path: string;
+  comment: string;
+  /** Empty for an unencrypted key */
+  passphrase: string;
+}
+
+/**
+ * List private keys in ~/.ssh (files with a matching .pub next to them)
+ */
+export function listSSHKeys(): string[] {
+  const sshDir = path.join(os.homedir(), '.ssh');
+  const keys: string[] = [];
+
+  try {
+    if (fs.existsSync(sshDir)) {
+      const files = fs.readdirSync(sshDir);
+      for (const file of files) {
+        // Look for private keys (files without .pub extension that have a .pub counterpart)
+        if (!file.endsWith('.pub') && !file.startsWith('.') && !file.includes('known_hosts') && !file.includes('config') && !file.includes('authorized')) {
+          const pubFile = file + '.pub';
+          if (files.includes(pubFile)) {
+            keys.push(`~/.ssh/${file}`);
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.error('SSHarbor: Error reading SSH keys:', error);
+  }
+
+  return keys;
+}
+
+/**
+ * Validate a key file name for ~/.ssh (no paths, no leading dot)
+ */
+export function isValidKeyName(name: string): boolean {
+  if (!name || typeof name !== 'string') return false;
+  return /^[a-zA-Z0-9_][a-zA-Z0-9._-]*$/.test(name) && !name.endsWith('.pub');
+}
+
+/**
+ * Validate a key comment: printable, single line
+ */
+export function isValidKeyComment(comment: string): boolean {
+  return typeof comment === 'string' && comment.length <= 256 && !/[\0-\x1f]/.test(comment);
+}
+
+/**
+ * Build the ssh-keygen arguments for a new key
+ * RSA keys are 4096 bits. A passphrase is never put on the command line,
+ * where other local users could read it; without -N ssh-keygen asks for it
+ * (through askpass, see generateKey).
+ */
+export function buildKeygenArgs(options: KeyGenOptions): string[] {
+  return [
+    '-q',
+    '-t',
+    options.type,
+    ...(options.type === 'rsa' ? ['-b', '4096'] : []),
+    '-C',
+    options.comment,
+    ...(options.passphrase ? [] : ['-N', '']),
+    '-f',
+    expandPath(options.path),
+  ];
+}
+
+/**
+ * Generate a key pair with ssh-keygen
+ * Refuses to overwrite an existing key. Resolves with the key path.
+ * A passphrase is handed to ssh-keygen's two prompts through an AskpassServer.
+ */
+export async function generateKey(options: KeyGenOptions): Promise<string> {
+  const keyPath = expandPath(options.path);
+  if (fs.existsSync(keyPath) || fs.existsSync(`${keyPath}.pub`)) {
+    throw new Error(`Key already exists: ${options.path}`);
+  }
+  if (!isValidKeyComment(options.comment)) {
+    throw new Error('Invalid key comment');
+  }
+
+  const sshDir = path.dirname(keyPath);
+  if (!fs.existsSync(sshDir)) {
+    fs.mkdirSync(sshDir, { recursive: true, mode: 0o700 });
+  }
+
+  const askpass = options.passphrase ? new AskpassServer(async () => options.passphrase) : undefined;
+  try {
+    const env = askpass ? { ...process.env, ...(await askpass.start()) } : undefined;
+
+    await new Promise<void>((resolve, reject) => {
+      const execOptions = { env, timeout: 60000, windowsHide: true };
+      execFile('ssh-keygen', buildKeygenArgs(options), execOptions, (error, _stdout, stderr) => {
+        if (error) {
+          const code = (error as NodeJS.ErrnoException).code;
+          reject(
+            new Error(code === 'ENOENT' ? 'ssh-keygen not found - install OpenSSH client tools' : stderr.trim() || error.message)
+          );
+          return;
+        }
+        resolve();
+      });
+    });
+  } finally {
+    askpass?.dispose();
+  }
+
+  return options.path;
+}
+
+/**
+ * Parse an OpenSSH public key line ("type base64 [comment]")
+ * Returns undefined if it is not a single public key
+ */
+export function parsePublicKey(content: string): { type: string; key: string; comment?: string } | undefined {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length !== 1) {
+    return undefined;
+  }
+
+  const match = lines[0].trim().match(/^((?:ssh|ecdsa|sk)-[a-zA-Z0-9@.-]+)\s+([A-Za-z0-9+/]+=*)(?:\s+(.*))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  return { type: match[1], key: match[2], comment: match[3] };
+}
+
+/**
+ * Read the public key belonging to a private key file
+ * Throws if <identityFile>.pub is missing or malformed
+ */
+export function readPublicKey(identityFile: string): string {
+  const pubPath = `${expandPath(identityFile)}.pub`;
+  if (!fs.existsSync(pubPath)) {
+    throw new Error(`Public key not found: ${identityFile}.pub`);
+  }
+
+  const parsed = parsePublicKey(fs.readFileSync(pubPath, 'utf-8'));
+  if (!parsed) {
+    throw new Error(`Not a valid public key: ${identityFile}.pub`);
+  }
+
+  return [parsed.type, parsed.key, parsed.comment].filter(Boolean).join(' ');
+}
+
+/**
+ * Remote command that appends a public key to ~/.ssh/authorized_keys unless
+ * it is already there (like ssh-copy-id): creates ~/.ssh with tight
+ * permissions and fixes a missing trailing newline first.
+ * Runs under sh so it works whatever the login shell is.
+ */
+export function buildAuthorizedKeysCommand(publicKey: string): string {
+  const parsed = parsePublicKey(publicKey);
+  if (!parsed) {
+    throw new Error('Not a valid public key');
+  }
+
+  const line = quoteShellArg([parsed.type, parsed.key, parsed.comment].filter(Boolean).join(' '));
+  const blob = quoteShellArg(`${parsed.type} ${parsed.key}`);
+  const file = '"$HOME"/.ssh/authorized_keys';
+
+  const script = [
+    'umask 077',
+    'mkdir -p "$HOME"/.ssh',
+    `touch ${file}`,
+    `if grep -qF -- ${blob} ${file}; then echo "SSHarbor: key already installed"; exit 0; fi`,
+    `if [ -s ${file} ] && [ -n "$(tail -c 1 ${file})" ]; then echo >> ${file}; fi`,
+    `printf '%s\\n' ${line} >> ${file}`,
+    'echo "SSHarbor: key installed"',
+  ].join('; ');
+
+  return `sh -c ${quoteShellArg(script)}`;
+}
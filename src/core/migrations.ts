@@ -0,0 +1,105 @@
+import { HarborConfig } from '../types';
+import { ensureIds } from './ids';
+
+/**
+ * One upgrade step of harbor.json
+ * Steps run in order on a parsed (possibly hand-edited) config, so they
+ * must cope with missing or oddly typed fields.
+ */
+export interface ConfigMigration {
+  /** Version the config has after this step */
+  version: number;
+  description: string;
+  migrate(config: HarborConfig): void;
+}
+
+/**
+ * Files without a "version" field predate versioning
+ */
+export const UNVERSIONED_CONFIG_VERSION = 1;
+
+type PortHolder = { port?: unknown; bindPort?: unknown; targetPort?: unknown };
+
+function numberPorts(holder: PortHolder | undefined): void {
+  if (!holder || typeof holder !== 'object') return;
+  for (const key of ['port', 'bindPort', 'targetPort'] as const) {
+    const value = holder[key];
+    if (typeof value === 'string' && /^\d+$/.test(value.trim())) {
+      holder[key] = parseInt(value, 10);
+    }
+  }
+}
+
+/**
+ * All migrations, oldest first; the last one's version is the current version
+ */
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 2,
+    description: 'Give fleets and vessels stable ids',
+    migrate: (config) => {
+      ensureIds(config);
+    },
+  },
+  {
+    version: 3,
+    description: 'Store ports written as strings ("2222") as numbers',
+    migrate: (config) => {
+      numberPorts(config.defaults);
+      for (const fleet of config.fleets) {
+        numberPorts(fleet.defaults);
+        for (const vessel of fleet.vessels || []) {
+          numberPorts(vessel);
+          for (const forward of Array.isArray(vessel.forwards) ? vessel.forwards : []) {
+            numberPorts(forward);
+          }
+        }
+      }
+    },
+  },
+];
+
+export const CONFIG_VERSION = CONFIG_MIGRATIONS[CONFIG_MIGRATIONS.length - 1].version;
+
+/**
+ * Version of a parsed config
+ * Throws if the field is there but not a version number
+ */
+export function getConfigVersion(config: { version?: unknown }): number {
+  if (config.version === undefined) {
+    return UNVERSIONED_CONFIG_VERSION;
+  }
+  if (!Number.isInteger(config.version) || (config.version as number) < UNVERSIONED_CONFIG_VERSION) {
+    throw new Error(`harbor.json has an invalid "version": ${JSON.stringify(config.version)}`);
+  }
+  return config.version as number;
+}
+
+/**
+ * Bring a config up to the current version, in place
+ * Returns the descriptions of the steps that ran. Throws for configs from a
+ * newer version, which this version cannot know how to handle.
+ */
+export function migrateConfig(
+  config: HarborConfig,
+  migrations: ConfigMigration[] = CONFIG_MIGRATIONS
+): string[] {
+  const from = getConfigVersion(config);
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : UNVERSIONED_CONFIG_VERSION;
+  if (from > latest) {
+    throw new Error(
+      `harbor.json was written by a newer version of SSHarbor (config version ${from}) - update the extension to change it`
+    );
+  }
+
+  const applied: string[] = [];
+  for (const migration of migrations) {
+    if (migration.version > from) {
+      migration.migrate(config);
+      applied.push(migration.description);
+    }
+  }
+
+  config.version = latest;
+  return applied;
+}
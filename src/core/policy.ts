@@ -0,0 +1,49 @@
+import { HarborPolicy, SSHConnectionInfo } from '../types';
+
+/**
+ * Why a connection is protected by the harbor policy, e.g. 'fleet "Production"'
+ * or 'tag "prod"'. Returns undefined for unprotected connections.
+ *
+ * Connections that are not in harbor.json (quick connect, recent entries of
+ * removed vessels) are protected when they point at the same host and port
+ * as a protected vessel in `known`.
+ */
+export function getProtectionReason(
+  info: SSHConnectionInfo,
+  policy: HarborPolicy | undefined,
+  known: SSHConnectionInfo[] = []
+): string | undefined {
+  if (!policy) {
+    return undefined;
+  }
+
+  const direct = getDirectReason(info, policy);
+  if (direct || info.vesselId) {
+    return direct;
+  }
+
+  for (const other of known) {
+    if (other.host === info.host && other.port === info.port) {
+      const reason = getDirectReason(other, policy);
+      if (reason) {
+        return `${reason} via ${other.fleetName}/${other.name}`;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function getDirectReason(info: SSHConnectionInfo, policy: HarborPolicy): string | undefined {
+  if (policy.protectedFleets?.includes(info.fleetName)) {
+    return `fleet "${info.fleetName}"`;
+  }
+
+  const protectedTags = (policy.protectedTags || []).map((t) => t.toLowerCase());
+  const tag = info.tags.find((t) => protectedTags.includes(t.toLowerCase()));
+  if (tag) {
+    return `tag "${tag}"`;
+  }
+
+  return undefined;
+}
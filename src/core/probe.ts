@@ -0,0 +1,88 @@
+import * as net from 'net';
+import { VesselHealth } from '../types';
+
+// SSH servers send their identification line right after accept (RFC 4253 4.2)
+const MAX_BANNER_LENGTH = 255;
+
+/**
+ * Probe an SSH endpoint: open a TCP connection, measure connect latency
+ * and read the server identification banner ("SSH-2.0-OpenSSH_9.6").
+ * Never rejects - failures are reported as status 'down'.
+ */
+export function probeSSH(host: string, port: number, timeoutMs: number): Promise<VesselHealth> {
+  return new Promise((resolve) => {
+    const startedAt = Date.now();
+    let latency: number | undefined;
+    let buffer = '';
+    let settled = false;
+
+    const socket = net.connect({ host, port });
+
+    const finish = (result: Omit<VesselHealth, 'checkedAt'>) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      resolve({ ...result, checkedAt: Date.now() });
+    };
+
+    socket.setTimeout(timeoutMs);
+
+    socket.on('connect', () => {
+      latency = Date.now() - startedAt;
+    });
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('latin1');
+      const lineEnd = buffer.indexOf('\n');
+      if (lineEnd === -1 && buffer.length < MAX_BANNER_LENGTH) {
+        return;
+      }
+
+      const banner = buffer.slice(0, lineEnd === -1 ? MAX_BANNER_LENGTH : lineEnd).trim();
+      if (banner.startsWith('SSH-')) {
+        finish({ status: 'up', latency, banner });
+      } else {
+        finish({ status: 'down', latency, error: 'Not an SSH server' });
+      }
+    });
+
+    socket.on('timeout', () => {
+      finish({
+        status: 'down',
+        latency,
+        error: latency === undefined ? 'Connection timed out' : 'No SSH banner received',
+      });
+    });
+
+    socket.on('error', (error: NodeJS.ErrnoException) => {
+      finish({ status: 'down', error: error.code || error.message });
+    });
+
+    socket.on('close', () => {
+      finish({ status: 'down', latency, error: 'Connection closed' });
+    });
+  });
+}
+
+/**
+ * Run async tasks with at most `concurrency` in flight
+ */
+export async function runWithConcurrency<T>(
+  tasks: Array<() => Promise<T>>,
+  concurrency: number
+): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, tasks.length)) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,80 @@
+import { execFile } from 'child_process';
+import { SSHConnectionInfo } from '../types';
+import { buildSSHArgs } from './ssh';
+import { isValidRemotePath } from './security';
+
+/** Remote command printing the login user's home directory */
+const HOME_COMMAND = 'echo "$HOME"';
+
+/** How long ssh may take to connect before the probe gives up (seconds) */
+const CONNECT_TIMEOUT = 10;
+
+/**
+ * Build the ssh arguments for probing a vessel's home directory.
+ * Runs non-interactively (BatchMode), so vessels that need a password or
+ * passphrase prompt fail instead of hanging; port forwards are left out so the
+ * probe never competes with a running tunnel.
+ * Throws if the connection info is invalid
+ */
+export function buildRemoteHomeArgs(info: SSHConnectionInfo): string[] {
+  return [
+    '-T',
+    '-o',
+    'BatchMode=yes',
+    '-o',
+    `ConnectTimeout=${CONNECT_TIMEOUT}`,
+    ...buildSSHArgs({ ...info, forwards: undefined }),
+    HOME_COMMAND,
+  ];
+}
+
+/**
+ * Pick the home directory out of the probe output
+ * Shell rc files may print banners first, so the last absolute path wins.
+ * Returns undefined if the output contains no usable path
+ */
+export function parseRemoteHome(output: string): string | undefined {
+  const lines = output
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('/') && isValidRemotePath(line));
+
+  const home = lines[lines.length - 1];
+  if (!home) {
+    return undefined;
+  }
+
+  return home.length > 1 ? home.replace(/\/$/, '') : home;
+}
+
+/**
+ * Ask the remote host for the login user's home directory (ssh ... 'echo "$HOME"')
+ * Rejects with ssh's last error line if the connection fails
+ */
+export function probeRemoteHome(info: SSHConnectionInfo, timeoutMs = 20000): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let args: string[];
+    try {
+      args = buildRemoteHomeArgs(info);
+    } catch (error) {
+      reject(error);
+      return;
+    }
+
+    execFile('ssh', args, { timeout: timeoutMs, windowsHide: true }, (error, stdout, stderr) => {
+      if (error) {
+        const reason = stderr.trim().split(/\r?\n/).pop() || error.message;
+        reject(new Error(error.killed ? 'Timed out' : reason));
+        return;
+      }
+
+      const home = parseRemoteHome(stdout);
+      if (!home) {
+        reject(new Error(`Unexpected output from ${info.host}: ${stdout.trim().slice(0, 80)}`));
+        return;
+      }
+
+      resolve(home);
+    });
+  });
+}
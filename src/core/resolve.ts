@@ -0,0 +1,269 @@
+import {
+  Fleet,
+  HarborConfig,
+  HarborDefaults,
+  SSHarborSettings,
+  SSHConnectionInfo,
+  SSHOptions,
+  Vessel,
+} from '../types';
+import { getCanonicalSSHOption } from './security';
+
+// Guards against absurdly long (or accidentally recursive) jump chains
+const MAX_JUMP_DEPTH = 8;
+
+/**
+ * Resolve a vessel's connection info using the defaults cascade:
+ * vessel -> fleet defaults -> harbor defaults -> VS Code settings
+ *
+ * `fleets` is the full fleet list, used to resolve jump host references
+ * to other vessels. Defaults to just the vessel's own fleet.
+ */
+export function resolveConnectionInfo(
+  vessel: Vessel,
+  fleet: Fleet,
+  harborDefaults: HarborDefaults,
+  settings: SSHarborSettings,
+  fleets: Fleet[] = [fleet]
+): SSHConnectionInfo {
+  const user =
+    vessel.user ||
+    fleet.defaults?.user ||
+    harborDefaults.user ||
+    settings.defaultUser;
+  const port =
+    vessel.port ||
+    fleet.defaults?.port ||
+    harborDefaults.port ||
+    settings.defaultPort;
+  const identityFile =
+    vessel.identityFile ||
+    fleet.defaults?.identityFile ||
+    harborDefaults.identityFile;
+  const configuredShell =
+    vessel.shell ||
+    fleet.defaults?.shell ||
+    harborDefaults.shell;
+
+  // forwardAgent/identitiesOnly sit beneath the sshOptions of the same level
+  const sshOptions = mergeSSHOptions(
+    harborDefaults.sshOptions,
+    getAgentOptions(fleet.defaults),
+    fleet.defaults?.sshOptions,
+    getAgentOptions(vessel),
+    vessel.sshOptions
+  );
+
+  const jumpHosts = resolveJumpHosts(
+    getJumpHostEntries(vessel, fleet, harborDefaults),
+    fleets,
+    harborDefaults,
+    settings,
+    [`${fleet.name}/${vessel.name || vessel.host}`]
+  );
+
+  return {
+    name: vessel.name || vessel.host,
+    host: vessel.host,
+    user,
+    port,
+    identityFile,
+    shell: configuredShell || settings.defaultShell,
+    configuredShell,
+    jumpHosts: jumpHosts.length > 0 ? jumpHosts : undefined,
+    forwards: vessel.forwards,
+    sshOptions: Object.keys(sshOptions).length > 0 ? sshOptions : undefined,
+    workingDirectory: vessel.workingDirectory ?? fleet.defaults?.workingDirectory,
+    startupCommands: vessel.startupCommands ?? fleet.defaults?.startupCommands,
+    remoteHome: vessel.remoteHome,
+    hostKeyFingerprint: vessel.hostKeyFingerprint,
+    vesselId: vessel.id,
+    fleetId: fleet.id,
+    fleetName: fleet.name,
+    fleetColor: fleet.color,
+    favorite: vessel.favorite || false,
+    tags: vessel.tags || [],
+  };
+}
+
+/**
+ * Merge SSH option layers, later layers winning.
+ * Keys are matched case-insensitively (as ssh does) and stored in their
+ * canonical spelling; unknown keys are kept so validation can reject them.
+ */
+export function mergeSSHOptions(...layers: Array<SSHOptions | undefined>): SSHOptions {
+  const merged: SSHOptions = {};
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer || {})) {
+      merged[getCanonicalSSHOption(key) || key] = value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * ssh options for the forwardAgent/identitiesOnly switches of a vessel or fleet
+ */
+function getAgentOptions(source: { forwardAgent?: boolean; identitiesOnly?: boolean } | undefined): SSHOptions {
+  const options: SSHOptions = {};
+  if (source?.forwardAgent !== undefined) {
+    options.ForwardAgent = source.forwardAgent;
+  }
+  if (source?.identitiesOnly !== undefined) {
+    options.IdentitiesOnly = source.identitiesOnly;
+  }
+  return options;
+}
+
+/**
+ * Get the configured (unresolved) jump host entries for a vessel.
+ * An explicit empty list on the vessel or fleet stops the cascade,
+ * so a bastion can opt out of its own fleet's jump defaults.
+ */
+export function getJumpHostEntries(
+  vessel: Vessel,
+  fleet: Fleet,
+  harborDefaults: HarborDefaults
+): string[] {
+  return vessel.jumpHosts ?? fleet.defaults?.jumpHosts ?? harborDefaults.jumpHosts ?? [];
+}
+
+/**
+ * Resolve jump host entries into a flat "user@host[:port]" chain.
+ *
+ * Vessel references ("Fleet/Vessel") are expanded to the referenced vessel's
+ * own jump chain followed by the vessel itself, so bastions behind bastions
+ * work. References that cannot be resolved (unknown vessel, cycle) are kept
+ * as-is so that validation rejects them at connect time instead of silently
+ * connecting direct.
+ */
+export function resolveJumpHosts(
+  entries: string[],
+  fleets: Fleet[],
+  harborDefaults: HarborDefaults,
+  settings: SSHarborSettings,
+  visited: string[] = []
+): string[] {
+  const chain: string[] = [];
+
+  for (const entry of entries) {
+    if (!entry.includes('/')) {
+      chain.push(entry);
+      continue;
+    }
+
+    if (visited.includes(entry) || visited.length >= MAX_JUMP_DEPTH) {
+      console.warn(`SSHarbor: Jump host cycle detected at ${entry}`);
+      chain.push(entry);
+      continue;
+    }
+
+    const [fleetName, vesselName] = entry.split('/');
+    const jumpFleet = fleets.find((f) => f.name === fleetName);
+    const jumpVessel = jumpFleet?.vessels.find((v) => (v.name || v.host) === vesselName);
+
+    if (!jumpFleet || !jumpVessel) {
+      console.warn(`SSHarbor: Jump host not found: ${entry}`);
+      chain.push(entry);
+      continue;
+    }
+
+    const user =
+      jumpVessel.user ||
+      jumpFleet.defaults?.user ||
+      harborDefaults.user ||
+      settings.defaultUser;
+    const port =
+      jumpVessel.port ||
+      jumpFleet.defaults?.port ||
+      harborDefaults.port ||
+      settings.defaultPort;
+
+    chain.push(
+      ...resolveJumpHosts(
+        getJumpHostEntries(jumpVessel, jumpFleet, harborDefaults),
+        fleets,
+        harborDefaults,
+        settings,
+        [...visited, entry]
+      )
+    );
+    chain.push(port !== 22 ? `${user}@${jumpVessel.host}:${port}` : `${user}@${jumpVessel.host}`);
+  }
+
+  return chain;
+}
+
+/**
+ * Rewrite "Fleet/Vessel" jump hosts in vessels, fleet defaults and harbor
+ * defaults (raw host entries are left alone). `rename` returns the new
+ * reference, or undefined to keep an entry. Returns the number rewritten.
+ */
+function renameJumpHostReferences(
+  config: HarborConfig,
+  rename: (fleetName: string, vesselName: string) => string | undefined
+): number {
+  let count = 0;
+
+  const renameAll = (entries: string[] | undefined): string[] | undefined =>
+    entries?.map((entry) => {
+      const [fleetName, vesselName, ...rest] = entry.split('/');
+      const renamed = vesselName !== undefined && rest.length === 0 ? rename(fleetName, vesselName) : undefined;
+      if (renamed === undefined) {
+        return entry;
+      }
+      count++;
+      return renamed;
+    });
+
+  if (config.defaults?.jumpHosts) {
+    config.defaults.jumpHosts = renameAll(config.defaults.jumpHosts);
+  }
+
+  for (const fleet of config.fleets) {
+    if (fleet.defaults?.jumpHosts) {
+      fleet.defaults.jumpHosts = renameAll(fleet.defaults.jumpHosts);
+    }
+    for (const vessel of fleet.vessels) {
+      if (vessel.jumpHosts) {
+        vessel.jumpHosts = renameAll(vessel.jumpHosts);
+      }
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Point references to a renamed fleet at its new name: "Fleet/Vessel" jump
+ * hosts and protected fleets in the policy.
+ * Returns the number of references updated.
+ */
+export function renameFleetReferences(config: HarborConfig, oldName: string, newName: string): number {
+  let count = renameJumpHostReferences(config, (fleetName, vesselName) =>
+    fleetName === oldName ? `${newName}/${vesselName}` : undefined
+  );
+
+  if (config.policy?.protectedFleets) {
+    config.policy.protectedFleets = config.policy.protectedFleets.map((name) => {
+      if (name !== oldName) return name;
+      count++;
+      return newName;
+    });
+  }
+
+  return count;
+}
+
+/**
+ * Point "Fleet/Vessel" jump hosts at a vessel that was renamed or moved to
+ * another fleet (both references are "Fleet/Vessel")
+ * Returns the number of references updated.
+ */
+export function renameVesselReferences(config: HarborConfig, oldReference: string, newReference: string): number {
+  return renameJumpHostReferences(config, (fleetName, vesselName) =>
+    `${fleetName}/${vesselName}` === oldReference ? newReference : undefined
+  );
+}
@@ -1,6 +1,6 @@
 import * as os from 'os';
 import * as path from 'path';
-import { ValidationResult, QuickConnectParsed } from '../types';
+import { ValidationResult, QuickConnectParsed, PortForward, SSHOptions } from '../types';
 
 /**
  * Validate hostname/IP
@@ -87,6 +87,9 @@ export function validateConnectionInfo(info: {
   user: string;
   port: number;
   identityFile?: string;
+  jumpHosts?: string[];
+  forwards?: PortForward[];
+  sshOptions?: SSHOptions;
 }): ValidationResult {
   if (!isValidHost(info.host)) {
     return { valid: false, error: `Invalid host: ${info.host}` };
@@ -104,6 +107,28 @@ export function validateConnectionInfo(info: {
     return { valid: false, error: `Invalid identity file path: ${info.identityFile}` };
   }
 
+  for (const jumpHost of info.jumpHosts || []) {
+    // Vessel references must have been resolved to user@host[:port] by now
+    if (jumpHost.includes('/')) {
+      return { valid: false, error: `Unresolved jump host: ${jumpHost}` };
+    }
+    if (!isValidJumpHost(jumpHost)) {
+      return { valid: false, error: `Invalid jump host: ${jumpHost}` };
+    }
+  }
+
+  for (const forward of info.forwards || []) {
+    if (!isValidPortForward(forward)) {
+      return { valid: false, error: `Invalid port forward: ${JSON.stringify(forward)}` };
+    }
+  }
+
+  for (const [key, value] of Object.entries(info.sshOptions || {})) {
+    if (!isValidSSHOption(key, value)) {
+      return { valid: false, error: `Invalid SSH option: ${key}=${value}` };
+    }
+  }
+
   return { valid: true };
 }
 
@@ -160,3 +185,189 @@ export function isValidTag(tag: string): boolean {
   // Allow: alphanumeric, hyphens (lowercase preferred for tags)
   return /^[a-zA-Z0-9-]+$/.test(tag) && tag.length <= 30;
 }
+
+/**
+ * Validate a remote shell: an absolute path (/bin/zsh) or a command name (fish)
+ * Restricted to characters that need no quoting in a POSIX shell
+ */
+export function isValidShell(shell: string): boolean {
+  if (!shell || typeof shell !== 'string') return false;
+  if (shell.includes('..')) return false;
+  return /^\/?[a-zA-Z0-9._+-]+(\/[a-zA-Z0-9._+-]+)*$/.test(shell);
+}
+
+/**
+ * Validate a remote working directory: absolute or relative to ~
+ * Restricted so it is also safe in a Remote SSH folder URI
+ */
+export function isValidRemotePath(remotePath: string): boolean {
+  if (!remotePath || typeof remotePath !== 'string') return false;
+  return /^(~|~?(\/[a-zA-Z0-9._+@ -]+)+\/?|\/)$/.test(remotePath);
+}
+
+/**
+ * Validate a startup command: any single-line shell command
+ */
+export function isValidStartupCommand(command: string): boolean {
+  if (!command || typeof command !== 'string') return false;
+  return command.trim().length > 0 && !/[\0\r\n]/.test(command);
+}
+
+/**
+ * Quote a remote path for a POSIX shell, keeping a leading ~ expandable
+ */
+export function quoteRemotePath(remotePath: string): string {
+  if (remotePath === '~') {
+    return '"$HOME"';
+  }
+  if (remotePath.startsWith('~/')) {
+    return `"$HOME"/${quoteShellArg(remotePath.slice(2))}`;
+  }
+  return quoteShellArg(remotePath);
+}
+
+/**
+ * Quote a string as a single POSIX shell word
+ */
+export function quoteShellArg(value: string): string {
+  if (/^[a-zA-Z0-9_@%+=:,./-]+$/.test(value)) {
+    return value;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Validate a pinned host key fingerprint: SHA256, with or without the prefix
+ */
+export function isValidHostKeyFingerprint(fingerprint: string): boolean {
+  if (!fingerprint || typeof fingerprint !== 'string') return false;
+  return /^(SHA256:)?[A-Za-z0-9+/]{43}=?$/.test(fingerprint.trim());
+}
+
+/**
+ * Validate a jump host entry
+ * Formats: Fleet/Vessel (vessel reference), user@host:port, user@host, host:port, host
+ */
+export function isValidJumpHost(entry: string): boolean {
+  if (!entry || typeof entry !== 'string') return false;
+
+  // Vessel reference
+  if (entry.includes('/')) {
+    const [fleetName, vesselName, ...rest] = entry.split('/');
+    return rest.length === 0 && isValidFleetName(fleetName) && isValidVesselName(vesselName);
+  }
+
+  // Raw [user@]host[:port] - validated strictly, no sanitizing
+  const match = entry.match(/^(?:([^@]+)@)?([^:@]+)(?::(\d+))?$/);
+  if (!match) return false;
+
+  const [, user, host, portStr] = match;
+  if (user !== undefined && !isValidUser(user)) return false;
+  if (!isValidHost(host)) return false;
+  if (portStr !== undefined && !isValidPort(portStr)) return false;
+
+  return true;
+}
+
+/**
+ * Validate a port forwarding profile
+ */
+export function isValidPortForward(forward: PortForward): boolean {
+  if (!forward || typeof forward !== 'object') return false;
+  if (!['local', 'remote', 'dynamic'].includes(forward.type)) return false;
+  if (!isValidPort(forward.bindPort)) return false;
+
+  // '*' binds all interfaces, anything else must look like a host/IP
+  if (forward.bindAddress !== undefined && forward.bindAddress !== '*' && !isValidHost(forward.bindAddress)) {
+    return false;
+  }
+
+  if (forward.type === 'dynamic') {
+    return forward.targetHost === undefined && forward.targetPort === undefined;
+  }
+
+  return (
+    forward.targetHost !== undefined &&
+    isValidHost(forward.targetHost) &&
+    forward.targetPort !== undefined &&
+    isValidPort(forward.targetPort)
+  );
+}
+
+const YES_NO = /^(yes|no)$/;
+const INTEGER = /^\d{1,6}$/;
+const ALGORITHM_LIST = /^[+^-]?[a-zA-Z0-9@.+-]+(,[a-zA-Z0-9@.+-]+)*$/;
+
+/**
+ * Allow-list of ssh_config keywords that may be set through sshOptions,
+ * with the values each accepts. Keywords that run commands or read
+ * arbitrary files (ProxyCommand, LocalCommand, Include, ...) are
+ * deliberately absent.
+ */
+const SSH_OPTION_ALLOW_LIST: Record<string, RegExp> = {
+  AddKeysToAgent: /^(yes|no|ask|confirm)$/,
+  AddressFamily: /^(any|inet|inet6)$/,
+  BatchMode: YES_NO,
+  CheckHostIP: YES_NO,
+  Ciphers: ALGORITHM_LIST,
+  Compression: YES_NO,
+  ConnectionAttempts: INTEGER,
+  ConnectTimeout: INTEGER,
+  ControlMaster: /^(yes|no|ask|auto|autoask)$/,
+  ControlPersist: /^(yes|no|\d{1,6}[smhdw]?)$/,
+  ExitOnForwardFailure: YES_NO,
+  ForwardAgent: YES_NO,
+  ForwardX11: YES_NO,
+  ForwardX11Trusted: YES_NO,
+  GatewayPorts: YES_NO,
+  HashKnownHosts: YES_NO,
+  HostKeyAlgorithms: ALGORITHM_LIST,
+  IdentitiesOnly: YES_NO,
+  KexAlgorithms: ALGORITHM_LIST,
+  LogLevel: /^(QUIET|FATAL|ERROR|INFO|VERBOSE|DEBUG|DEBUG1|DEBUG2|DEBUG3)$/,
+  MACs: ALGORITHM_LIST,
+  PasswordAuthentication: YES_NO,
+  PreferredAuthentications: /^(gssapi-with-mic|hostbased|publickey|keyboard-interactive|password)(,(gssapi-with-mic|hostbased|publickey|keyboard-interactive|password))*$/,
+  PubkeyAuthentication: YES_NO,
+  RequestTTY: /^(yes|no|force|auto)$/,
+  ServerAliveCountMax: INTEGER,
+  ServerAliveInterval: INTEGER,
+  StrictHostKeyChecking: /^(yes|no|ask|accept-new|off)$/,
+  TCPKeepAlive: YES_NO,
+  UpdateHostKeys: /^(yes|no|ask)$/,
+  VisualHostKey: YES_NO,
+};
+
+/**
+ * Get the canonical spelling of an allowed ssh_config keyword
+ * (ssh keywords are case-insensitive). Returns undefined if not allowed.
+ */
+export function getCanonicalSSHOption(key: string): string | undefined {
+  if (!key || typeof key !== 'string') return undefined;
+  const lower = key.toLowerCase();
+  return Object.keys(SSH_OPTION_ALLOW_LIST).find((k) => k.toLowerCase() === lower);
+}
+
+/**
+ * Format an SSH option value as ssh expects it (booleans become yes/no)
+ */
+export function formatSSHOptionValue(value: string | number | boolean): string {
+  if (typeof value === 'boolean') {
+    return value ? 'yes' : 'no';
+  }
+  return String(value);
+}
+
+/**
+ * Validate an SSH option against the allow-list
+ */
+export function isValidSSHOption(key: string, value: unknown): boolean {
+  const canonical = getCanonicalSSHOption(key);
+  if (!canonical) return false;
+
+  if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+    return false;
+  }
+
+  return SSH_OPTION_ALLOW_LIST[canonical].test(formatSSHOptionValue(value));
+}
@@ -0,0 +1,247 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigSource, Fleet, FleetDefaults, HarborConfig, Vessel, VesselOverrides } from '../types';
+import { checkConfigText } from './config-check';
+import { isEncryptedConfig } from './encryption';
+import { offsetToPosition } from './json-tree';
+
+/**
+ * Shared harbor files looked for in each workspace folder, preferred first
+ */
+export const WORKSPACE_CONFIG_FILES = ['.ssharbor.json', path.join('.vscode', 'ssharbor.json')];
+
+/**
+ * The shared harbor file of a workspace folder, if it has one
+ */
+export function findWorkspaceConfigFile(
+  folderPath: string,
+  exists: (filePath: string) => boolean = fs.existsSync
+): string | undefined {
+  return WORKSPACE_CONFIG_FILES.map((file) => path.join(folderPath, file)).find((filePath) => exists(filePath));
+}
+
+/**
+ * How a fleet's source is shown in the tree; fleets without one are in harbor.json
+ */
+export function describeSource(source: ConfigSource | undefined): string {
+  return source ? `${source.kind}: ${source.label}` : 'harbor.json';
+}
+
+const GLOB_CHARS = /[*?]/;
+
+// "**" walks are synchronous and run on every reload: keep them small
+const MAX_INCLUDE_DEPTH = 8;
+const MAX_INCLUDE_ENTRIES = 5000;
+const SKIPPED_DIRS = new Set(['node_modules']);
+
+function globToRegExp(segment: string): RegExp {
+  const pattern = segment
+    .split('')
+    .map((c) => (c === '*' ? '[^/\\\\]*' : c === '?' ? '[^/\\\\]' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Split an include pattern into the directory before its first wildcard and
+ * the rest (a glob relative to that directory). Relative patterns are
+ * resolved against `baseDir`, "~/" against the home directory.
+ */
+export function splitIncludePattern(
+  pattern: string,
+  baseDir: string,
+  home: string = os.homedir()
+): { base: string; glob: string } {
+  const absolute = pattern.startsWith('~/') ? path.join(home, pattern.slice(2)) : path.resolve(baseDir, pattern);
+  const segments = absolute.split(/[\\/]/);
+  let first = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  if (first === -1) {
+    first = segments.length - 1;
+  }
+
+  return {
+    base: segments.slice(0, first).join(path.sep) || path.sep,
+    glob: segments.slice(first).join('/'),
+  };
+}
+
+/**
+ * Files matching an include pattern, sorted
+ * "*" and "?" match within a path segment, "**" any number of directories
+ * (at most 8 deep, skipping node_modules and dot-directories). The walk stops
+ * after 5000 directory entries.
+ * A pattern without wildcards is returned as it is, whether the file exists or not.
+ */
+export function expandIncludePattern(pattern: string, baseDir: string, home: string = os.homedir()): string[] {
+  const { base, glob } = splitIncludePattern(pattern, baseDir, home);
+  const segments = glob.split('/');
+  if (!segments.some((segment) => GLOB_CHARS.test(segment))) {
+    return [path.join(base, ...segments)];
+  }
+
+  const matches = new Set<string>();
+  let budget = MAX_INCLUDE_ENTRIES;
+  const walk = (dir: string, index: number, depth: number): void => {
+    const segment = segments[index];
+    if (segment === undefined || depth > MAX_INCLUDE_DEPTH || budget <= 0) {
+      return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    budget -= entries.length;
+    if (budget < 0) {
+      console.warn(`SSHarbor: Include pattern ${pattern} matches too many files, only some were searched`);
+    }
+
+    if (segment === '**') {
+      walk(dir, index + 1, depth);
+      entries
+        .filter((e) => e.isDirectory() && !e.name.startsWith('.') && !SKIPPED_DIRS.has(e.name))
+        .forEach((e) => walk(path.join(dir, e.name), index, depth + 1));
+      return;
+    }
+
+    const last = index === segments.length - 1;
+    const regex = globToRegExp(segment);
+    for (const entry of entries.filter((e) => regex.test(e.name))) {
+      if (last && entry.isFile()) {
+        matches.add(path.join(dir, entry.name));
+      } else if (!last && entry.isDirectory()) {
+        walk(path.join(dir, entry.name), index + 1, depth + 1);
+      }
+    }
+  };
+  walk(base, 0, 0);
+
+  return [...matches].sort();
+}
+
+/**
+ * Why a shared harbor file cannot be merged (undefined if it can)
+ * Only errors count; warnings (e.g. missing key files) do not keep a file out.
+ */
+export function findSourceError(content: string): string | undefined {
+  if (isEncryptedConfig(content)) {
+    return 'encrypted files cannot be shared or included';
+  }
+
+  const error = checkConfigText(content).find((problem) => problem.severity === 'error');
+  if (!error) {
+    return undefined;
+  }
+  return `line ${offsetToPosition(content, error.offset).line + 1}: ${error.message}`;
+}
+
+/**
+ * A fleet name defined in more than one source
+ */
+export interface FleetNameConflict {
+  name: string;
+  /** Source descriptions, in merge order */
+  sources: string[];
+}
+
+/**
+ * Fleet names that more than one source defines (duplicates within one
+ * source are reported when that file is checked)
+ */
+export function findFleetNameConflicts(groups: Array<{ source: string; names: string[] }>): FleetNameConflict[] {
+  const sourcesByName = new Map<string, string[]>();
+  for (const { source, names } of groups) {
+    for (const name of new Set(names)) {
+      sourcesByName.set(name, [...(sourcesByName.get(name) || []), source]);
+    }
+  }
+
+  return [...sourcesByName]
+    .filter(([, sources]) => sources.length > 1)
+    .map(([name, sources]) => ({ name, sources }));
+}
+
+/**
+ * Stable id for a fleet or vessel that has none in its file
+ * Derived from where it is defined, so favorites and saved folders survive
+ * reloads. Formatted like generated ids.
+ */
+export function deriveSourceId(...parts: string[]): string {
+  const hex = crypto.createHash('sha256').update(parts.join('\0')).digest('hex');
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20, 32)].join('-');
+}
+
+function mergeDefaults(file: FleetDefaults | undefined, fleet: FleetDefaults | undefined): FleetDefaults | undefined {
+  if (!file) return fleet;
+  if (!fleet) return file;
+
+  const merged: FleetDefaults = { ...file, ...fleet };
+  if (file.sshOptions && fleet.sshOptions) {
+    merged.sshOptions = { ...file.sshOptions, ...fleet.sshOptions };
+  }
+  return merged;
+}
+
+/**
+ * Fleets of a harbor file from another source, ready to merge read-only
+ * The file's own defaults are folded into each fleet's defaults (the
+ * personal harbor.json defaults still apply beneath them). Fleets and
+ * vessels get an id derived from the source and their names when they have
+ * none, or when theirs is in `takenIds`; ids handed out are added to it.
+ * Vessels without a host are skipped. Throws if the content is not a harbor file.
+ */
+export function readSourceFleets(content: string, source: ConfigSource, takenIds: Set<string> = new Set()): Fleet[] {
+  const config = JSON.parse(content) as HarborConfig;
+  if (!config || typeof config !== 'object' || !Array.isArray(config.fleets)) {
+    throw new Error(`${source.path} has no "fleets" array`);
+  }
+
+  const claim = (id: unknown, ...parts: string[]): string => {
+    let claimed = typeof id === 'string' && id && !takenIds.has(id) ? id : deriveSourceId(source.path, ...parts);
+    for (let n = 2; takenIds.has(claimed); n++) {
+      claimed = deriveSourceId(source.path, ...parts, String(n));
+    }
+    takenIds.add(claimed);
+    return claimed;
+  };
+
+  return config.fleets
+    .filter((fleet) => fleet && typeof fleet === 'object' && typeof fleet.name === 'string')
+    .map((fleet): Fleet => {
+      const vessels = (Array.isArray(fleet.vessels) ? fleet.vessels : [])
+        .filter((vessel) => vessel && typeof vessel === 'object' && typeof vessel.host === 'string')
+        .map((vessel): Vessel => ({ ...vessel, id: claim(vessel.id, fleet.name, vessel.name || vessel.host) }));
+
+      const merged: Fleet = { ...fleet, id: claim(fleet.id, fleet.name), vessels };
+      const defaults = mergeDefaults(config.defaults, fleet.defaults);
+      if (defaults) {
+        merged.defaults = defaults;
+      }
+      return merged;
+    });
+}
+
+/**
+ * Copies of `fleets` with the local overrides (keyed by vessel id) applied
+ */
+export function applyVesselOverrides(fleets: Fleet[], overrides: Record<string, VesselOverrides>): Fleet[] {
+  return fleets.map((fleet) => ({
+    ...fleet,
+    vessels: fleet.vessels.map((vessel) => {
+      const override = overrides[vessel.id];
+      if (!override) {
+        return vessel;
+      }
+
+      const result: Vessel = { ...vessel };
+      if (override.favorite !== undefined) result.favorite = override.favorite;
+      if (override.user) result.user = override.user;
+      if (override.identityFile) result.identityFile = override.identityFile;
+      return result;
+    }),
+  }));
+}
@@ -0,0 +1,395 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SSHConnectionInfo } from '../types';
+import { validateConnectionInfo, formatSSHOptionValue } from './security';
+import { generateSSHConfigAlias, formatForwardDirective } from './ssh';
+
+/** File name of the SSHarbor-owned config, next to ~/.ssh/config */
+export const MANAGED_CONFIG_FILENAME = 'ssharbor_config';
+
+/** Directive added to ~/.ssh/config to pull in the managed file */
+export const INCLUDE_DIRECTIVE = `Include ~/.ssh/${MANAGED_CONFIG_FILENAME}`;
+
+const INCLUDE_COMMENT = '# Added by SSHarbor - hosts are generated into ~/.ssh/ssharbor_config';
+
+const MANAGED_HEADER = [
+  '# Generated by SSHarbor from harbor.json - do not edit, changes are overwritten.',
+  '# Use "SSHarbor: Regenerate SSH Config" to rebuild this file.',
+  '',
+].join('\n');
+
+/**
+ * Outcome of reconciling the managed config with harbor.json
+ */
+export interface SSHConfigReconciliation {
+  /** Regenerated file content */
+  content: string;
+  /** Aliases of vessels that had no entry yet */
+  added: string[];
+  /** Aliases whose entry changed */
+  updated: string[];
+  /** Aliases with no matching vessel any more (renamed or removed) */
+  removed: string[];
+}
+
+/** Marker used by older versions that wrote entries straight into ~/.ssh/config */
+const LEGACY_MARKER = '# === SSHarbor Managed Entries ===';
+
+/**
+ * Path of the user's main SSH config
+ */
+export function getSSHConfigPath(): string {
+  return path.join(os.homedir(), '.ssh', 'config');
+}
+
+/**
+ * Path of the SSHarbor-managed SSH config
+ */
+export function getManagedConfigPath(): string {
+  return path.join(os.homedir(), '.ssh', MANAGED_CONFIG_FILENAME);
+}
+
+/**
+ * Build the Host block for a vessel
+ * Throws if the connection info is invalid
+ */
+export function buildHostBlock(info: SSHConnectionInfo): string {
+  const validation = validateConnectionInfo(info);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  const lines: string[] = [
+    `Host ${generateSSHConfigAlias(info)}`,
+    `  HostName ${info.host}`,
+    `  User ${info.user}`,
+  ];
+
+  if (info.port !== 22) {
+    lines.push(`  Port ${info.port}`);
+  }
+
+  if (info.identityFile) {
+    lines.push(`  IdentityFile ${info.identityFile}`);
+  }
+
+  if (info.jumpHosts && info.jumpHosts.length > 0) {
+    lines.push(`  ProxyJump ${info.jumpHosts.join(',')}`);
+  }
+
+  for (const [key, value] of Object.entries(info.sshOptions || {})) {
+    lines.push(`  ${key} ${formatSSHOptionValue(value)}`);
+  }
+
+  for (const forward of info.forwards || []) {
+    lines.push(`  ${formatForwardDirective(forward)}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Generate the full managed config for a set of vessels
+ * Invalid vessels are left out with a comment explaining why
+ */
+export function generateManagedConfig(infos: SSHConnectionInfo[]): string {
+  const blocks: string[] = [];
+  const seen = new Set<string>();
+
+  for (const info of infos) {
+    const alias = generateSSHConfigAlias(info);
+
+    if (seen.has(alias)) {
+      blocks.push(`# Skipped ${alias}: duplicate alias (${info.fleetName}/${info.name})\n`);
+      continue;
+    }
+    seen.add(alias);
+
+    try {
+      blocks.push(buildHostBlock(info));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      blocks.push(`# Skipped ${alias}: ${message.replace(/\s+/g, ' ')}\n`);
+    }
+  }
+
+  return [MANAGED_HEADER, ...blocks].join('\n');
+}
+
+/**
+ * Split managed config content into its header and Host blocks keyed by alias
+ */
+function splitHostBlocks(content: string): { header: string; blocks: Map<string, string> } {
+  const blocks = new Map<string, string>();
+  const headerLines: string[] = [];
+  let current: { alias: string; lines: string[] } | undefined;
+
+  const flush = () => {
+    if (current) {
+      blocks.set(current.alias, current.lines.join('\n').trimEnd() + '\n');
+    }
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^Host\s+(\S+)\s*$/);
+    if (match) {
+      flush();
+      current = { alias: match[1], lines: [line] };
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      headerLines.push(line);
+    }
+  }
+  flush();
+
+  return { header: headerLines.join('\n').trimEnd(), blocks };
+}
+
+/**
+ * Insert or replace the Host block for a vessel in managed config content
+ */
+export function upsertHostBlock(content: string, info: SSHConnectionInfo): string {
+  const block = buildHostBlock(info);
+  const { header, blocks } = splitHostBlocks(content);
+
+  blocks.set(generateSSHConfigAlias(info), block);
+
+  return [header || MANAGED_HEADER.trimEnd(), '', ...blocks.values()].join('\n');
+}
+
+/**
+ * Reconcile managed config content with the vessels in harbor.json: every
+ * expected alias gets a fresh entry, entries for renamed or removed vessels
+ * (and one-off quick connections) are dropped unless listed in `keepAliases`,
+ * which are carried over as they are
+ */
+export function reconcileManagedConfig(
+  content: string,
+  infos: SSHConnectionInfo[],
+  keepAliases: Iterable<string> = []
+): SSHConfigReconciliation {
+  const current = splitHostBlocks(content).blocks;
+  const generated = generateManagedConfig(infos);
+  const expected = splitHostBlocks(generated).blocks;
+
+  const keep = new Set(keepAliases);
+  const kept = [...keep]
+    .filter((alias) => !expected.has(alias) && current.has(alias))
+    .map((alias) => current.get(alias) as string);
+  const next = [generated, ...kept].join('\n');
+
+  const result: SSHConfigReconciliation = { content: next, added: [], updated: [], removed: [] };
+
+  for (const [alias, block] of expected) {
+    const existing = current.get(alias);
+    if (existing === undefined) {
+      result.added.push(alias);
+    } else if (stripComments(existing) !== stripComments(block)) {
+      result.updated.push(alias);
+    }
+  }
+
+  for (const alias of current.keys()) {
+    if (!expected.has(alias) && !keep.has(alias)) {
+      result.removed.push(alias);
+    }
+  }
+
+  return result;
+}
+
+function stripComments(block: string): string {
+  return block
+    .split('\n')
+    .filter((line) => line.trim() !== '' && !line.trim().startsWith('#'))
+    .join('\n');
+}
+
+/**
+ * Check whether an ssh_config Include argument points at the managed file
+ * Relative paths in ~/.ssh/config are resolved against ~/.ssh
+ */
+function isManagedIncludeTarget(target: string): boolean {
+  const unquoted = target.replace(/^"(.*)"$/, '$1');
+  const resolved = unquoted.startsWith('~')
+    ? path.join(os.homedir(), unquoted.slice(1))
+    : path.resolve(path.join(os.homedir(), '.ssh'), unquoted);
+
+  return path.normalize(resolved) === path.normalize(getManagedConfigPath());
+}
+
+/**
+ * Whether SSH config content already includes the managed file
+ */
+export function hasIncludeDirective(content: string): boolean {
+  return content.split(/\r?\n/).some((line) => isManagedIncludeLine(line));
+}
+
+function isManagedIncludeLine(line: string): boolean {
+  const match = line.match(/^\s*Include\s+(.+?)\s*$/i);
+  if (!match) return false;
+
+  return match[1].split(/\s+/).some(isManagedIncludeTarget);
+}
+
+/**
+ * Add the Include directive at the top of SSH config content
+ * It must come before the first Host/Match block to apply globally
+ */
+export function addIncludeDirective(content: string): string {
+  if (hasIncludeDirective(content)) {
+    return content;
+  }
+
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const prefix = [INCLUDE_COMMENT, INCLUDE_DIRECTIVE, ''].join(eol);
+
+  return content.length > 0 ? prefix + eol + content : prefix;
+}
+
+/**
+ * Remove the Include directive (and our comment) from SSH config content
+ * Include lines that also list other files are left untouched
+ */
+export function removeIncludeDirective(content: string): string {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const result: string[] = [];
+  let removedAt = -1;
+
+  for (const line of lines) {
+    if (line === INCLUDE_COMMENT) {
+      continue;
+    }
+
+    const match = line.match(/^\s*Include\s+(.+?)\s*$/i);
+    if (match && match[1].split(/\s+/).every(isManagedIncludeTarget)) {
+      removedAt = result.length;
+      continue;
+    }
+
+    result.push(line);
+  }
+
+  // Drop the blank separator we added after the directive
+  if (removedAt === 0 && result.length > 0 && result[0].trim() === '') {
+    result.shift();
+  }
+
+  return result.join(eol);
+}
+
+/**
+ * Whether SSH config content still has entries written by older versions
+ */
+export function hasLegacyManagedEntries(content: string): boolean {
+  return content.includes(LEGACY_MARKER) || /^Host\s+SSHarbor_\S+\s*$/m.test(content);
+}
+
+/**
+ * Aliases of entries older versions wrote into ~/.ssh/config
+ */
+export function findLegacyAliases(content: string): string[] {
+  const aliases: string[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^Host\s+(SSHarbor_\S+)\s*$/);
+    if (match) {
+      aliases.push(match[1]);
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Remove entries older versions wrote into ~/.ssh/config: the marker line and
+ * every "Host SSHarbor_*" block (its indented lines and one trailing blank line)
+ */
+export function removeLegacyManagedEntries(content: string): string {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const result: string[] = [];
+  let inBlock = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === LEGACY_MARKER) {
+      continue;
+    }
+
+    if (/^Host\s+SSHarbor_\S+\s*$/.test(line)) {
+      inBlock = true;
+      continue;
+    }
+
+    if (inBlock) {
+      if (/^\s+\S/.test(line)) {
+        continue;
+      }
+      inBlock = false;
+      if (line.trim() === '') {
+        continue;
+      }
+    }
+
+    result.push(line);
+  }
+
+  // Old versions separated the marker with a blank line - trim what is left over
+  while (result.length > 1 && result[result.length - 1] === '' && result[result.length - 2] === '') {
+    result.pop();
+  }
+
+  return result.join(eol);
+}
+
+/**
+ * Read a file, returning an empty string if it does not exist
+ */
+export function readSSHFile(filePath: string): string {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Atomically write a file under ~/.ssh, readable only by the owner
+ * A symlinked file (e.g. ~/.ssh/config from a dotfile manager) is written
+ * at its target, so the link stays in place.
+ */
+export function writeSSHFile(filePath: string, content: string): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  let targetPath = filePath;
+  try {
+    targetPath = fs.realpathSync(filePath);
+  } catch {
+    // Not there yet: create it
+  }
+
+  const tempPath = `${targetPath}.tmp`;
+  fs.writeFileSync(tempPath, content, 'utf-8');
+
+  if (os.platform() !== 'win32') {
+    fs.chmodSync(tempPath, 0o600);
+  }
+
+  fs.renameSync(tempPath, targetPath);
+}
+
+/**
+ * Ensure the managed config has an up-to-date entry for the vessel
+ * Returns the host alias to use for Remote SSH connection
+ */
+export function ensureSSHConfigEntry(info: SSHConnectionInfo): string {
+  const managedPath = getManagedConfigPath();
+  const updated = upsertHostBlock(readSSHFile(managedPath), info);
+
+  writeSSHFile(managedPath, updated);
+
+  return generateSSHConfigAlias(info);
+}
@@ -0,0 +1,307 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { SSHConnectionInfo } from '../types';
+import { ConfigManager } from './config';
+import { resolveConnectionInfo } from './resolve';
+import { generateSSHConfigAlias } from './ssh';
+import {
+  SSHConfigReconciliation,
+  INCLUDE_DIRECTIVE,
+  getSSHConfigPath,
+  getManagedConfigPath,
+  generateManagedConfig,
+  reconcileManagedConfig,
+  hasIncludeDirective,
+  hasLegacyManagedEntries,
+  addIncludeDirective,
+  removeIncludeDirective,
+  removeLegacyManagedEntries,
+  findLegacyAliases,
+  readSSHFile,
+  writeSSHFile,
+} from './ssh-config';
+
+const PREVIEW_SCHEME = 'ssharbor-preview';
+
+/**
+ * Stale entries found by a cleanup dry run
+ */
+export interface SSHConfigCleanupPlan {
+  /** Changes to ~/.ssh/ssharbor_config */
+  managed: SSHConfigReconciliation;
+  /** SSHarbor_* blocks older versions left in ~/.ssh/config */
+  legacyAliases: string[];
+}
+
+/**
+ * Keeps ~/.ssh/ssharbor_config in sync with harbor.json.
+ *
+ * SSHarbor never rewrites hand-written entries in ~/.ssh/config: the only
+ * change it makes there is a single Include line, added once with consent.
+ */
+export class SSHConfigIntegration {
+  private previews = new Map<string, string>();
+  private _onDidChangePreview = new vscode.EventEmitter<vscode.Uri>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private configManager: ConfigManager) {
+    // Drop entries of renamed/removed vessels on every harbor.json change
+    // (recent quick connections are kept until Clean SSH Config)
+    this.disposables.push(configManager.onConfigChange(() => this.reconcile()));
+
+    this.disposables.push(
+      vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, {
+        onDidChange: this._onDidChangePreview.event,
+        provideTextDocumentContent: (uri) => this.previews.get(uri.toString()) || '',
+      })
+    );
+  }
+
+  /**
+   * Whether ~/.ssh/config includes the managed file
+   */
+  isEnabled(): boolean {
+    return hasIncludeDirective(readSSHFile(getSSHConfigPath()));
+  }
+
+  /**
+   * Resolve every vessel in harbor.json and the shared workspace files
+   * Throws if harbor.json cannot be loaded
+   */
+  private getAllConnectionInfos(): SSHConnectionInfo[] {
+    const config = this.configManager.loadMergedConfig();
+    const settings = this.configManager.getSettings();
+    const defaults = config.defaults || {};
+
+    return config.fleets.flatMap((fleet) =>
+      fleet.vessels.map((vessel) =>
+        resolveConnectionInfo(vessel, fleet, defaults, settings, config.fleets)
+      )
+    );
+  }
+
+  /**
+   * Aliases of recent connections, kept on regeneration so Remote SSH can
+   * reconnect to quick connections and vessels that are gone from harbor.json
+   */
+  private getRecentAliases(): string[] {
+    return this.configManager
+      .loadRecent()
+      .map((recent) => generateSSHConfigAlias(this.configManager.getRecentConnectionInfo(recent)));
+  }
+
+  /**
+   * Reconcile the managed file with harbor.json if the integration is in use
+   * (enabled, or the file is still around from an earlier session)
+   */
+  reconcile(): void {
+    if (!this.isEnabled() && !fs.existsSync(getManagedConfigPath())) {
+      return;
+    }
+
+    const result = this.regenerate();
+    if (result && result.removed.length > 0) {
+      console.log(`SSHarbor: Removed stale SSH config entries: ${result.removed.join(', ')}`);
+    }
+  }
+
+  /**
+   * Rewrite the managed file from harbor.json, keeping entries of recent connections
+   * Returns what changed, or undefined if harbor.json is broken
+   * (the existing file is kept so connections keep working)
+   */
+  regenerate(): SSHConfigReconciliation | undefined {
+    let infos: SSHConnectionInfo[];
+    try {
+      infos = this.getAllConnectionInfos();
+    } catch (error) {
+      console.error('SSHarbor: SSH config not regenerated, config load failed:', error);
+      return undefined;
+    }
+
+    const managedPath = getManagedConfigPath();
+    const result = reconcileManagedConfig(readSSHFile(managedPath), infos, this.getRecentAliases());
+
+    try {
+      writeSSHFile(managedPath, result.content);
+    } catch (error) {
+      console.error('SSHarbor: Error writing managed SSH config:', error);
+      return undefined;
+    }
+
+    return result;
+  }
+
+  /**
+   * Dry run: find stale entries without writing anything
+   * Unlike regeneration, entries of recent quick connections count as stale.
+   * Throws if harbor.json cannot be loaded
+   */
+  planCleanup(): SSHConfigCleanupPlan {
+    const infos = this.getAllConnectionInfos();
+
+    return {
+      managed: reconcileManagedConfig(readSSHFile(getManagedConfigPath()), infos),
+      legacyAliases: findLegacyAliases(readSSHFile(getSSHConfigPath())),
+    };
+  }
+
+  /**
+   * Apply a cleanup plan
+   * Legacy entries are removed from ~/.ssh/config after writing a backup
+   */
+  applyCleanup(plan: SSHConfigCleanupPlan): void {
+    const managedPath = getManagedConfigPath();
+    if (fs.existsSync(managedPath) || this.isEnabled()) {
+      writeSSHFile(managedPath, plan.managed.content);
+    }
+
+    if (plan.legacyAliases.length > 0) {
+      const sshConfigPath = getSSHConfigPath();
+      const existing = readSSHFile(sshConfigPath);
+      writeSSHFile(`${sshConfigPath}.ssharbor-backup`, existing);
+      writeSSHFile(sshConfigPath, removeLegacyManagedEntries(existing));
+    }
+  }
+
+  /**
+   * Make sure ~/.ssh/config includes the managed file, asking the user first
+   * Returns false if the user declined
+   */
+  async ensureIncluded(): Promise<boolean> {
+    const sshConfigPath = getSSHConfigPath();
+    const existing = readSSHFile(sshConfigPath);
+
+    if (hasIncludeDirective(existing)) {
+      return true;
+    }
+
+    const legacy = hasLegacyManagedEntries(existing);
+    const detailLines = [
+      'SSHarbor keeps its host entries in ~/.ssh/ssharbor_config and needs this line at the top of ~/.ssh/config:',
+      '',
+      INCLUDE_DIRECTIVE,
+      '',
+      'The rest of your config is left as-is. A backup is written to ~/.ssh/config.ssharbor-backup.',
+    ];
+    if (legacy) {
+      detailLines.push(
+        'SSHarbor_* entries written by older versions are removed from ~/.ssh/config (they stay in the backup). ' +
+          'The managed file gets fresh entries for the vessels in harbor.json only.'
+      );
+    }
+    const detail = detailLines.join('\n');
+
+    const choice = await vscode.window.showWarningMessage(
+      'SSHarbor: Add an Include line to ~/.ssh/config?',
+      { modal: true, detail },
+      'Add Include'
+    );
+
+    if (choice !== 'Add Include') {
+      return false;
+    }
+
+    try {
+      if (existing) {
+        writeSSHFile(`${sshConfigPath}.ssharbor-backup`, existing);
+      }
+
+      const withoutLegacy = legacy ? removeLegacyManagedEntries(existing) : existing;
+      writeSSHFile(sshConfigPath, addIncludeDirective(withoutLegacy));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`SSHarbor: Failed to update ~/.ssh/config - ${message}`);
+      return false;
+    }
+
+    this.regenerate();
+    return true;
+  }
+
+  /**
+   * Show a diff between the managed file on disk and a fresh regeneration
+   */
+  async previewDiff(): Promise<void> {
+    let infos: SSHConnectionInfo[];
+    try {
+      infos = this.getAllConnectionInfos();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`SSHarbor: ${message}`);
+      return;
+    }
+
+    const managedPath = getManagedConfigPath();
+    const currentUri = vscode.Uri.parse(`${PREVIEW_SCHEME}:/current/ssharbor_config`);
+    const nextUri = vscode.Uri.parse(`${PREVIEW_SCHEME}:/regenerated/ssharbor_config`);
+
+    this.setPreview(currentUri, readSSHFile(managedPath));
+    this.setPreview(nextUri, generateManagedConfig(infos));
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      currentUri,
+      nextUri,
+      'ssharbor_config: Current ↔ Regenerated'
+    );
+
+    if (!this.isEnabled()) {
+      vscode.window.showInformationMessage(
+        `SSHarbor: ~/.ssh/config does not include the managed file yet ("${INCLUDE_DIRECTIVE}")`
+      );
+    }
+  }
+
+  private setPreview(uri: vscode.Uri, content: string): void {
+    this.previews.set(uri.toString(), content);
+    this._onDidChangePreview.fire(uri);
+  }
+
+  /**
+   * Remove the Include line from ~/.ssh/config and delete the managed file
+   */
+  async removeIntegration(): Promise<void> {
+    const confirm = await vscode.window.showWarningMessage(
+      'SSHarbor: Remove the SSH config integration?',
+      {
+        modal: true,
+        detail:
+          'The Include line is removed from ~/.ssh/config and ~/.ssh/ssharbor_config is deleted. ' +
+          'Remote SSH windows opened by SSHarbor will ask to add it again on the next connect.',
+      },
+      'Remove'
+    );
+
+    if (confirm !== 'Remove') {
+      return;
+    }
+
+    try {
+      const sshConfigPath = getSSHConfigPath();
+      const existing = readSSHFile(sshConfigPath);
+
+      if (hasIncludeDirective(existing)) {
+        writeSSHFile(sshConfigPath, removeIncludeDirective(existing));
+      }
+
+      const managedPath = getManagedConfigPath();
+      if (fs.existsSync(managedPath)) {
+        fs.unlinkSync(managedPath);
+      }
+
+      vscode.window.showInformationMessage('SSHarbor: SSH config integration removed');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`SSHarbor: Failed to remove integration - ${message}`);
+    }
+  }
+
+  /**
+   * Dispose
+   */
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this._onDidChangePreview.dispose();
+  }
+}
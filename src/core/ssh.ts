@@ -1,19 +1,79 @@
 import * as fs from 'fs';
 import * as os from 'os';
-import * as path from 'path';
-import { SSHConnectionInfo } from '../types';
-import { validateConnectionInfo } from './security';
+import { SSHConnectionInfo, PortForward } from '../types';
+import {
+  validateConnectionInfo,
+  formatSSHOptionValue,
+  isValidShell,
+  isValidRemotePath,
+  isValidStartupCommand,
+  quoteShellArg,
+  quoteRemotePath,
+} from './security';
+
+/**
+ * Extra options for building SSH commands
+ */
+export interface SSHCommandOptions {
+  /** Only open the port forwards, no remote shell (ssh -N) */
+  tunnelOnly?: boolean;
+  /** Start this shell on the remote host instead of the login shell (ssh -t) */
+  remoteShell?: string;
+  /** Directory to change to before starting the shell (ssh -t) */
+  workingDirectory?: string;
+  /** Commands to run before starting the shell (ssh -t) */
+  startupCommands?: string[];
+}
+
+/**
+ * Whether the options need a remote command rather than a plain login
+ */
+function hasRemoteSession(options: SSHCommandOptions): boolean {
+  return (
+    !options.tunnelOnly &&
+    !!(options.remoteShell || options.workingDirectory || options.startupCommands?.length)
+  );
+}
 
 /**
  * Build SSH command from connection info
  */
-export function buildSSHCommand(info: SSHConnectionInfo): string {
+export function buildSSHCommand(info: SSHConnectionInfo, options: SSHCommandOptions = {}): string {
+  const parts: string[] = ['ssh', ...buildSSHArgs(info, options)];
+
+  if (hasRemoteSession(options)) {
+    parts.push(quoteShellArg(buildRemoteShellCommand(options.remoteShell, options)));
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Build the ssh arguments for an interactive session, for running ssh
+ * directly: the remote command (shell, working directory, startup commands)
+ * is only added when one of them is set, otherwise ssh starts the login shell
+ * Throws if the connection info or session is invalid
+ */
+export function buildTerminalArgs(info: SSHConnectionInfo, options: SSHCommandOptions = {}): string[] {
+  const args = buildSSHArgs(info, options);
+  if (hasRemoteSession(options)) {
+    args.push(buildRemoteShellCommand(options.remoteShell, options));
+  }
+  return args;
+}
+
+/**
+ * Build the ssh arguments from connection info, ending with user@host
+ * (without the remote command, for running ssh directly rather than via a shell)
+ * Throws if the connection info is invalid
+ */
+export function buildSSHArgs(info: SSHConnectionInfo, options: SSHCommandOptions = {}): string[] {
   const validation = validateConnectionInfo(info);
   if (!validation.valid) {
     throw new Error(validation.error);
   }
 
-  const parts: string[] = ['ssh'];
+  const parts: string[] = [];
 
   // Identity file (expand ~)
   if (info.identityFile) {
@@ -30,10 +90,78 @@ export function buildSSHCommand(info: SSHConnectionInfo): string {
     parts.push('-p', String(info.port));
   }
 
+  // Jump hosts (bastion chain)
+  if (info.jumpHosts && info.jumpHosts.length > 0) {
+    parts.push('-J', info.jumpHosts.join(','));
+  }
+
+  // Extra ssh_config options (validated against the allow-list above)
+  parts.push(...buildOptionArgs(info));
+
+  // Port forwards
+  parts.push(...buildForwardArgs(info.forwards));
+
+  // Tunnel only: no remote command, fail fast if a forward can't be bound
+  if (options.tunnelOnly) {
+    parts.push('-N', '-o', 'ExitOnForwardFailure=yes');
+  }
+
+  // Interactive session with a remote command
+  if (hasRemoteSession(options)) {
+    parts.push('-t');
+  }
+
   // User@Host
   parts.push(`${info.user}@${info.host}`);
 
-  return parts.join(' ');
+  return parts;
+}
+
+/**
+ * Build the remote command that starts a shell as a login shell, falling back
+ * to the user's login shell when it is not installed on the remote host
+ * (or straight away without a `shell`).
+ * The working directory and startup commands come first; a failing step skips
+ * the remaining ones but still ends in the shell.
+ * Runs under sh so it works whatever the login shell is.
+ * Throws if the shell, directory or a command is invalid.
+ */
+export function buildRemoteShellCommand(
+  shell: string | undefined,
+  session: Pick<SSHCommandOptions, 'workingDirectory' | 'startupCommands'> = {}
+): string {
+  if (shell !== undefined && !isValidShell(shell)) {
+    throw new Error(`Invalid shell: ${shell}`);
+  }
+
+  const steps: string[] = [];
+
+  if (session.workingDirectory) {
+    if (!isValidRemotePath(session.workingDirectory)) {
+      throw new Error(`Invalid working directory: ${session.workingDirectory}`);
+    }
+    steps.push(`cd ${quoteRemotePath(session.workingDirectory)}`);
+  }
+
+  for (const command of session.startupCommands || []) {
+    if (!isValidStartupCommand(command)) {
+      throw new Error(`Invalid startup command: ${JSON.stringify(command)}`);
+    }
+    steps.push(command.trim().replace(/;+$/, ''));
+  }
+
+  const script = [
+    ...(steps.length > 0 ? [steps.join(' && ')] : []),
+    ...(shell
+      ? [
+          `if command -v ${shell} >/dev/null 2>&1; then exec ${shell} -l; fi`,
+          `echo "SSHarbor: ${shell} not found, starting \${SHELL:-/bin/sh}" >&2`,
+        ]
+      : []),
+    'exec "${SHELL:-/bin/sh}" -l',
+  ].join('; ');
+
+  return `sh -c ${quoteShellArg(script)}`;
 }
 
 /**
@@ -50,11 +178,102 @@ export function buildSSHCommandDisplay(info: SSHConnectionInfo): string {
     parts.push('-p', String(info.port));
   }
 
+  if (info.jumpHosts && info.jumpHosts.length > 0) {
+    parts.push('-J', info.jumpHosts.join(','));
+  }
+
+  parts.push(...buildOptionArgs(info));
+  parts.push(...buildForwardArgs(info.forwards));
+
   parts.push(`${info.user}@${info.host}`);
 
   return parts.join(' ');
 }
 
+/**
+ * Build the -o Key=Value arguments for a vessel's SSH options
+ */
+function buildOptionArgs(info: SSHConnectionInfo): string[] {
+  const args: string[] = [];
+
+  for (const [key, value] of Object.entries(info.sshOptions || {})) {
+    args.push('-o', `${key}=${formatSSHOptionValue(value)}`);
+  }
+
+  return args;
+}
+
+/**
+ * Build the -L/-R/-D arguments for a list of port forwards
+ */
+function buildForwardArgs(forwards: PortForward[] | undefined): string[] {
+  const flags: Record<PortForward['type'], string> = { local: '-L', remote: '-R', dynamic: '-D' };
+  const args: string[] = [];
+
+  for (const forward of forwards || []) {
+    args.push(flags[forward.type], formatForwardSpec(forward));
+  }
+
+  return args;
+}
+
+/**
+ * Format the listening side of a forward: [bind_address:]port
+ */
+function formatListenAddress(forward: PortForward): string {
+  return forward.bindAddress ? `${forward.bindAddress}:${forward.bindPort}` : String(forward.bindPort);
+}
+
+/**
+ * Format a port forward as used on the ssh command line
+ * local/remote: [bind_address:]port:host:hostport
+ * dynamic: [bind_address:]port
+ */
+export function formatForwardSpec(forward: PortForward): string {
+  const listen = formatListenAddress(forward);
+
+  if (forward.type === 'dynamic') {
+    return listen;
+  }
+
+  return `${listen}:${forward.targetHost}:${forward.targetPort}`;
+}
+
+/**
+ * Format a port forward as an ssh_config directive
+ * e.g. "LocalForward 127.0.0.1:5432 db.internal:5432"
+ */
+export function formatForwardDirective(forward: PortForward): string {
+  const listen = formatListenAddress(forward);
+
+  switch (forward.type) {
+    case 'local':
+      return `LocalForward ${listen} ${forward.targetHost}:${forward.targetPort}`;
+    case 'remote':
+      return `RemoteForward ${listen} ${forward.targetHost}:${forward.targetPort}`;
+    case 'dynamic':
+      return `DynamicForward ${listen}`;
+  }
+}
+
+/**
+ * Short human-readable description of a port forward
+ * e.g. "5432 → db.internal:5432", "SOCKS 1080"
+ */
+export function describeForward(forward: PortForward): string {
+  const listen = formatListenAddress(forward);
+  const label = forward.name ? `${forward.name}: ` : '';
+
+  switch (forward.type) {
+    case 'local':
+      return `${label}${listen} → ${forward.targetHost}:${forward.targetPort}`;
+    case 'remote':
+      return `${label}remote ${listen} → ${forward.targetHost}:${forward.targetPort}`;
+    case 'dynamic':
+      return `${label}SOCKS ${listen}`;
+  }
+}
+
 /**
  * Expand ~ to home directory
  */
@@ -88,72 +307,9 @@ export function parseConnectionId(id: string): { host: string; user: string; por
 /**
  * Generate a unique SSH config host alias for a vessel
  */
-export function generateSSHConfigAlias(info: SSHConnectionInfo): string {
+export function generateSSHConfigAlias(info: Pick<SSHConnectionInfo, 'fleetName' | 'name'>): string {
   // Create a clean alias: SSHarbor_FleetName_VesselName
   const fleet = info.fleetName.replace(/[^a-zA-Z0-9]/g, '_');
   const vessel = info.name.replace(/[^a-zA-Z0-9]/g, '_');
   return `SSHarbor_${fleet}_${vessel}`;
 }
-
-/**
- * Ensure SSH config entry exists for the vessel
- * Returns the host alias to use for Remote SSH connection
- */
-export function ensureSSHConfigEntry(info: SSHConnectionInfo): string {
-  const sshConfigPath = path.join(os.homedir(), '.ssh', 'config');
-  const alias = generateSSHConfigAlias(info);
-
-  // Build the entry
-  const entryLines: string[] = [
-    `Host ${alias}`,
-    `  HostName ${info.host}`,
-    `  User ${info.user}`,
-  ];
-
-  if (info.port !== 22) {
-    entryLines.push(`  Port ${info.port}`);
-  }
-
-  if (info.identityFile) {
-    entryLines.push(`  IdentityFile ${info.identityFile}`);
-  }
-
-  entryLines.push(''); // Empty line after entry
-
-  const newEntry = entryLines.join('\n');
-
-  // Read existing config
-  let existingConfig = '';
-  try {
-    existingConfig = fs.readFileSync(sshConfigPath, 'utf-8');
-  } catch {
-    // File doesn't exist, will create
-  }
-
-  // Check if our entry already exists
-  const entryRegex = new RegExp(`^Host ${alias}$`, 'm');
-
-  if (entryRegex.test(existingConfig)) {
-    // Remove old entry and add new one
-    // Match from "Host alias" to next "Host " or end of file
-    const removeRegex = new RegExp(`\\n?Host ${alias}\\n(?:  [^\\n]+\\n)*`, 'g');
-    existingConfig = existingConfig.replace(removeRegex, '');
-  }
-
-  // Add SSHarbor marker comment if not present
-  const marker = '# === SSHarbor Managed Entries ===';
-  let updatedConfig: string;
-
-  if (existingConfig.includes(marker)) {
-    // Insert after marker
-    updatedConfig = existingConfig.replace(marker, `${marker}\n${newEntry}`);
-  } else {
-    // Add marker and entry at the end
-    updatedConfig = existingConfig.trimEnd() + `\n\n${marker}\n${newEntry}`;
-  }
-
-  // Write updated config
-  fs.writeFileSync(sshConfigPath, updatedConfig, 'utf-8');
-
-  return alias;
-}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+import { AskpassHandler, AskpassServer } from './askpass';
+
+/**
+ * Run a program in its own terminal so it can prompt for passwords and
+ * passphrases. Resolves with its exit code once the terminal closes
+ * (undefined if unknown).
+ */
+export function runInTerminal(
+  name: string,
+  shellPath: string,
+  shellArgs: string[],
+  icon = 'key'
+): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const terminal = vscode.window.createTerminal({
+      name,
+      shellPath,
+      shellArgs,
+      iconPath: new vscode.ThemeIcon(icon),
+      isTransient: true,
+    });
+
+    const listener = vscode.window.onDidCloseTerminal((closed) => {
+      if (closed === terminal) {
+        listener.dispose();
+        resolve(closed.exitStatus?.code);
+      }
+    });
+
+    terminal.show();
+  });
+}
+
+/**
+ * Terminal that runs ssh directly (no local shell) and answers its password,
+ * passphrase and host key prompts through an AskpassServer.
+ *
+ * ssh starts in a session of its own, so it has no controlling terminal and
+ * has to use askpass; pass -tt so the remote side still gets a tty. The
+ * remote tty keeps the size it starts with.
+ */
+export class AskpassPseudoterminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  private readonly closeEmitter = new vscode.EventEmitter<number | void>();
+  private readonly askpass: AskpassServer;
+  private child?: ChildProcess;
+  private finished = false;
+  /** Set once ssh has exited with an error; the next key closes the terminal */
+  private exitCode?: number;
+
+  readonly onDidWrite = this.writeEmitter.event;
+  readonly onDidClose = this.closeEmitter.event;
+
+  constructor(
+    private readonly command: string,
+    private readonly args: string[],
+    handler: AskpassHandler
+  ) {
+    this.askpass = new AskpassServer(handler);
+  }
+
+  open(): void {
+    this.start().catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      this.finish(1, `SSHarbor: ${message}`);
+    });
+  }
+
+  private async start(): Promise<void> {
+    const env = await this.askpass.start();
+
+    const child = spawn(this.command, this.args, {
+      env: { ...process.env, ...env },
+      detached: process.platform !== 'win32',
+      windowsHide: true,
+    });
+    this.child = child;
+
+    child.stdout?.setEncoding('utf8');
+    child.stderr?.setEncoding('utf8');
+    // The remote tty already sends \r\n; ssh's own messages do not
+    child.stdout?.on('data', (data: string) => this.writeEmitter.fire(data));
+    child.stderr?.on('data', (data: string) => this.writeEmitter.fire(data.replace(/\r?\n/g, '\r\n')));
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      this.finish(1, error.code === 'ENOENT' ? `SSHarbor: ${this.command} not found` : `SSHarbor: ${error.message}`);
+    });
+    child.on('close', (code) => this.finish(code ?? 1));
+  }
+
+  /**
+   * Close right away after a clean exit; otherwise keep the output readable
+   */
+  private finish(code: number, message?: string): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.child = undefined;
+    this.askpass.dispose();
+
+    if (code === 0 && !message) {
+      this.closeEmitter.fire(0);
+      return;
+    }
+
+    this.exitCode = code;
+    this.writeEmitter.fire(`\r\n${message ?? `SSHarbor: ${this.command} exited with code ${code}`}\r\n`);
+    this.writeEmitter.fire('Press any key to close the terminal.\r\n');
+  }
+
+  handleInput(data: string): void {
+    if (this.exitCode !== undefined) {
+      this.closeEmitter.fire(this.exitCode);
+      return;
+    }
+    this.child?.stdin?.write(data);
+  }
+
+  close(): void {
+    this.child?.kill();
+    this.child = undefined;
+    this.askpass.dispose();
+    this.writeEmitter.dispose();
+    this.closeEmitter.dispose();
+  }
+}
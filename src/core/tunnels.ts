@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { ActiveTunnel, SSHConnectionInfo } from '../types';
+import { buildSSHArgs, buildConnectionId } from './ssh';
+
+/**
+ * Tracks tunnel-only (ssh -N) sessions opened for vessels.
+ *
+ * Each tunnel runs ssh directly in its own terminal so passphrase/password
+ * prompts still work; the terminal closes with ssh, and closing it (or
+ * calling stop) ends the tunnel.
+ */
+export class TunnelManager {
+  private tunnels = new Map<string, ActiveTunnel>();
+  private nextId = 1;
+  private _onDidChange = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [];
+
+  public readonly onDidChange = this._onDidChange.event;
+
+  constructor() {
+    // Forget tunnels whose terminal was closed by the user
+    this.disposables.push(
+      vscode.window.onDidCloseTerminal((terminal) => {
+        for (const [id, tunnel] of this.tunnels) {
+          if (tunnel.terminal === terminal) {
+            this.tunnels.delete(id);
+            this._onDidChange.fire();
+          }
+        }
+      })
+    );
+  }
+
+  /**
+   * Start a tunnel for the vessel's configured forwards
+   * Reuses the running tunnel if one is already open for this vessel
+   * Throws if the vessel has no forwards or the connection info is invalid
+   */
+  start(info: SSHConnectionInfo): ActiveTunnel {
+    if (!info.forwards || info.forwards.length === 0) {
+      throw new Error(`No port forwards configured for ${info.name}`);
+    }
+
+    const connectionId = this.getConnectionKey(info);
+    const existing = this.getTunnels(info)[0];
+    if (existing) {
+      existing.terminal.show();
+      return existing;
+    }
+
+    // ssh runs directly rather than typed into the local shell, so no local quoting applies
+    const terminal = vscode.window.createTerminal({
+      name: `Tunnel: ${info.name}`,
+      shellPath: 'ssh',
+      shellArgs: buildSSHArgs(info, { tunnelOnly: true }),
+      location: vscode.TerminalLocation.Panel,
+      iconPath: new vscode.ThemeIcon('plug'),
+      isTransient: true,
+    });
+
+    terminal.show(true);
+
+    const tunnel: ActiveTunnel = {
+      id: String(this.nextId++),
+      connectionId,
+      vesselName: info.name,
+      fleetName: info.fleetName,
+      forwards: info.forwards,
+      startedAt: Date.now(),
+      terminal,
+    };
+
+    this.tunnels.set(tunnel.id, tunnel);
+    this._onDidChange.fire();
+
+    return tunnel;
+  }
+
+  /**
+   * Stop a tunnel by id (disposes its terminal, which ends ssh)
+   */
+  stop(id: string): void {
+    const tunnel = this.tunnels.get(id);
+    if (!tunnel) {
+      return;
+    }
+
+    this.tunnels.delete(id);
+    tunnel.terminal.dispose();
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Get active tunnels, optionally only those for a given vessel
+   */
+  getTunnels(info?: SSHConnectionInfo): ActiveTunnel[] {
+    const tunnels = Array.from(this.tunnels.values());
+    if (!info) {
+      return tunnels;
+    }
+
+    const connectionId = this.getConnectionKey(info);
+    return tunnels.filter((t) => t.connectionId === connectionId);
+  }
+
+  /**
+   * Tunnels belong to a vessel id, or to user@host:port for quick connections
+   */
+  private getConnectionKey(info: SSHConnectionInfo): string {
+    return info.vesselId || buildConnectionId(info);
+  }
+
+  /**
+   * Dispose (stops all tunnels)
+   */
+  dispose(): void {
+    for (const tunnel of this.tunnels.values()) {
+      tunnel.terminal.dispose();
+    }
+    this.tunnels.clear();
+    this.disposables.forEach((d) => d.dispose());
+    this._onDidChange.dispose();
+  }
+}
@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import { ConfigManager } from './core/config';
+import { TunnelManager } from './core/tunnels';
+import { HealthMonitor } from './core/health';
+import { SSHConfigIntegration } from './core/ssh-integration';
 import { HarborTreeProvider } from './providers/harbor-tree';
+import { ConfigDiagnostics } from './providers/config-diagnostics';
 import { StatusBarManager, registerStatusBarCommands } from './views/status-bar';
 import { VesselDetailPanelProvider } from './views/vessel-detail-panel';
 import { registerAllCommands } from './commands';
@@ -24,36 +28,22 @@ function autoSaveCurrentFolder(configManager: ConfigManager): void {
   const sshHost = authority.replace('ssh-remote+', '');
   const folderPath = uri.path;
 
-  // Skip home directories (we only want to save non-home paths)
-  if (folderPath === '/root' || folderPath.match(/^\/home\/[^/]+$/)) {
-    return;
-  }
-
   // Check if it's an SSHarbor-managed connection
   if (!sshHost.startsWith('SSHarbor_')) return;
 
-  // Parse the alias to find the vessel
-  const config = configManager.loadConfig();
-  const settings = configManager.getSettings();
-  const defaults = config.defaults || {};
-
-  for (const fleet of config.fleets) {
-    for (const vessel of fleet.vessels) {
-      const fleetClean = fleet.name.replace(/[^a-zA-Z0-9]/g, '_');
-      const vesselClean = (vessel.name || vessel.host).replace(/[^a-zA-Z0-9]/g, '_');
-      const expectedAlias = `SSHarbor_${fleetClean}_${vesselClean}`;
-
-      if (sshHost === expectedAlias) {
-        const user = vessel.user || fleet.defaults?.user || defaults.user || settings.defaultUser;
-        const port = vessel.port || fleet.defaults?.port || defaults.port || settings.defaultPort;
-
-        // Save the folder path
-        configManager.addVesselPath(vessel.host, user, port, folderPath);
-        console.log(`SSHarbor: Auto-saved folder ${folderPath} for ${vessel.name || vessel.host}`);
-        return;
-      }
-    }
+  // Find the vessel behind the alias
+  const info = configManager.findConnectionInfoByAlias(sshHost);
+  if (!info) return;
+
+  // Skip home directories (we only want to save non-home paths)
+  const home = info.remoteHome || configManager.getDetectedRemoteHome(info);
+  if (folderPath === home || folderPath === '/root' || folderPath.match(/^\/home\/[^/]+$/)) {
+    return;
   }
+
+  // Save the folder path
+  configManager.addVesselPath(info, folderPath);
+  console.log(`SSHarbor: Auto-saved folder ${folderPath} for ${info.name}`);
 }
 
 /**
@@ -65,8 +55,20 @@ export function activate(context: vscode.ExtensionContext): void {
   // Initialize config manager
   const configManager = new ConfigManager(context);
 
+  // Track tunnel-only sessions
+  const tunnelManager = new TunnelManager();
+
+  // Background reachability checks
+  const healthMonitor = new HealthMonitor(configManager);
+
+  // Managed ~/.ssh/ssharbor_config for Remote SSH aliases
+  const sshConfigIntegration = new SSHConfigIntegration(configManager);
+
+  // Problems and quick fixes for hand edits of harbor.json
+  const configDiagnostics = new ConfigDiagnostics(configManager);
+
   // Initialize tree provider
-  const treeProvider = new HarborTreeProvider(configManager);
+  const treeProvider = new HarborTreeProvider(configManager, healthMonitor);
 
   // Register tree view with drag and drop support
   const treeView = vscode.window.createTreeView('ssharbor.harbor', {
@@ -79,19 +81,21 @@ export function activate(context: vscode.ExtensionContext): void {
   // Remember collapsed state
   treeView.onDidCollapseElement((e) => {
     if (e.element instanceof FleetItem) {
-      configManager.setFleetCollapsed(e.element.fleet.name, true);
+      configManager.setFleetCollapsed(e.element.fleet.id, true);
     }
   });
 
   treeView.onDidExpandElement((e) => {
     if (e.element instanceof FleetItem) {
-      configManager.setFleetCollapsed(e.element.fleet.name, false);
+      configManager.setFleetCollapsed(e.element.fleet.id, false);
     }
   });
 
   // Vessel detail panel (bottom panel with actions)
   const vesselDetailProvider = new VesselDetailPanelProvider(context.extensionUri);
   vesselDetailProvider.setConfigManager(configManager);
+  vesselDetailProvider.setTunnelManager(tunnelManager);
+  vesselDetailProvider.setHealthMonitor(healthMonitor);
   context.subscriptions.push(
     vscode.window.registerWebviewViewProvider(
       VesselDetailPanelProvider.viewType,
@@ -122,12 +126,22 @@ export function activate(context: vscode.ExtensionContext): void {
   const statusBar = new StatusBarManager(configManager);
 
   // Register all commands
-  registerAllCommands(context, configManager, treeProvider);
+  registerAllCommands(
+    context,
+    configManager,
+    treeProvider,
+    tunnelManager,
+    healthMonitor,
+    sshConfigIntegration
+  );
   registerStatusBarCommands(context, statusBar);
 
   // Watch config file for external changes
   const configWatcher = configManager.watchConfig();
 
+  // Watch shared .ssharbor.json files in the workspace folders
+  const sourcesWatcher = configManager.watchSources();
+
   // Watch vessel paths file for changes (from remote sessions)
   const vesselPathsWatcher = configManager.watchVesselPaths(() => {
     // Refresh the detail panel when paths change
@@ -142,17 +156,49 @@ export function activate(context: vscode.ExtensionContext): void {
   // Also save on activation if already in a remote session
   autoSaveCurrentFolder(configManager);
 
+  // Start health checks
+  healthMonitor.start();
+
+  // Pick up harbor.json edits made while the extension was not running
+  sshConfigIntegration.reconcile();
+
+  // Store or drop the remembered key when ssharbor.encryption.rememberKey changes
+  const rememberKeyWatcher = vscode.workspace.onDidChangeConfiguration((e) => {
+    if (e.affectsConfiguration('ssharbor.encryption.rememberKey')) {
+      configManager.cacheConfigKey();
+    }
+  });
+
+  // Encrypted harbor.json: use the remembered key, or ask for the passphrase
+  configManager.unlockWithCachedKey().then((unlocked) => {
+    if (!unlocked) {
+      vscode.window
+        .showWarningMessage('SSHarbor: harbor.json is encrypted', 'Unlock')
+        .then((choice) => {
+          if (choice === 'Unlock') {
+            vscode.commands.executeCommand('ssharbor.unlockConfig');
+          }
+        });
+    }
+  });
+
   // Add disposables
   context.subscriptions.push(
     treeView,
     configWatcher,
+    sourcesWatcher,
     vesselPathsWatcher,
     statusBar,
     workspaceFolderWatcher,
+    rememberKeyWatcher,
     {
       dispose: () => {
         configManager.dispose();
         treeProvider.dispose();
+        tunnelManager.dispose();
+        healthMonitor.dispose();
+        sshConfigIntegration.dispose();
+        configDiagnostics.dispose();
       },
     }
   );
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from '../core/config';
+import { checkConfigText } from '../core/config-check';
+import { isEncryptedConfig } from '../core/encryption';
+import { offsetToPosition } from '../core/json-tree';
+
+type PositionAt = (offset: number) => vscode.Position;
+
+function toRange(positionAt: PositionAt, offset: number, length: number): vscode.Range {
+  return new vscode.Range(positionAt(offset), positionAt(offset + length));
+}
+
+/**
+ * Live problems for harbor.json: in the editor while it is open (on every
+ * edit), otherwise for the file on disk. Fixable problems get quick fixes.
+ */
+export class ConfigDiagnostics implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private collection = vscode.languages.createDiagnosticCollection('ssharbor');
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private configManager: ConfigManager) {
+    const configPath = configManager.getConfigPath();
+
+    this.disposables.push(
+      this.collection,
+      vscode.workspace.onDidOpenTextDocument((document) => this.checkDocument(document)),
+      vscode.workspace.onDidChangeTextDocument((e) => this.checkDocument(e.document)),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        if (this.isConfigDocument(document)) {
+          this.checkFile();
+        }
+      }),
+      configManager.onConfigChange(() => {
+        if (!this.getOpenDocument()) {
+          this.checkFile();
+        }
+      }),
+      vscode.languages.registerCodeActionsProvider(
+        { scheme: 'file', pattern: new vscode.RelativePattern(path.dirname(configPath), path.basename(configPath)) },
+        this,
+        { providedCodeActionKinds: ConfigDiagnostics.providedCodeActionKinds }
+      )
+    );
+
+    const open = this.getOpenDocument();
+    if (open) {
+      this.checkDocument(open);
+    } else {
+      this.checkFile();
+    }
+  }
+
+  private isConfigDocument(document: vscode.TextDocument): boolean {
+    return (
+      document.uri.scheme === 'file' &&
+      path.resolve(document.uri.fsPath) === path.resolve(this.configManager.getConfigPath())
+    );
+  }
+
+  private getOpenDocument(): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find((document) => this.isConfigDocument(document));
+  }
+
+  private checkDocument(document: vscode.TextDocument): void {
+    if (this.isConfigDocument(document)) {
+      this.publish(document.uri, document.getText(), (offset) => document.positionAt(offset));
+    }
+  }
+
+  private checkFile(): void {
+    const configPath = this.configManager.getConfigPath();
+    let text: string;
+    try {
+      text = fs.readFileSync(configPath, 'utf-8');
+    } catch {
+      this.collection.clear();
+      return;
+    }
+    this.publish(vscode.Uri.file(configPath), text, (offset) => {
+      const { line, character } = offsetToPosition(text, offset);
+      return new vscode.Position(line, character);
+    });
+  }
+
+  private publish(uri: vscode.Uri, text: string, positionAt: PositionAt): void {
+    // An encrypted file is one opaque blob, checked when it is decrypted
+    if (isEncryptedConfig(text)) {
+      this.collection.delete(uri);
+      return;
+    }
+
+    this.collection.set(
+      uri,
+      checkConfigText(text).map((problem) => {
+        const diagnostic = new vscode.Diagnostic(
+          toRange(positionAt, problem.offset, problem.length),
+          problem.message,
+          problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'SSHarbor';
+        return diagnostic;
+      })
+    );
+  }
+
+  /**
+   * Quick fixes for the problems under the cursor (recomputed from the text,
+   * so they always match what is in the editor)
+   */
+  provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): vscode.CodeAction[] {
+    const positionAt: PositionAt = (offset) => document.positionAt(offset);
+    const actions: vscode.CodeAction[] = [];
+
+    for (const problem of checkConfigText(document.getText())) {
+      const problemRange = toRange(positionAt, problem.offset, problem.length);
+      if (problem.fixes.length === 0 || !problemRange.intersection(range)) {
+        continue;
+      }
+
+      const diagnostic = new vscode.Diagnostic(problemRange, problem.message);
+      diagnostic.source = 'SSHarbor';
+
+      problem.fixes.forEach((fix, index) => {
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, toRange(positionAt, fix.offset, fix.length), fix.text);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = index === 0;
+        actions.push(action);
+      });
+    }
+
+    return actions;
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
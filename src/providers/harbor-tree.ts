@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { ConfigManager } from '../core/config';
+import { HealthMonitor } from '../core/health';
 import {
   HarborTreeItem,
   FleetItem,
@@ -7,13 +8,24 @@ import {
   RecentFleetItem,
   FavoritesFleetItem,
   SpacerItem,
-  SSHConnectionInfo,
+  ConfigErrorItem,
   MutableConnectionInfo,
-  Vessel,
+  HealthLookup,
+  HarborConfig,
+  SourceFleet,
 } from '../types';
 
 const DRAG_MIME_TYPE = 'application/vnd.code.tree.ssharbor';
 
+/**
+ * Drag payload entry - fleets and vessels are identified by id
+ */
+interface DragItem {
+  type: 'vessel' | 'fleet';
+  vesselId?: string;
+  fleetId: string;
+}
+
 /**
  * Tree data provider for the SSHarbor Harbor view.
  *
@@ -50,12 +62,22 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
    * Creates a new HarborTreeProvider.
    *
    * @param configManager - The configuration manager for loading vessel data
+   * @param healthMonitor - Optional reachability monitor used to color vessels
    */
-  constructor(private configManager: ConfigManager) {
+  constructor(
+    private configManager: ConfigManager,
+    private healthMonitor?: HealthMonitor
+  ) {
     // Refresh on config changes
     configManager.onConfigChange(() => this.refresh());
+
+    // Refresh when new health results arrive
+    healthMonitor?.onDidChange(() => this.refresh());
   }
 
+  /** Health lookup passed down to fleet/vessel items */
+  private getHealth: HealthLookup = (info) => this.healthMonitor?.getHealth(info);
+
   /**
    * Handle drag start - store dragged items
    */
@@ -64,23 +86,23 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
     dataTransfer: vscode.DataTransfer,
     _token: vscode.CancellationToken
   ): void {
-    // Only allow dragging vessels and fleets
+    // Only allow dragging vessels and fleets (not shared, read-only ones)
     const draggableItems = source.filter(
-      (item) => item instanceof VesselItem || item instanceof FleetItem
+      (item) => (item instanceof VesselItem || item instanceof FleetItem) && !item.source
     );
 
     if (draggableItems.length > 0) {
-      const data = draggableItems.map((item) => {
+      const data = draggableItems.map((item): DragItem | null => {
         if (item instanceof VesselItem) {
           return {
             type: 'vessel',
-            vesselHost: item.vessel.host,
-            fleetName: item.fleet.name,
+            vesselId: item.vessel.id,
+            fleetId: item.fleet.id,
           };
         } else if (item instanceof FleetItem) {
           return {
             type: 'fleet',
-            fleetName: item.fleet.name,
+            fleetId: item.fleet.id,
           };
         }
         return null;
@@ -103,36 +125,41 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
       return;
     }
 
-    const data = JSON.parse(transferItem.value) as Array<{
-      type: 'vessel' | 'fleet';
-      vesselHost?: string;
-      fleetName: string;
-    }>;
+    const data = JSON.parse(transferItem.value) as DragItem[];
+
+    // Shared fleets are read-only: vessels cannot be dropped into them
+    const sharedTarget = (target instanceof FleetItem || target instanceof VesselItem) && target.source;
+    if (sharedTarget && data.some((item) => item.type === 'vessel')) {
+      vscode.window.showWarningMessage(
+        `SSHarbor: "${target.fleet.name}" is shared from ${sharedTarget.path} and read-only here`
+      );
+      return;
+    }
 
     const config = this.configManager.loadConfig();
 
     for (const item of data) {
-      if (item.type === 'vessel' && item.vesselHost) {
+      if (item.type === 'vessel' && item.vesselId) {
         // Moving a vessel
-        const sourceFleet = config.fleets.find((f) => f.name === item.fleetName);
+        const sourceFleet = config.fleets.find((f) => f.id === item.fleetId);
         if (!sourceFleet) continue;
 
-        const vesselIndex = sourceFleet.vessels.findIndex((v) => v.host === item.vesselHost);
+        const vesselIndex = sourceFleet.vessels.findIndex((v) => v.id === item.vesselId);
         if (vesselIndex === -1) continue;
 
         const [vessel] = sourceFleet.vessels.splice(vesselIndex, 1);
 
         if (target instanceof FleetItem) {
           // Drop on a fleet - add to that fleet
-          const targetFleet = config.fleets.find((f) => f.name === target.fleet.name);
+          const targetFleet = config.fleets.find((f) => f.id === target.fleet.id);
           if (targetFleet) {
             targetFleet.vessels.push(vessel);
           }
         } else if (target instanceof VesselItem) {
           // Drop on a vessel - insert before/after in same fleet
-          const targetFleet = config.fleets.find((f) => f.name === target.fleet.name);
+          const targetFleet = config.fleets.find((f) => f.id === target.fleet.id);
           if (targetFleet) {
-            const targetIndex = targetFleet.vessels.findIndex((v) => v.host === target.vessel.host);
+            const targetIndex = targetFleet.vessels.findIndex((v) => v.id === target.vessel.id);
             if (targetIndex !== -1) {
               targetFleet.vessels.splice(targetIndex, 0, vessel);
             } else {
@@ -145,14 +172,14 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
         }
       } else if (item.type === 'fleet') {
         // Moving a fleet (reordering)
-        const fleetIndex = config.fleets.findIndex((f) => f.name === item.fleetName);
+        const fleetIndex = config.fleets.findIndex((f) => f.id === item.fleetId);
         if (fleetIndex === -1) continue;
 
         const [fleet] = config.fleets.splice(fleetIndex, 1);
 
         if (target instanceof FleetItem) {
           // Insert before target fleet
-          const targetIndex = config.fleets.findIndex((f) => f.name === target.fleet.name);
+          const targetIndex = config.fleets.findIndex((f) => f.id === target.fleet.id);
           if (targetIndex !== -1) {
             config.fleets.splice(targetIndex, 0, fleet);
           } else {
@@ -165,7 +192,8 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
       }
     }
 
-    this.configManager.saveConfig(config);
+    const label = data.some((item) => item.type === 'vessel') ? 'Move vessels' : 'Reorder fleets';
+    this.configManager.saveConfig(config, label);
     this.refresh();
   }
 
@@ -245,8 +273,30 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
    * Get root level items
    */
   private getRootItems(): HarborTreeItem[] {
+    // Encrypted and locked: the welcome view offers to unlock
+    const locked = this.configManager.isConfigLocked();
+    vscode.commands.executeCommand('setContext', 'ssharbor.configLocked', locked);
+    if (locked) {
+      return [];
+    }
+
     const items: HarborTreeItem[] = [];
-    const config = this.configManager.loadConfig();
+    let config: HarborConfig;
+    let shared: SourceFleet[];
+    try {
+      config = this.configManager.loadConfig();
+      shared = this.configManager.loadSourceFleets(config);
+    } catch (error) {
+      // Point at the problem instead of showing an empty harbor
+      const message = error instanceof Error ? error.message : String(error);
+      return [
+        new ConfigErrorItem(
+          message,
+          this.configManager.getConfigPath(),
+          this.configManager.getConfigSyntaxErrorPosition()
+        ),
+      ];
+    }
     const settings = this.configManager.getSettings();
     const defaults = config.defaults || {};
 
@@ -264,8 +314,10 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
       }
     }
 
-    // Regular fleets
-    for (const fleet of config.fleets) {
+    // Regular fleets, then shared ones from the workspace
+    const fleets = [...config.fleets, ...shared.map((s) => s.fleet)];
+    const sources = new Map(shared.map((s) => [s.fleet.id, s.source]));
+    for (const fleet of fleets) {
       // Apply filter
       if (this.filterText) {
         const hasMatchingVessel = fleet.vessels.some(
@@ -284,7 +336,7 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
         }
       }
 
-      items.push(new FleetItem(fleet, defaults, settings));
+      items.push(new FleetItem(fleet, defaults, settings, fleets, this.getHealth, sources.get(fleet.id)));
     }
 
     // Add spacer items at the end for visual breathing room
@@ -329,21 +381,9 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
    */
   private getRecentChildren(): HarborTreeItem[] {
     const recent = this.configManager.loadRecent();
-    const settings = this.configManager.getSettings();
-    const defaults = this.configManager.getDefaults();
 
     return recent.map((r) => {
-      const connectionInfo: SSHConnectionInfo = {
-        name: r.vesselName || r.host,
-        host: r.host,
-        user: r.user,
-        port: r.port,
-        identityFile: r.identityFile,
-        shell: defaults.shell || settings.defaultShell,
-        fleetName: r.fleetName || 'Recent',
-        favorite: false,
-        tags: [],
-      };
+      const connectionInfo = this.configManager.getRecentConnectionInfo(r);
 
       // Create a pseudo VesselItem for recent
       const item = new vscode.TreeItem(
@@ -353,7 +393,7 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
 
       item.iconPath = new vscode.ThemeIcon('history', new vscode.ThemeColor('charts.green'));
       item.description = `${r.user}@${r.host}`;
-      item.tooltip = this.buildRecentTooltip({ ...r, identityFile: r.identityFile });
+      item.tooltip = this.buildRecentTooltip(r);
       item.contextValue = 'vessel';
 
       // Store connection info for double-click handling and commands
@@ -373,6 +413,7 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
     port: number;
     timestamp: number;
     identityFile?: string;
+    jumpHosts?: string[];
   }): vscode.MarkdownString {
     const md = new vscode.MarkdownString();
     md.supportHtml = true;
@@ -393,6 +434,10 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
       md.appendMarkdown(`| **Key** | \`${r.identityFile}\` |\n`);
     }
 
+    if (r.jumpHosts && r.jumpHosts.length > 0) {
+      md.appendMarkdown(`| **Jump** | \`${r.jumpHosts.join(' → ')}\` |\n`);
+    }
+
     md.appendMarkdown(`\n`);
 
     // SSH Command Preview
@@ -405,6 +450,9 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
     if (r.port !== 22) {
       sshCmd += ` -p ${r.port}`;
     }
+    if (r.jumpHosts && r.jumpHosts.length > 0) {
+      sshCmd += ` -J ${r.jumpHosts.join(',')}`;
+    }
     sshCmd += ` ${r.user}@${r.host}`;
     md.appendMarkdown(`\`\`\`bash\n${sshCmd}\n\`\`\`\n\n`);
 
@@ -423,26 +471,16 @@ export class HarborTreeProvider implements vscode.TreeDataProvider<HarborTreeIte
   private getFavoritesChildren(): HarborTreeItem[] {
     const favorites = this.configManager.getFavorites();
     const config = this.configManager.loadConfig();
+    const shared = this.configManager.loadSourceFleets(config);
+    const fleets = [...config.fleets, ...shared.map((s) => s.fleet)];
+    const sources = new Map(shared.map((s) => [s.fleet.id, s.source]));
     const settings = this.configManager.getSettings();
     const defaults = config.defaults || {};
 
-    return favorites.map(({ vessel, fleetName }) => {
-      const fleet = config.fleets.find((f) => f.name === fleetName);
-      if (!fleet) {
-        // Fallback if fleet not found
-        const item = new vscode.TreeItem(
-          vessel.name || vessel.host,
-          vscode.TreeItemCollapsibleState.None
-        ) as HarborTreeItem;
-        item.iconPath = new vscode.ThemeIcon(
-          'star-full',
-          new vscode.ThemeColor('charts.yellow')
-        );
-        return item;
-      }
-
-      return new VesselItem(vessel, fleet, defaults, settings);
-    });
+    return favorites.map(
+      ({ vessel, fleet }) =>
+        new VesselItem(vessel, fleet, defaults, settings, fleets, this.getHealth, sources.get(fleet.id))
+    );
   }
 
   /**
@@ -1,14 +1,34 @@
 import * as vscode from 'vscode';
+import { resolveConnectionInfo } from '../core/resolve';
+import { buildSSHCommandDisplay, describeForward } from '../core/ssh';
+import { getFleetThemeColorId } from '../core/colors';
+import { describeSource } from '../core/sources';
 
 /**
  * Harbor configuration - the main config file
  */
 export interface HarborConfig {
   $schema?: string;
+  version?: number;
   defaults?: HarborDefaults;
+  policy?: HarborPolicy;
+  /** Other harbor files (paths or globs) merged in read-only */
+  include?: string[];
   fleets: Fleet[];
 }
 
+/**
+ * Connection guardrails for sensitive vessels
+ */
+export interface HarborPolicy {
+  /** Fleet names whose vessels are protected */
+  protectedFleets?: string[];
+  /** Vessel tags that mark a vessel as protected (case-insensitive) */
+  protectedTags?: string[];
+  /** Require typing the vessel name instead of clicking a button */
+  confirmByTypingName?: boolean;
+}
+
 /**
  * Default values for Harbor
  */
@@ -17,12 +37,22 @@ export interface HarborDefaults {
   user?: string;
   port?: number;
   identityFile?: string;
+  jumpHosts?: string[];
+  sshOptions?: SSHOptions;
 }
 
+/**
+ * Extra ssh_config options (e.g. { "ServerAliveInterval": 30 })
+ * Keys must be on the allow-list in core/security.ts
+ */
+export type SSHOptions = Record<string, string | number | boolean>;
+
 /**
  * Fleet - a group of vessels (servers)
  */
 export interface Fleet {
+  /** Stable unique id (generated automatically) */
+  id: string;
   name: string;
   icon?: string;
   color?: string;
@@ -31,6 +61,34 @@ export interface Fleet {
   vessels: Vessel[];
 }
 
+/**
+ * Where fleets that are not in harbor.json come from (they are read-only)
+ */
+export interface ConfigSource {
+  kind: 'workspace' | 'include';
+  /** Short name shown in the tree: the workspace folder name, or the file name of an include */
+  label: string;
+  /** File the fleets are defined in */
+  path: string;
+}
+
+/**
+ * A fleet merged in from a read-only source
+ */
+export interface SourceFleet {
+  fleet: Fleet;
+  source: ConfigSource;
+}
+
+/**
+ * Local changes to a vessel from a read-only source (never written back to it)
+ */
+export interface VesselOverrides {
+  favorite?: boolean;
+  user?: string;
+  identityFile?: string;
+}
+
 /**
  * Fleet-level defaults
  */
@@ -39,23 +97,87 @@ export interface FleetDefaults {
   port?: number;
   identityFile?: string;
   shell?: string;
+  jumpHosts?: string[];
+  sshOptions?: SSHOptions;
+  /** Forward the local ssh-agent (ForwardAgent yes) */
+  forwardAgent?: boolean;
+  /** Only offer the configured identity file (IdentitiesOnly yes) */
+  identitiesOnly?: boolean;
+  /** Remote directory terminals and Remote SSH windows start in */
+  workingDirectory?: string;
+  /** Commands run in SSH terminals after login, in order */
+  startupCommands?: string[];
 }
 
 /**
  * Vessel - a single server/host
  */
 export interface Vessel {
+  /** Stable unique id (generated automatically) */
+  id: string;
   name: string;
   host: string;
   user?: string;
   port?: number;
   identityFile?: string;
   shell?: string;
+  /**
+   * Jump hosts to hop through, in order. Each entry is either a vessel
+   * reference ("Fleet/Vessel") or a raw "[user@]host[:port]".
+   */
+  jumpHosts?: string[];
+  forwards?: PortForward[];
+  sshOptions?: SSHOptions;
+  /** Forward the local ssh-agent (ForwardAgent yes) */
+  forwardAgent?: boolean;
+  /** Only offer the configured identity file (IdentitiesOnly yes) */
+  identitiesOnly?: boolean;
+  /** Remote directory terminals and Remote SSH windows start in */
+  workingDirectory?: string;
+  /** Commands run in SSH terminals after login, in order */
+  startupCommands?: string[];
+  /** Home directory on the remote host; detected over SSH when unset */
+  remoteHome?: string;
+  /** Expected host key fingerprint ("SHA256:..."), checked before connecting */
+  hostKeyFingerprint?: string;
   tags?: string[];
   favorite?: boolean;
   notes?: string;
 }
 
+/**
+ * Login secrets for a vessel, kept in VS Code's SecretStorage
+ * (never written to harbor.json)
+ */
+export interface VesselCredentials {
+  /** Password for password/keyboard-interactive authentication */
+  password?: string;
+  /** Passphrase of the vessel's identity file */
+  passphrase?: string;
+}
+
+/**
+ * Port forward type (maps to ssh -L / -R / -D)
+ */
+export type PortForwardType = 'local' | 'remote' | 'dynamic';
+
+/**
+ * Port forwarding profile attached to a vessel
+ */
+export interface PortForward {
+  type: PortForwardType;
+  /** Optional label shown in the UI (e.g. "Postgres") */
+  name?: string;
+  /** Address the listening side binds to (defaults to ssh's own default) */
+  bindAddress?: string;
+  /** Listening port: local for local/dynamic, remote for remote forwards */
+  bindPort: number;
+  /** Destination host (local/remote only) */
+  targetHost?: string;
+  /** Destination port (local/remote only) */
+  targetPort?: number;
+}
+
 /**
  * SSH connection info (resolved with defaults)
  */
@@ -66,7 +188,23 @@ export interface SSHConnectionInfo {
   port: number;
   identityFile?: string;
   shell: string;
+  /** Shell set in harbor.json (vessel, fleet or harbor defaults), unset when only the setting applies */
+  configuredShell?: string;
+  /** Resolved jump chain as "user@host[:port]" entries */
+  jumpHosts?: string[];
+  forwards?: PortForward[];
+  /** Merged options (harbor -> fleet -> vessel) */
+  sshOptions?: SSHOptions;
+  workingDirectory?: string;
+  startupCommands?: string[];
+  remoteHome?: string;
+  hostKeyFingerprint?: string;
+  /** Id of the vessel in harbor.json (unset for quick connections) */
+  vesselId?: string;
+  fleetId?: string;
   fleetName: string;
+  /** Fleet color (#rrggbb) */
+  fleetColor?: string;
   favorite: boolean;
   tags: string[];
 }
@@ -75,15 +213,32 @@ export interface SSHConnectionInfo {
  * Recent connection entry
  */
 export interface RecentConnection {
+  /** Id of the vessel in harbor.json (unset for quick connections) */
+  vesselId?: string;
   host: string;
   user: string;
   port: number;
   identityFile?: string;
+  jumpHosts?: string[];
   timestamp: number;
   fleetName?: string;
   vesselName?: string;
 }
 
+/**
+ * Tunnel-only (ssh -N) session started for a vessel
+ */
+export interface ActiveTunnel {
+  id: string;
+  /** Vessel id, or user@host:port for connections not in harbor.json */
+  connectionId: string;
+  vesselName: string;
+  fleetName: string;
+  forwards: PortForward[];
+  startedAt: number;
+  terminal: vscode.Terminal;
+}
+
 /**
  * Extension settings from VS Code config
  */
@@ -93,12 +248,63 @@ export interface SSHarborSettings {
   defaultPort: number;
   showRecentConnections: boolean;
   maxRecentConnections: number;
+  healthCheckEnabled: boolean;
+  healthCheckInterval: number;
+  healthCheckConcurrency: number;
+  backupRetention: number;
+  rememberConfigKey: boolean;
+}
+
+/**
+ * Reachability state of a vessel
+ */
+export type HealthState = 'up' | 'down' | 'unknown';
+
+/**
+ * Last health check result for a vessel
+ */
+export interface VesselHealth {
+  status: HealthState;
+  /** TCP connect time in ms */
+  latency?: number;
+  /** SSH identification banner, e.g. "SSH-2.0-OpenSSH_9.6" */
+  banner?: string;
+  error?: string;
+  checkedAt: number;
+}
+
+/**
+ * A public host key as reported by ssh-keyscan
+ */
+export interface HostKey {
+  /** Key type, e.g. "ssh-ed25519" */
+  type: string;
+  /** Base64 key blob */
+  key: string;
+  /** "SHA256:..." as printed by ssh-keygen -l */
+  fingerprint: string;
+}
+
+/**
+ * Scanned host keys compared with the pinned fingerprint and known_hosts
+ */
+export interface HostKeyReport {
+  keys: HostKey[];
+  pin: 'match' | 'mismatch' | 'unpinned';
+  /** 'mismatch' when known_hosts holds a different key of a scanned type */
+  knownHosts: 'match' | 'mismatch' | 'missing';
+  scannedAt: number;
 }
 
+/**
+ * Looks up the last health result for a vessel
+ */
+export type HealthLookup = (info: SSHConnectionInfo) => VesselHealth | undefined;
+
 /**
  * Tree item types
  */
-export type TreeItemType = 'fleet' | 'vessel' | 'recent-fleet' | 'favorites-fleet' | 'spacer';
+export type TreeItemType = 'fleet' | 'vessel' | 'recent-fleet' | 'favorites-fleet' | 'spacer' | 'config-error';
 
 /**
  * Quick connect parse result
@@ -138,6 +344,7 @@ export class HarborTreeItem extends vscode.TreeItem {
 
 /**
  * Fleet tree item
+ * Fleets from a read-only source (`source`) are marked with where they come from
  */
 export class FleetItem extends HarborTreeItem {
   public readonly vessels: VesselItem[] = [];
@@ -145,7 +352,10 @@ export class FleetItem extends HarborTreeItem {
   constructor(
     public readonly fleet: Fleet,
     public readonly harborDefaults: HarborDefaults,
-    public readonly settings: SSHarborSettings
+    public readonly settings: SSHarborSettings,
+    fleets: Fleet[] = [fleet],
+    getHealth?: HealthLookup,
+    public readonly source?: ConfigSource
   ) {
     super(
       fleet.name,
@@ -155,13 +365,33 @@ export class FleetItem extends HarborTreeItem {
       'fleet'
     );
 
-    this.iconPath = new vscode.ThemeIcon(fleet.icon || 'folder');
-    this.tooltip = `Fleet: ${fleet.name}\n${fleet.vessels.length} vessel(s)`;
+    const fleetColor = getFleetThemeColorId(fleet.color);
+    this.iconPath = new vscode.ThemeIcon(
+      fleet.icon || 'folder',
+      fleetColor ? new vscode.ThemeColor(fleetColor) : undefined
+    );
+    this.tooltip = `Fleet: ${fleet.name}\n${fleet.vessels.length} vessel(s)\nSource: ${describeSource(source)}`;
+    if (source) {
+      this.contextValue = 'fleet-readonly';
+      this.tooltip += ` (read-only)\n${source.path}`;
+    }
 
     // Build vessel items
     this.vessels = fleet.vessels.map(
-      (vessel) => new VesselItem(vessel, fleet, harborDefaults, settings)
+      (vessel) => new VesselItem(vessel, fleet, harborDefaults, settings, fleets, getHealth, source)
     );
+
+    // Description: where a shared fleet comes from, and how many vessels
+    // answered the last health check
+    const parts = source ? [describeSource(source)] : [];
+    const checked = this.vessels.filter((v) => v.health && v.health.status !== 'unknown');
+    if (checked.length > 0) {
+      const up = checked.filter((v) => v.health?.status === 'up').length;
+      parts.push(`${up}/${this.vessels.length} up`);
+    }
+    if (parts.length > 0) {
+      this.description = parts.join(' · ');
+    }
   }
 }
 
@@ -170,57 +400,41 @@ export class FleetItem extends HarborTreeItem {
  */
 export class VesselItem extends HarborTreeItem {
   public readonly connectionInfo: SSHConnectionInfo;
+  public readonly health?: VesselHealth;
 
   constructor(
     public readonly vessel: Vessel,
     public readonly fleet: Fleet,
     public readonly harborDefaults: HarborDefaults,
-    public readonly settings: SSHarborSettings
+    public readonly settings: SSHarborSettings,
+    fleets: Fleet[] = [fleet],
+    getHealth?: HealthLookup,
+    public readonly source?: ConfigSource
   ) {
     super(vessel.name || vessel.host, vscode.TreeItemCollapsibleState.None, 'vessel');
+    if (source) {
+      this.contextValue = 'vessel-readonly';
+    }
 
     // Resolve connection info with defaults cascade
-    const user =
-      vessel.user ||
-      fleet.defaults?.user ||
-      harborDefaults.user ||
-      settings.defaultUser;
-    const port =
-      vessel.port ||
-      fleet.defaults?.port ||
-      harborDefaults.port ||
-      settings.defaultPort;
-    const identityFile =
-      vessel.identityFile ||
-      fleet.defaults?.identityFile ||
-      harborDefaults.identityFile;
-    const shell =
-      vessel.shell ||
-      fleet.defaults?.shell ||
-      harborDefaults.shell ||
-      settings.defaultShell;
-
-    this.connectionInfo = {
-      name: vessel.name || vessel.host,
-      host: vessel.host,
-      user,
-      port,
-      identityFile,
-      shell,
-      fleetName: fleet.name,
-      favorite: vessel.favorite || false,
-      tags: vessel.tags || [],
-    };
+    this.connectionInfo = resolveConnectionInfo(vessel, fleet, harborDefaults, settings, fleets);
+    const { user } = this.connectionInfo;
+    this.health = getHealth?.(this.connectionInfo);
 
     // Icon based on favorite status - nautical theme
     // Favorites: golden star (like a guiding star for sailors)
     // Regular: radio-tower (ship's communication beacon)
+    // Color: red when the last health check failed, else the fleet color,
+    // else the last health check result
+    const iconColor = this.getIconColor(getFleetThemeColorId(fleet.color));
     this.iconPath = vessel.favorite
-      ? new vscode.ThemeIcon('star-full', new vscode.ThemeColor('charts.yellow'))
-      : new vscode.ThemeIcon('radio-tower', new vscode.ThemeColor('charts.blue'));
+      ? new vscode.ThemeIcon('star-full', new vscode.ThemeColor(iconColor || 'charts.yellow'))
+      : new vscode.ThemeIcon('radio-tower', new vscode.ThemeColor(iconColor || 'charts.blue'));
 
-    // Description: user@host
-    this.description = `${user}@${vessel.host}`;
+    // Description: user@host (plus latency when reachable)
+    this.description = this.health?.status === 'up' && this.health.latency !== undefined
+      ? `${user}@${vessel.host} · ${this.health.latency}ms`
+      : `${user}@${vessel.host}`;
 
     // Rich tooltip with markdown
     this.tooltip = this.buildTooltip();
@@ -229,6 +443,17 @@ export class VesselItem extends HarborTreeItem {
     // (removed single-click command to require double-click)
   }
 
+  private getIconColor(fleetColor: string | undefined): string | undefined {
+    switch (this.health?.status) {
+      case 'up':
+        return fleetColor || 'charts.green';
+      case 'down':
+        return 'charts.red';
+      default:
+        return fleetColor;
+    }
+  }
+
   private buildTooltip(): vscode.MarkdownString {
     const md = new vscode.MarkdownString();
     md.supportHtml = true;
@@ -249,11 +474,29 @@ export class VesselItem extends HarborTreeItem {
     md.appendMarkdown(`| **Host** | \`${connectionInfo.host}\` |\n`);
     md.appendMarkdown(`| **User** | \`${connectionInfo.user}\` |\n`);
     md.appendMarkdown(`| **Port** | \`${connectionInfo.port}\` |\n`);
+    const source = this.source ? `${describeSource(this.source)} (read-only)` : describeSource(undefined);
+    md.appendMarkdown(`| **Source** | ${source} |\n`);
 
     if (connectionInfo.identityFile) {
       md.appendMarkdown(`| **Key** | \`${connectionInfo.identityFile}\` |\n`);
     }
 
+    if (this.health) {
+      const status = this.health.status === 'up'
+        ? `🟢 Up (${this.health.latency}ms)`
+        : `🔴 Down${this.health.error ? ` — ${this.health.error}` : ''}`;
+      md.appendMarkdown(`| **Status** | ${status} |\n`);
+    }
+
+    if (connectionInfo.jumpHosts && connectionInfo.jumpHosts.length > 0) {
+      md.appendMarkdown(`| **Jump** | \`${connectionInfo.jumpHosts.join(' → ')}\` |\n`);
+    }
+
+    if (connectionInfo.forwards && connectionInfo.forwards.length > 0) {
+      const forwards = connectionInfo.forwards.map((f) => `\`${describeForward(f)}\``).join('<br>');
+      md.appendMarkdown(`| **Forwards** | ${forwards} |\n`);
+    }
+
     md.appendMarkdown(`\n`);
 
     // Tags Section
@@ -266,14 +509,7 @@ export class VesselItem extends HarborTreeItem {
     // SSH Command Preview
     md.appendMarkdown(`---\n\n`);
     md.appendMarkdown(`### SSH Command\n\n`);
-    let sshCmd = 'ssh';
-    if (connectionInfo.identityFile) {
-      sshCmd += ` -i ${connectionInfo.identityFile}`;
-    }
-    if (connectionInfo.port !== 22) {
-      sshCmd += ` -p ${connectionInfo.port}`;
-    }
-    sshCmd += ` ${connectionInfo.user}@${connectionInfo.host}`;
+    const sshCmd = buildSSHCommandDisplay(connectionInfo);
     md.appendMarkdown(`\`\`\`bash\n${sshCmd}\n\`\`\`\n\n`);
 
     // Notes Section
@@ -315,6 +551,32 @@ export class FavoritesFleetItem extends HarborTreeItem {
   }
 }
 
+/**
+ * Shown instead of the fleets when harbor.json cannot be loaded
+ * Opens harbor.json at the broken line when it is a syntax error.
+ */
+export class ConfigErrorItem extends HarborTreeItem {
+  constructor(
+    public readonly error: string,
+    configPath: string,
+    position?: { line: number; character: number }
+  ) {
+    super('harbor.json cannot be loaded', vscode.TreeItemCollapsibleState.None, 'config-error');
+    this.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'));
+    this.description = position ? `line ${position.line + 1}` : error;
+    this.tooltip = position ? `${error}\nLine ${position.line + 1}, column ${position.character + 1}` : error;
+
+    const selection = position
+      ? new vscode.Range(position.line, position.character, position.line, position.character)
+      : undefined;
+    this.command = {
+      command: 'vscode.open',
+      title: 'Open harbor.json',
+      arguments: [vscode.Uri.file(configPath), { selection }],
+    };
+  }
+}
+
 /**
  * Spacer item for visual breathing room
  */
@@ -354,3 +616,22 @@ export type TreeItemWithConnectionInfo = VesselItem | MutableConnectionInfo;
  * Type for command arguments that could be VesselItem, connection info, or tree item with connection info
  */
 export type ConnectionCommandArg = VesselItem | SSHConnectionInfo | { connectionInfo: SSHConnectionInfo };
+
+/**
+ * Extract SSHConnectionInfo from various command argument types
+ */
+export function extractConnectionInfo(itemOrInfo: ConnectionCommandArg | undefined): SSHConnectionInfo | undefined {
+  if (!itemOrInfo) {
+    return undefined;
+  }
+
+  if (itemOrInfo instanceof VesselItem || hasConnectionInfo(itemOrInfo)) {
+    return itemOrInfo.connectionInfo;
+  }
+
+  if ('host' in itemOrInfo && typeof itemOrInfo.host === 'string') {
+    return itemOrInfo;
+  }
+
+  return undefined;
+}
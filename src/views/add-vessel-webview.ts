@@ -1,54 +1,66 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
 import { ConfigManager } from '../core/config';
-import { Vessel, Fleet } from '../types';
+import { Vessel, Fleet, VesselCredentials } from '../types';
 import { isValidHost, isValidUser, isValidPort, isValidVesselName } from '../core/security';
+import { generateId } from '../core/ids';
+import { listSSHKeys } from '../core/keys';
+import { formatAgentSwitch, parseAgentSwitch } from '../core/agent';
 
 export class AddVesselWebview {
   private panel: vscode.WebviewPanel | undefined;
 
+  /** Id of the vessel being edited (undefined when adding) */
+  private editingVesselId: string | undefined;
+
   constructor(
     private context: vscode.ExtensionContext,
     private configManager: ConfigManager
   ) {}
 
   /**
-   * Get available SSH keys from ~/.ssh/
+   * Open the form to add a vessel, optionally preselecting a fleet
    */
-  private getSSHKeys(): string[] {
-    const sshDir = path.join(os.homedir(), '.ssh');
-    const keys: string[] = [];
-
-    try {
-      if (fs.existsSync(sshDir)) {
-        const files = fs.readdirSync(sshDir);
-        for (const file of files) {
-          if (!file.endsWith('.pub') && !file.startsWith('.') && !file.includes('known_hosts') && !file.includes('config') && !file.includes('authorized')) {
-            const pubFile = file + '.pub';
-            if (files.includes(pubFile)) {
-              keys.push(`~/.ssh/${file}`);
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error('SSHarbor: Error reading SSH keys:', error);
+  show(fleetId?: string): void {
+    if (this.panel && !this.editingVesselId) {
+      this.panel.reveal();
+      return;
     }
 
-    return keys;
+    this.open(fleetId);
   }
 
-  show(fleetName?: string): void {
-    if (this.panel) {
+  /**
+   * Open the form pre-filled with an existing vessel
+   */
+  showEdit(vesselId: string): void {
+    if (this.panel && this.editingVesselId === vesselId) {
       this.panel.reveal();
       return;
     }
 
+    const config = this.configManager.loadConfig();
+    const fleet = config.fleets.find((f) => f.vessels.some((v) => v.id === vesselId));
+    if (!fleet) {
+      vscode.window.showErrorMessage('SSHarbor: Vessel not found in harbor.json');
+      return;
+    }
+
+    this.open(fleet.id, vesselId);
+  }
+
+  private open(fleetId?: string, vesselId?: string): void {
+    // Switching between add/edit (or to another vessel) starts a fresh form
+    this.panel?.dispose();
+    this.editingVesselId = vesselId;
+
+    const config = this.configManager.loadConfig();
+    const fleets = config.fleets;
+    const sshKeys = listSSHKeys();
+    const editing = fleets.flatMap((f) => f.vessels).find((v) => v.id === vesselId);
+
     this.panel = vscode.window.createWebviewPanel(
       'ssharbor.addVessel',
-      'Add Vessel',
+      editing ? `Edit Vessel: ${editing.name || editing.host}` : 'Add Vessel',
       vscode.ViewColumn.One,
       {
         enableScripts: true,
@@ -56,11 +68,7 @@ export class AddVesselWebview {
       }
     );
 
-    const config = this.configManager.loadConfig();
-    const fleets = config.fleets;
-    const sshKeys = this.getSSHKeys();
-
-    this.panel.webview.html = this.getHtml(fleets, sshKeys, fleetName);
+    this.panel.webview.html = this.getHtml(fleets, sshKeys, fleetId, editing);
 
     this.panel.webview.onDidReceiveMessage(
       async (message) => {
@@ -74,19 +82,48 @@ export class AddVesselWebview {
           case 'validate':
             this.validateField(message.field, message.value);
             break;
+          case 'generateKey': {
+            const keyPath = await vscode.commands.executeCommand<string | undefined>(
+              'ssharbor.generateKey',
+              { quiet: true }
+            );
+            if (keyPath) {
+              this.panel?.webview.postMessage({ command: 'keyGenerated', path: keyPath });
+            }
+            break;
+          }
         }
       },
       undefined,
       this.context.subscriptions
     );
 
-    this.panel.onDidDispose(() => {
-      this.panel = undefined;
+    // Tell the form which secrets are stored (never the secrets themselves)
+    const editingInfo = editing && this.configManager.getConnectionInfos().find((i) => i.vesselId === editing.id);
+    if (editingInfo) {
+      const panel = this.panel;
+      this.configManager.getCredentials(editingInfo).then((stored) => {
+        panel.webview.postMessage({
+          command: 'credentials',
+          password: !!stored?.password,
+          passphrase: !!stored?.passphrase,
+        });
+      });
+    }
+
+    const panel = this.panel;
+    panel.onDidDispose(() => {
+      // A replaced panel must not clear the state of its successor
+      if (this.panel === panel) {
+        this.panel = undefined;
+        this.editingVesselId = undefined;
+      }
     });
   }
 
   private async saveVessel(data: any): Promise<void> {
-    const { fleet, name, host, user, port, identityFile, tags, favorite, notes } = data;
+    const { fleet, name, host, user, port, identityFile, forwardAgent, identitiesOnly, tags, favorite, notes } = data;
+    const { password, passphrase, forgetCredentials } = data;
 
     // Validate
     if (!fleet) {
@@ -106,26 +143,66 @@ export class AddVesselWebview {
       return;
     }
 
-    const vessel: Vessel = {
+    const fields: Omit<Vessel, 'id'> = {
       name: name || host,
       host,
       user: user || undefined,
       port: port ? parseInt(port, 10) : undefined,
       identityFile: identityFile || undefined,
+      // "Fleet default" leaves the field out, so an explicit no survives edits
+      forwardAgent: parseAgentSwitch(forwardAgent),
+      identitiesOnly: parseAgentSwitch(identitiesOnly),
       tags: tags ? tags.split(',').map((t: string) => t.trim()).filter(Boolean) : undefined,
       favorite: favorite || false,
       notes: notes || undefined,
     };
 
+    const fleetName =
+      this.configManager.loadConfig().fleets.find((f) => f.id === fleet)?.name || fleet;
+
+    if (this.editingVesselId) {
+      try {
+        // Fields the form does not cover (jump hosts, forwards, ...) are kept
+        this.configManager.updateVessel(this.editingVesselId, fields, fleet);
+        await this.saveCredentials(this.editingVesselId, { password, passphrase }, forgetCredentials);
+        vscode.window.showInformationMessage(`Vessel "${fields.name}" updated in "${fleetName}"`);
+        this.panel?.dispose();
+      } catch (error) {
+        this.sendError(`Failed to update vessel: ${error}`);
+      }
+      return;
+    }
+
     try {
-      this.configManager.addVessel(fleet, vessel);
-      vscode.window.showInformationMessage(`Vessel "${vessel.name}" added to "${fleet}"`);
+      const id = generateId();
+      this.configManager.addVessel(fleet, { id, ...fields });
+      await this.saveCredentials(id, { password, passphrase }, false);
+      vscode.window.showInformationMessage(`Vessel "${fields.name}" added to "${fleetName}"`);
       this.panel?.dispose();
     } catch (error) {
       this.sendError(`Failed to add vessel: ${error}`);
     }
   }
 
+  /**
+   * Store the password/passphrase typed into the form (empty fields keep
+   * what is stored), optionally forgetting the stored ones first
+   */
+  private async saveCredentials(vesselId: string, credentials: VesselCredentials, forget: boolean): Promise<void> {
+    const info = this.configManager.getConnectionInfos().find((i) => i.vesselId === vesselId);
+    if (!info) return;
+
+    if (forget) {
+      await this.configManager.clearCredentials(info);
+    }
+    if (credentials.password || credentials.passphrase) {
+      await this.configManager.setCredentials(info, {
+        password: credentials.password || undefined,
+        passphrase: credentials.passphrase || undefined,
+      });
+    }
+  }
+
   private validateField(field: string, value: string): void {
     let valid = true;
     let message = '';
@@ -188,24 +265,48 @@ export class AddVesselWebview {
     return text;
   }
 
-  private getHtml(fleets: Fleet[], sshKeys: string[], selectedFleet?: string): string {
+  private getHtml(fleets: Fleet[], sshKeys: string[], selectedFleet?: string, editing?: Vessel): string {
     const nonce = this.getNonce();
 
     // Escape fleet names to prevent XSS
     const fleetOptions = fleets
-      .map((f) => `<option value="${this.escapeHtml(f.name)}" ${f.name === selectedFleet ? 'selected' : ''} data-identity="${this.escapeHtml(f.defaults?.identityFile || '')}" data-user="${this.escapeHtml(f.defaults?.user || '')}" data-port="${f.defaults?.port || ''}">${this.escapeHtml(f.name)}</option>`)
+      .map((f) => `<option value="${this.escapeHtml(f.id)}" ${f.id === selectedFleet ? 'selected' : ''} data-identity="${this.escapeHtml(f.defaults?.identityFile || '')}" data-user="${this.escapeHtml(f.defaults?.user || '')}" data-port="${f.defaults?.port || ''}">${this.escapeHtml(f.name)}</option>`)
       .join('');
 
+    // Keep a vessel's key selectable even if it is not in ~/.ssh
+    if (editing?.identityFile && !sshKeys.includes(editing.identityFile)) {
+      sshKeys = [editing.identityFile, ...sshKeys];
+    }
+
     // SSH keys are from local filesystem, but still escape for safety
     const keyOptions = sshKeys
       .map(k => `<option value="${this.escapeHtml(k)}">${this.escapeHtml(k)}</option>`)
       .join('');
 
     // Get selected fleet defaults
-    const selected = fleets.find(f => f.name === selectedFleet);
-    const defaultIdentity = this.escapeHtml(selected?.defaults?.identityFile || '');
-    const defaultUser = this.escapeHtml(selected?.defaults?.user || '');
-    const defaultPort = selected?.defaults?.port || '';
+    const selected = fleets.find(f => f.id === selectedFleet);
+    const fleetUser = this.escapeHtml(selected?.defaults?.user || '');
+    const fleetPort = selected?.defaults?.port || '';
+
+    // Edit mode shows the vessel's own values; inherited ones stay as placeholders
+    const defaultIdentity = this.escapeHtml(editing ? editing.identityFile || '' : selected?.defaults?.identityFile || '');
+    const defaultUser = editing ? this.escapeHtml(editing.user || '') : fleetUser;
+    const defaultPort = editing ? editing.port || '' : fleetPort;
+    const values = {
+      host: this.escapeHtml(editing?.host || ''),
+      name: this.escapeHtml(editing?.name || ''),
+      tags: this.escapeHtml(editing?.tags?.join(', ') || ''),
+      notes: this.escapeHtml(editing?.notes || ''),
+      favorite: editing?.favorite ? 'checked' : '',
+    };
+    const agentOptions = (value: boolean | undefined) =>
+      (['', 'yes', 'no'] as const)
+        .map((option) => {
+          const label = option === '' ? 'Fleet default' : option === 'yes' ? 'Yes' : 'No';
+          const selectedAttr = option === formatAgentSwitch(value) ? ' selected' : '';
+          return `<option value="${option}"${selectedAttr}>${label}</option>`;
+        })
+        .join('');
 
     return /*html*/ `
 <!DOCTYPE html>
@@ -214,7 +315,7 @@ export class AddVesselWebview {
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
-  <title>Add Vessel</title>
+  <title>${editing ? 'Edit Vessel' : 'Add Vessel'}</title>
   <style>
     :root {
       --bg: var(--vscode-editor-background);
@@ -277,6 +378,11 @@ export class AddVesselWebview {
       margin-bottom: 28px;
     }
 
+    .hint {
+      font-size: 13px;
+      opacity: 0.7;
+    }
+
     .section-title {
       font-size: 12px;
       text-transform: uppercase;
@@ -336,6 +442,21 @@ export class AddVesselWebview {
       border-color: var(--success);
     }
 
+    .link-btn {
+      background: none;
+      border: none;
+      padding: 0;
+      margin-top: 6px;
+      color: var(--vscode-textLink-foreground);
+      font-size: 12px;
+      cursor: pointer;
+      text-align: left;
+    }
+
+    .link-btn:hover {
+      text-decoration: underline;
+    }
+
     .field-error {
       font-size: 12px;
       color: var(--error);
@@ -479,8 +600,8 @@ export class AddVesselWebview {
   <div class="header">
     <span class="header-icon">🚢</span>
     <div>
-      <h1>Add New Vessel</h1>
-      <p>Configure a new SSH connection</p>
+      <h1>${editing ? 'Edit Vessel' : 'Add New Vessel'}</h1>
+      <p>${editing ? `Update the SSH connection for ${values.name || values.host}` : 'Configure a new SSH connection'}</p>
     </div>
   </div>
 
@@ -489,7 +610,7 @@ export class AddVesselWebview {
       <div class="section-title">Fleet</div>
       <div class="form-row full">
         <div class="form-group">
-          <label for="fleet">Select Fleet <span class="required">*</span></label>
+          <label for="fleet">${editing ? 'Fleet' : 'Select Fleet'} <span class="required">*</span></label>
           <select id="fleet" name="fleet" required>
             <option value="">Choose a fleet...</option>
             ${fleetOptions}
@@ -503,19 +624,19 @@ export class AddVesselWebview {
       <div class="form-row">
         <div class="form-group">
           <label for="host">Host <span class="required">*</span></label>
-          <input type="text" id="host" name="host" placeholder="192.168.1.1 or server.example.com" required>
+          <input type="text" id="host" name="host" placeholder="192.168.1.1 or server.example.com" value="${values.host}" required>
           <div class="field-error" id="host-error"></div>
         </div>
         <div class="form-group">
           <label for="port">Port</label>
-          <input type="text" id="port" name="port" placeholder="${defaultPort || '22'}" value="${defaultPort || ''}">
+          <input type="text" id="port" name="port" placeholder="${fleetPort || '22'}" value="${defaultPort || ''}">
           <div class="field-error" id="port-error"></div>
         </div>
       </div>
       <div class="form-row">
         <div class="form-group">
           <label for="user">Username</label>
-          <input type="text" id="user" name="user" placeholder="${defaultUser || 'root'}" value="${defaultUser || ''}">
+          <input type="text" id="user" name="user" placeholder="${fleetUser || 'root'}" value="${defaultUser || ''}">
           <div class="field-error" id="user-error"></div>
         </div>
         <div class="form-group">
@@ -524,8 +645,38 @@ export class AddVesselWebview {
             <option value="">None (use system default)</option>
             ${keyOptions}
           </select>
+          <button type="button" class="link-btn" id="generateKeyBtn">+ Generate new key...</button>
         </div>
       </div>
+      <div class="form-row">
+        <div class="form-group">
+          <label for="identitiesOnly">Only offer this identity file (IdentitiesOnly)</label>
+          <select id="identitiesOnly" name="identitiesOnly">${agentOptions(editing?.identitiesOnly)}</select>
+        </div>
+        <div class="form-group">
+          <label for="forwardAgent">Forward ssh-agent (ForwardAgent) - only for trusted hosts</label>
+          <select id="forwardAgent" name="forwardAgent">${agentOptions(editing?.forwardAgent)}</select>
+        </div>
+      </div>
+    </div>
+
+    <div class="form-section">
+      <div class="section-title">Credentials</div>
+      <div class="form-row">
+        <div class="form-group">
+          <label for="password">Password</label>
+          <input type="password" id="password" name="password" autocomplete="off" placeholder="Not stored">
+        </div>
+        <div class="form-group">
+          <label for="passphrase">Key Passphrase</label>
+          <input type="password" id="passphrase" name="passphrase" autocomplete="off" placeholder="Not stored">
+        </div>
+      </div>
+      <div class="hint">Kept in VS Code's secret storage, never in harbor.json or exports. Open SSH Terminal uses them to answer ssh's prompts.</div>
+      <div class="checkbox-group" id="forgetCredentialsGroup" style="display: none;">
+        <input type="checkbox" id="forgetCredentials" name="forgetCredentials">
+        <label for="forgetCredentials">Forget the stored password and passphrase</label>
+      </div>
     </div>
 
     <div class="form-section">
@@ -533,23 +684,23 @@ export class AddVesselWebview {
       <div class="form-row">
         <div class="form-group">
           <label for="name">Display Name</label>
-          <input type="text" id="name" name="name" placeholder="My Server">
+          <input type="text" id="name" name="name" placeholder="My Server" value="${values.name}">
           <div class="field-error" id="name-error"></div>
         </div>
         <div class="form-group">
           <label for="tags">Tags</label>
-          <input type="text" id="tags" name="tags" placeholder="web, nginx, prod">
+          <input type="text" id="tags" name="tags" placeholder="web, nginx, prod" value="${values.tags}">
         </div>
       </div>
       <div class="form-row full">
         <div class="form-group">
           <label for="notes">Notes</label>
-          <textarea id="notes" name="notes" placeholder="Optional notes about this server..."></textarea>
+          <textarea id="notes" name="notes" placeholder="Optional notes about this server...">${values.notes}</textarea>
         </div>
       </div>
       <div class="checkbox-group">
-        <input type="checkbox" id="favorite" name="favorite">
-        <label for="favorite">⭐ Add to favorites</label>
+        <input type="checkbox" id="favorite" name="favorite" ${values.favorite}>
+        <label for="favorite">⭐ ${editing ? 'Favorite' : 'Add to favorites'}</label>
       </div>
     </div>
 
@@ -567,8 +718,8 @@ export class AddVesselWebview {
         Cancel
       </button>
       <button type="submit" class="btn-primary" id="submitBtn">
-        <span class="btn-icon">🚢</span>
-        Add Vessel
+        <span class="btn-icon">${editing ? '💾' : '🚢'}</span>
+        ${editing ? 'Save Changes' : 'Add Vessel'}
       </button>
     </div>
   </form>
@@ -577,6 +728,7 @@ export class AddVesselWebview {
 
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
+    const editMode = ${editing ? 'true' : 'false'};
 
     // Escape HTML to prevent XSS
     function escapeHtml(text) {
@@ -627,6 +779,27 @@ export class AddVesselWebview {
       if (message.command === 'error') {
         showError(message.message);
       }
+
+      if (message.command === 'credentials') {
+        const stored = 'Stored - leave empty to keep';
+        if (message.password) document.getElementById('password').placeholder = stored;
+        if (message.passphrase) document.getElementById('passphrase').placeholder = stored;
+        if (message.password || message.passphrase) {
+          document.getElementById('forgetCredentialsGroup').style.display = 'flex';
+        }
+      }
+
+      if (message.command === 'keyGenerated') {
+        const select = document.getElementById('identityFile');
+        if (select) {
+          const option = document.createElement('option');
+          option.value = message.path;
+          option.textContent = message.path;
+          select.appendChild(option);
+          select.value = message.path;
+          select.dispatchEvent(new Event('change'));
+        }
+      }
     });
 
     // Initialize when DOM is ready
@@ -650,6 +823,10 @@ export class AddVesselWebview {
         let cmd = 'ssh';
         if (identity) cmd += ' -i ' + identity;
         if (port && port !== '22') cmd += ' -p ' + port;
+        const identitiesOnly = document.getElementById('identitiesOnly')?.value;
+        const forwardAgent = document.getElementById('forwardAgent')?.value;
+        if (identitiesOnly) cmd += ' -o IdentitiesOnly=' + identitiesOnly;
+        if (forwardAgent) cmd += ' -o ForwardAgent=' + forwardAgent;
         cmd += ' ' + user + '@' + host;
 
         if (preview) preview.textContent = cmd;
@@ -669,15 +846,16 @@ export class AddVesselWebview {
           const fleetUser = selected.dataset.user;
           const fleetPort = selected.dataset.port;
 
-          if (identitySelect) {
+          // When editing, keep the vessel's own key; inherited values are only placeholders
+          if (identitySelect && !editMode) {
             identitySelect.value = fleetIdentity || '';
           }
 
-          if (fleetUser && userInput && !userInput.value) {
-            userInput.placeholder = fleetUser;
+          if (userInput) {
+            userInput.placeholder = fleetUser || 'root';
           }
 
-          if (fleetPort && portInput && !portInput.value) {
+          if (portInput) {
             portInput.placeholder = fleetPort || '22';
           }
 
@@ -698,6 +876,15 @@ export class AddVesselWebview {
         identitySelect.addEventListener('change', updatePreview);
       }
 
+      ['forwardAgent', 'identitiesOnly'].forEach(field => {
+        document.getElementById(field)?.addEventListener('change', updatePreview);
+      });
+
+      const generateKeyBtn = document.getElementById('generateKeyBtn');
+      if (generateKeyBtn) {
+        generateKeyBtn.addEventListener('click', () => vscode.postMessage({ command: 'generateKey' }));
+      }
+
       // Form submit
       if (form) {
         form.addEventListener('submit', (e) => {
@@ -710,9 +897,14 @@ export class AddVesselWebview {
             user: document.getElementById('user')?.value || '',
             port: document.getElementById('port')?.value || '',
             identityFile: document.getElementById('identityFile')?.value || '',
+            forwardAgent: document.getElementById('forwardAgent')?.value || '',
+            identitiesOnly: document.getElementById('identitiesOnly')?.value || '',
             tags: document.getElementById('tags')?.value || '',
             favorite: document.getElementById('favorite')?.checked || false,
             notes: document.getElementById('notes')?.value || '',
+            password: document.getElementById('password')?.value || '',
+            passphrase: document.getElementById('passphrase')?.value || '',
+            forgetCredentials: document.getElementById('forgetCredentials')?.checked || false,
           };
 
           vscode.postMessage({ command: 'save', data });
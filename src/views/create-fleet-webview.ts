@@ -1,75 +1,71 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
 import { ConfigManager } from '../core/config';
-import { Fleet } from '../types';
+import { Fleet, FleetDefaults } from '../types';
 import { isValidFleetName } from '../core/security';
-
-// Available VS Code icons for fleets
-const FLEET_ICONS = [
-  { id: 'server', label: 'Server', emoji: '🖥️' },
-  { id: 'cloud', label: 'Cloud', emoji: '☁️' },
-  { id: 'database', label: 'Database', emoji: '🗄️' },
-  { id: 'globe', label: 'Globe', emoji: '🌐' },
-  { id: 'home', label: 'Home', emoji: '🏠' },
-  { id: 'shield', label: 'Shield', emoji: '🛡️' },
-  { id: 'beaker', label: 'Beaker', emoji: '🧪' },
-  { id: 'rocket', label: 'Rocket', emoji: '🚀' },
-  { id: 'package', label: 'Package', emoji: '📦' },
-  { id: 'organization', label: 'Organization', emoji: '🏢' },
-  { id: 'plug', label: 'Plug', emoji: '🔌' },
-  { id: 'radio-tower', label: 'Radio Tower', emoji: '📡' },
-  { id: 'layers', label: 'Layers', emoji: '📚' },
-  { id: 'terminal', label: 'Terminal', emoji: '💻' },
-  { id: 'tools', label: 'Tools', emoji: '🔧' },
-  { id: 'lock', label: 'Lock', emoji: '🔒' },
-];
+import { generateId } from '../core/ids';
+import { listSSHKeys } from '../core/keys';
+import { resolveConnectionInfo } from '../core/resolve';
+import { FLEET_COLORS } from '../core/colors';
+import { FLEET_ICONS } from '../core/icons';
+
+/**
+ * How a vessel's resolved settings change with new fleet defaults
+ */
+interface CascadePreviewRow {
+  name: string;
+  before: { user: string; port: number; identityFile: string };
+  after: { user: string; port: number; identityFile: string };
+}
 
 export class CreateFleetWebview {
   private panel: vscode.WebviewPanel | undefined;
 
+  /** Id of the fleet being edited (undefined when creating) */
+  private editingFleetId: string | undefined;
+
   constructor(
     private context: vscode.ExtensionContext,
     private configManager: ConfigManager
   ) {}
 
   /**
-   * Get available SSH keys from ~/.ssh/
+   * Open the form to create a fleet
    */
-  private getSSHKeys(): string[] {
-    const sshDir = path.join(os.homedir(), '.ssh');
-    const keys: string[] = [];
-
-    try {
-      if (fs.existsSync(sshDir)) {
-        const files = fs.readdirSync(sshDir);
-        for (const file of files) {
-          // Look for private keys (files without .pub extension that have a .pub counterpart)
-          if (!file.endsWith('.pub') && !file.startsWith('.') && !file.includes('known_hosts') && !file.includes('config') && !file.includes('authorized')) {
-            const pubFile = file + '.pub';
-            if (files.includes(pubFile)) {
-              keys.push(`~/.ssh/${file}`);
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error('SSHarbor: Error reading SSH keys:', error);
+  show(): void {
+    if (this.panel && !this.editingFleetId) {
+      this.panel.reveal();
+      return;
     }
 
-    return keys;
+    this.open();
   }
 
-  show(): void {
-    if (this.panel) {
+  /**
+   * Open the form pre-filled with an existing fleet
+   */
+  showEdit(fleetId: string): void {
+    if (this.panel && this.editingFleetId === fleetId) {
       this.panel.reveal();
       return;
     }
 
+    const fleet = this.configManager.loadConfig().fleets.find((f) => f.id === fleetId);
+    if (!fleet) {
+      vscode.window.showErrorMessage('SSHarbor: Fleet not found in harbor.json');
+      return;
+    }
+
+    this.open(fleet);
+  }
+
+  private open(editing?: Fleet): void {
+    // Switching between create/edit (or to another fleet) starts a fresh form
+    this.panel?.dispose();
+    this.editingFleetId = editing?.id;
+
     this.panel = vscode.window.createWebviewPanel(
       'ssharbor.createFleet',
-      'Create Fleet',
+      editing ? `Edit Fleet: ${editing.name}` : 'Create Fleet',
       vscode.ViewColumn.One,
       {
         enableScripts: true,
@@ -77,8 +73,8 @@ export class CreateFleetWebview {
       }
     );
 
-    const sshKeys = this.getSSHKeys();
-    this.panel.webview.html = this.getHtml(sshKeys);
+    const sshKeys = listSSHKeys();
+    this.panel.webview.html = this.getHtml(sshKeys, editing);
 
     this.panel.webview.onDidReceiveMessage(
       async (message) => {
@@ -92,19 +88,90 @@ export class CreateFleetWebview {
           case 'validate':
             this.validateField(message.field, message.value);
             break;
+          case 'preview':
+            this.sendCascadePreview(message.data);
+            break;
         }
       },
       undefined,
       this.context.subscriptions
     );
 
-    this.panel.onDidDispose(() => {
-      this.panel = undefined;
+    const panel = this.panel;
+    panel.onDidDispose(() => {
+      // A replaced panel must not clear the state of its successor
+      if (this.panel === panel) {
+        this.panel = undefined;
+        this.editingFleetId = undefined;
+      }
     });
   }
 
+  /**
+   * Build fleet defaults from the form, keeping defaults the form does not
+   * cover (shell, jump hosts, ssh options) from the existing fleet
+   */
+  private buildDefaults(data: any, existing?: FleetDefaults): FleetDefaults | undefined {
+    const { defaultUser, defaultPort, defaultIdentityFile } = data;
+    const defaults: FleetDefaults = { ...existing };
+
+    delete defaults.user;
+    delete defaults.port;
+    delete defaults.identityFile;
+
+    if (defaultUser) {
+      defaults.user = defaultUser;
+    }
+    if (defaultPort) {
+      defaults.port = parseInt(defaultPort, 10);
+    }
+    if (defaultIdentityFile) {
+      defaults.identityFile = defaultIdentityFile;
+    }
+
+    // Remove empty defaults
+    return Object.keys(defaults).length > 0 ? defaults : undefined;
+  }
+
+  /**
+   * Send how each vessel's resolved user/port/key changes with the form's defaults
+   */
+  private sendCascadePreview(data: any): void {
+    if (!this.editingFleetId) {
+      return;
+    }
+
+    let rows: CascadePreviewRow[];
+    try {
+      const config = this.configManager.loadConfig();
+      const settings = this.configManager.getSettings();
+      const harborDefaults = config.defaults || {};
+      const fleet = config.fleets.find((f) => f.id === this.editingFleetId);
+      if (!fleet) {
+        return;
+      }
+
+      const updated: Fleet = { ...fleet, defaults: this.buildDefaults(data, fleet.defaults) };
+      const summarize = (f: Fleet, index: number) => {
+        const info = resolveConnectionInfo(f.vessels[index], f, harborDefaults, settings, config.fleets);
+        return { user: info.user, port: info.port, identityFile: info.identityFile || '' };
+      };
+
+      rows = fleet.vessels.map((vessel, index) => ({
+        name: vessel.name || vessel.host,
+        before: summarize(fleet, index),
+        after: summarize(updated, index),
+      }));
+    } catch (error) {
+      console.error('SSHarbor: Error building fleet preview:', error);
+      return;
+    }
+
+    this.panel?.webview.postMessage({ command: 'preview', rows });
+  }
+
   private async saveFleet(data: any): Promise<void> {
-    const { name, icon, defaultUser, defaultPort, defaultIdentityFile } = data;
+    const { name, icon, color } = data;
 
     if (!name) {
       this.sendError('Fleet name is required');
@@ -116,35 +183,53 @@ export class CreateFleetWebview {
       return;
     }
 
+    if (color && !/^#[0-9a-fA-F]{6}$/.test(color)) {
+      this.sendError('Invalid fleet color');
+      return;
+    }
+
     // Check if fleet already exists
     const config = this.configManager.loadConfig();
-    if (config.fleets.some(f => f.name.toLowerCase() === name.toLowerCase())) {
+    if (this.isNameTaken(config.fleets, name)) {
       this.sendError('A fleet with this name already exists');
       return;
     }
 
+    const existing = config.fleets.find((f) => f.id === this.editingFleetId);
+    if (this.editingFleetId) {
+      if (!existing) {
+        this.sendError('Fleet no longer exists in harbor.json');
+        return;
+      }
+
+      try {
+        this.configManager.updateFleet(existing.id, {
+          name,
+          icon: icon || existing.icon,
+          color: color || undefined,
+          defaults: this.buildDefaults(data, existing.defaults),
+        });
+        vscode.window.showInformationMessage(
+          existing.name === name
+            ? `Fleet "${name}" updated`
+            : `Fleet "${existing.name}" renamed to "${name}"`
+        );
+        this.panel?.dispose();
+      } catch (error) {
+        this.sendError(`Failed to update fleet: ${error}`);
+      }
+      return;
+    }
+
     const fleet: Fleet = {
+      id: generateId(),
       name,
       icon: icon || 'folder',
+      color: color || undefined,
       vessels: [],
-      defaults: {},
+      defaults: this.buildDefaults(data),
     };
 
-    if (defaultUser) {
-      fleet.defaults!.user = defaultUser;
-    }
-    if (defaultPort) {
-      fleet.defaults!.port = parseInt(defaultPort, 10);
-    }
-    if (defaultIdentityFile) {
-      fleet.defaults!.identityFile = defaultIdentityFile;
-    }
-
-    // Remove empty defaults
-    if (Object.keys(fleet.defaults!).length === 0) {
-      delete fleet.defaults;
-    }
-
     try {
       this.configManager.addFleet(fleet);
       vscode.window.showInformationMessage(`Fleet "${name}" created successfully!`);
@@ -168,7 +253,7 @@ export class CreateFleetWebview {
           message = 'Use letters, numbers, spaces, hyphens, or underscores';
         } else {
           const config = this.configManager.loadConfig();
-          if (config.fleets.some(f => f.name.toLowerCase() === value.toLowerCase())) {
+          if (this.isNameTaken(config.fleets, value)) {
             valid = false;
             message = 'Fleet already exists';
           }
@@ -184,6 +269,15 @@ export class CreateFleetWebview {
     });
   }
 
+  /**
+   * Whether another fleet (not the one being edited) already uses the name
+   */
+  private isNameTaken(fleets: Fleet[], name: string): boolean {
+    return fleets.some(
+      (f) => f.id !== this.editingFleetId && f.name.toLowerCase() === name.toLowerCase()
+    );
+  }
+
   private sendError(message: string): void {
     this.panel?.webview.postMessage({
       command: 'error',
@@ -215,23 +309,41 @@ export class CreateFleetWebview {
     return text;
   }
 
-  private getHtml(sshKeys: string[]): string {
+  private getHtml(sshKeys: string[], editing?: Fleet): string {
     const nonce = this.getNonce();
+    const selectedIcon = editing ? editing.icon || 'folder' : FLEET_ICONS[0].id;
+    const selectedColor = editing?.color || '';
+    const defaults = editing?.defaults || {};
 
     // FLEET_ICONS are hardcoded constants, but escape for safety
     const iconOptions = FLEET_ICONS
       .map(i => `
-        <button type="button" class="icon-btn" data-icon="${this.escapeHtml(i.id)}" title="${this.escapeHtml(i.label)}">
+        <button type="button" class="icon-btn ${i.id === selectedIcon ? 'selected' : ''}" data-icon="${this.escapeHtml(i.id)}" title="${this.escapeHtml(i.label)}">
           <span class="icon-emoji">${i.emoji}</span>
         </button>
       `)
       .join('');
 
+    const colorOptions = [{ hex: '', label: 'No color' }, ...FLEET_COLORS]
+      .map(c => `
+        <button type="button" class="color-btn ${c.hex.toLowerCase() === selectedColor.toLowerCase() ? 'selected' : ''}" data-color="${this.escapeHtml(c.hex)}" title="${this.escapeHtml(c.label)}">
+          <span class="color-swatch ${c.hex ? '' : 'none'}" style="background: ${this.escapeHtml(c.hex || 'transparent')};"></span>
+        </button>
+      `)
+      .join('');
+
+    // Keep the fleet's key selectable even if it is not in ~/.ssh
+    if (defaults.identityFile && !sshKeys.includes(defaults.identityFile)) {
+      sshKeys = [defaults.identityFile, ...sshKeys];
+    }
+
     // SSH keys are from local filesystem, but still escape for safety
     const keyOptions = sshKeys
-      .map(k => `<option value="${this.escapeHtml(k)}">${this.escapeHtml(k)}</option>`)
+      .map(k => `<option value="${this.escapeHtml(k)}" ${k === defaults.identityFile ? 'selected' : ''}>${this.escapeHtml(k)}</option>`)
       .join('');
 
+    const vesselCount = editing?.vessels.length || 0;
+
     return /*html*/ `
 <!DOCTYPE html>
 <html lang="en">
@@ -239,7 +351,7 @@ export class CreateFleetWebview {
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
-  <title>Create Fleet</title>
+  <title>${editing ? 'Edit Fleet' : 'Create Fleet'}</title>
   <style>
     :root {
       --bg: var(--vscode-editor-background);
@@ -389,6 +501,68 @@ export class CreateFleetWebview {
       font-size: 20px;
     }
 
+    .color-picker {
+      display: grid;
+      grid-template-columns: repeat(9, 1fr);
+      gap: 10px;
+    }
+
+    .color-btn {
+      width: 40px;
+      height: 40px;
+      border: 2px solid var(--input-border);
+      border-radius: var(--border-radius);
+      background: var(--input-bg);
+      cursor: pointer;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      transition: all 0.2s;
+    }
+
+    .color-btn:hover {
+      transform: scale(1.1);
+    }
+
+    .color-btn.selected {
+      border-color: var(--button-bg);
+      box-shadow: 0 0 0 2px var(--button-bg);
+    }
+
+    .color-swatch {
+      width: 22px;
+      height: 22px;
+      border-radius: 50%;
+    }
+
+    .color-swatch.none {
+      border: 2px dashed var(--input-border);
+    }
+
+    .cascade-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 13px;
+    }
+
+    .cascade-table th,
+    .cascade-table td {
+      text-align: left;
+      padding: 6px 8px;
+      border-bottom: 1px solid var(--input-border);
+      font-family: var(--vscode-editor-font-family);
+    }
+
+    .cascade-table th {
+      font-family: var(--vscode-font-family);
+      font-weight: 500;
+      opacity: 0.6;
+    }
+
+    .cascade-table .changed {
+      color: var(--vscode-charts-orange);
+    }
+
     .defaults-grid {
       display: grid;
       grid-template-columns: 1fr 1fr;
@@ -515,8 +689,8 @@ export class CreateFleetWebview {
 <body>
   <div class="header">
     <span class="header-icon">⚓</span>
-    <h1>Create New Fleet</h1>
-    <p>Organize your vessels into a fleet</p>
+    <h1>${editing ? 'Edit Fleet' : 'Create New Fleet'}</h1>
+    <p>${editing ? `Update ${this.escapeHtml(editing.name)} and its defaults` : 'Organize your vessels into a fleet'}</p>
   </div>
 
   <form id="fleetForm">
@@ -524,7 +698,7 @@ export class CreateFleetWebview {
       <div class="section-title">Fleet Info</div>
       <div class="form-group">
         <label for="name">Fleet Name <span class="required">*</span></label>
-        <input type="text" id="name" name="name" placeholder="e.g., Production, Development, AWS" required autofocus>
+        <input type="text" id="name" name="name" placeholder="e.g., Production, Development, AWS" value="${this.escapeHtml(editing?.name || '')}" required autofocus>
         <div class="field-error" id="name-error"></div>
       </div>
 
@@ -533,7 +707,15 @@ export class CreateFleetWebview {
         <div class="icon-picker">
           ${iconOptions}
         </div>
-        <input type="hidden" id="icon" name="icon" value="server">
+        <input type="hidden" id="icon" name="icon" value="${this.escapeHtml(selectedIcon)}">
+      </div>
+
+      <div class="form-group">
+        <label>Color</label>
+        <div class="color-picker">
+          ${colorOptions}
+        </div>
+        <input type="hidden" id="color" name="color" value="${this.escapeHtml(selectedColor)}">
       </div>
     </div>
 
@@ -544,11 +726,11 @@ export class CreateFleetWebview {
       <div class="defaults-grid">
         <div class="form-group">
           <label for="defaultUser">Default User</label>
-          <input type="text" id="defaultUser" name="defaultUser" placeholder="root">
+          <input type="text" id="defaultUser" name="defaultUser" placeholder="root" value="${this.escapeHtml(defaults.user || '')}">
         </div>
         <div class="form-group">
           <label for="defaultPort">Default Port</label>
-          <input type="text" id="defaultPort" name="defaultPort" placeholder="22">
+          <input type="text" id="defaultPort" name="defaultPort" placeholder="22" value="${defaults.port || ''}">
         </div>
         <div class="form-group full">
           <label for="defaultIdentityFile">Default Identity File</label>
@@ -560,11 +742,22 @@ export class CreateFleetWebview {
       </div>
     </div>
 
+    ${editing && vesselCount > 0 ? `
+    <div class="form-section">
+      <div class="section-title">Vessel Preview</div>
+      <p class="description">How each vessel connects with these defaults. Changes are highlighted.</p>
+      <table class="cascade-table">
+        <thead><tr><th>Vessel</th><th>User</th><th>Port</th><th>Key</th></tr></thead>
+        <tbody id="cascadeRows"></tbody>
+      </table>
+    </div>
+    ` : ''}
+
     <div class="preview-card">
       <span class="preview-icon" id="previewIcon">🖥️</span>
       <div>
-        <div class="preview-name" id="previewName">New Fleet</div>
-        <div class="preview-meta">0 vessels</div>
+        <div class="preview-name" id="previewName">${this.escapeHtml(editing?.name || 'New Fleet')}</div>
+        <div class="preview-meta">${vesselCount} vessel${vesselCount === 1 ? '' : 's'}</div>
       </div>
     </div>
 
@@ -574,8 +767,8 @@ export class CreateFleetWebview {
         Cancel
       </button>
       <button type="submit" class="btn-primary">
-        <span class="btn-icon">⚓</span>
-        Create Fleet
+        <span class="btn-icon">${editing ? '💾' : '⚓'}</span>
+        ${editing ? 'Save Changes' : 'Create Fleet'}
       </button>
     </div>
   </form>
@@ -585,6 +778,7 @@ export class CreateFleetWebview {
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
     const icons = ${JSON.stringify(FLEET_ICONS)};
+    const editMode = ${editing ? 'true' : 'false'};
 
     // Escape HTML to prevent XSS
     function escapeHtml(text) {
@@ -635,8 +829,50 @@ export class CreateFleetWebview {
       if (message.command === 'error') {
         showError(message.message);
       }
+
+      if (message.command === 'preview') {
+        renderCascade(message.rows);
+      }
     });
 
+    function getFormData() {
+      return {
+        name: document.getElementById('name')?.value || '',
+        icon: document.getElementById('icon')?.value || '',
+        color: document.getElementById('color')?.value || '',
+        defaultUser: document.getElementById('defaultUser')?.value || '',
+        defaultPort: document.getElementById('defaultPort')?.value || '',
+        defaultIdentityFile: document.getElementById('defaultIdentityFile')?.value || '',
+      };
+    }
+
+    function requestPreview() {
+      if (editMode) {
+        vscode.postMessage({ command: 'preview', data: getFormData() });
+      }
+    }
+
+    function cascadeCell(before, after) {
+      const b = escapeHtml(String(before || '—'));
+      const a = escapeHtml(String(after || '—'));
+      return before === after
+        ? '<td>' + a + '</td>'
+        : '<td class="changed">' + b + ' → ' + a + '</td>';
+    }
+
+    function renderCascade(rows) {
+      const body = document.getElementById('cascadeRows');
+      if (!body) return;
+
+      body.innerHTML = rows.map(r =>
+        '<tr><td>' + escapeHtml(r.name) + '</td>' +
+        cascadeCell(r.before.user, r.after.user) +
+        cascadeCell(r.before.port, r.after.port) +
+        cascadeCell(r.before.identityFile, r.after.identityFile) +
+        '</tr>'
+      ).join('');
+    }
+
     // Initialize when DOM is ready
     function init() {
       const form = document.getElementById('fleetForm');
@@ -646,9 +882,30 @@ export class CreateFleetWebview {
       const previewName = document.getElementById('previewName');
       const cancelBtn = document.getElementById('cancelBtn');
 
-      // Select first icon by default
-      const firstIconBtn = document.querySelector('.icon-btn');
-      if (firstIconBtn) firstIconBtn.classList.add('selected');
+      const colorInput = document.getElementById('color');
+
+      // Show the current icon in the preview
+      const currentIcon = icons.find(i => i.id === iconInput?.value);
+      if (previewIcon) previewIcon.textContent = currentIcon ? currentIcon.emoji : '📁';
+
+      // Color selection
+      document.querySelectorAll('.color-btn').forEach(btn => {
+        btn.addEventListener('click', () => {
+          document.querySelectorAll('.color-btn').forEach(b => b.classList.remove('selected'));
+          btn.classList.add('selected');
+          if (colorInput) colorInput.value = btn.dataset.color || '';
+        });
+      });
+
+      // Refresh the vessel preview when defaults change
+      ['defaultUser', 'defaultPort', 'defaultIdentityFile'].forEach(id => {
+        const el = document.getElementById(id);
+        if (el) {
+          el.addEventListener('input', requestPreview);
+          el.addEventListener('change', requestPreview);
+        }
+      });
+      requestPreview();
 
       // Icon selection
       document.querySelectorAll('.icon-btn').forEach(btn => {
@@ -676,15 +933,7 @@ export class CreateFleetWebview {
         form.addEventListener('submit', (e) => {
           e.preventDefault();
 
-          const data = {
-            name: document.getElementById('name')?.value || '',
-            icon: document.getElementById('icon')?.value || '',
-            defaultUser: document.getElementById('defaultUser')?.value || '',
-            defaultPort: document.getElementById('defaultPort')?.value || '',
-            defaultIdentityFile: document.getElementById('defaultIdentityFile')?.value || '',
-          };
-
-          vscode.postMessage({ command: 'save', data });
+          vscode.postMessage({ command: 'save', data: getFormData() });
         });
       }
 
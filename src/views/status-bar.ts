@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { SSHConnectionInfo, RecentConnection } from '../types';
 import { ConfigManager } from '../core/config';
+import { getFleetThemeColorId, getFleetStatusBarBackground } from '../core/colors';
 
 /**
  * Status bar manager for SSHarbor
@@ -8,6 +9,11 @@ import { ConfigManager } from '../core/config';
 export class StatusBarManager {
   private statusBarItem: vscode.StatusBarItem;
   private lastConnection: RecentConnection | null = null;
+  /** Vessel this remote window is connected to (SSHarbor aliases only) */
+  private remoteVessel: SSHConnectionInfo | undefined;
+  /** Why the remote vessel is protected by the harbor policy, if it is */
+  private remoteProtection: string | undefined;
+  private disposables: vscode.Disposable[] = [];
 
   constructor(private configManager: ConfigManager) {
     this.statusBarItem = vscode.window.createStatusBarItem(
@@ -20,9 +26,48 @@ export class StatusBarManager {
 
     // Initialize with last connection
     this.lastConnection = configManager.getLastConnection();
+    this.refreshRemoteVessel();
+
+    // Fleet color, name or policy may change while connected
+    this.disposables.push(
+      configManager.onConfigChange(() => this.refreshRemoteVessel()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refreshRemoteVessel())
+    );
+  }
+
+  /**
+   * Look up the vessel of this remote window and its protection again
+   */
+  private refreshRemoteVessel(): void {
+    this.remoteVessel = this.findRemoteVessel();
+    this.remoteProtection = undefined;
+
+    if (this.remoteVessel) {
+      try {
+        this.remoteProtection = this.configManager.checkProtection(this.remoteVessel);
+      } catch (error) {
+        console.error('SSHarbor: Error checking policy:', error);
+      }
+    }
+
     this.updateStatusBar();
   }
 
+  /**
+   * Find the vessel behind the current Remote SSH window, if SSHarbor opened it
+   */
+  private findRemoteVessel(): SSHConnectionInfo | undefined {
+    const uri = vscode.workspace.workspaceFolders?.[0]?.uri;
+    if (!uri || uri.scheme !== 'vscode-remote' || !uri.authority.startsWith('ssh-remote+')) {
+      return undefined;
+    }
+
+    const sshHost = uri.authority.replace('ssh-remote+', '');
+    return sshHost.startsWith('SSHarbor_')
+      ? this.configManager.findConnectionInfoByAlias(sshHost)
+      : undefined;
+  }
+
   /**
    * Update status bar with connection info
    */
@@ -32,6 +77,7 @@ export class StatusBarManager {
       user: info.user,
       port: info.port,
       identityFile: info.identityFile,
+      jumpHosts: info.jumpHosts,
       timestamp: Date.now(),
       fleetName: info.fleetName,
       vesselName: info.name,
@@ -44,6 +90,14 @@ export class StatusBarManager {
    * Update status bar display
    */
   private updateStatusBar(): void {
+    if (this.remoteVessel) {
+      this.showRemoteVessel(this.remoteVessel);
+      return;
+    }
+
+    this.statusBarItem.backgroundColor = undefined;
+    this.statusBarItem.color = undefined;
+
     if (!this.lastConnection) {
       this.statusBarItem.hide();
       return;
@@ -63,6 +117,34 @@ export class StatusBarManager {
     this.statusBarItem.show();
   }
 
+  /**
+   * Show the vessel of this remote window, colored by its fleet
+   * Status bar items only support the error/warning backgrounds, so other
+   * fleet colors are applied to the text. Protected vessels always get the
+   * error background.
+   */
+  private showRemoteVessel(info: SSHConnectionInfo): void {
+    const background = this.remoteProtection
+      ? 'statusBarItem.errorBackground'
+      : getFleetStatusBarBackground(info.fleetColor);
+    const foreground = getFleetThemeColorId(info.fleetColor);
+
+    this.statusBarItem.backgroundColor = background ? new vscode.ThemeColor(background) : undefined;
+    this.statusBarItem.color = !background && foreground ? new vscode.ThemeColor(foreground) : undefined;
+
+    this.statusBarItem.text = this.remoteProtection
+      ? `$(warning) PROTECTED ${info.fleetName} / ${info.name}`
+      : `$(remote) ${info.fleetName} / ${info.name}`;
+    this.statusBarItem.tooltip = new vscode.MarkdownString(
+      `**SSHarbor - Connected**\n\n` +
+        (this.remoteProtection ? `⚠️ Protected by ${this.remoteProtection}\n\n` : '') +
+        `Fleet: ${info.fleetName}\n\n` +
+        `\`${info.user}@${info.host}\``
+    );
+
+    this.statusBarItem.show();
+  }
+
   /**
    * Format timestamp to relative time
    */
@@ -79,7 +161,7 @@ export class StatusBarManager {
    * Show status bar
    */
   show(): void {
-    if (this.lastConnection) {
+    if (this.lastConnection || this.remoteVessel) {
       this.statusBarItem.show();
     }
   }
@@ -95,6 +177,7 @@ export class StatusBarManager {
    * Dispose
    */
   dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
     this.statusBarItem.dispose();
   }
 }
@@ -1,6 +1,20 @@
 import * as vscode from 'vscode';
-import { SSHConnectionInfo } from '../types';
+import { HostKeyReport, SSHConnectionInfo } from '../types';
 import { ConfigManager } from '../core/config';
+import { TunnelManager } from '../core/tunnels';
+import { HealthMonitor } from '../core/health';
+import { describeForward, buildConnectionId } from '../core/ssh';
+import { normalizeFingerprint } from '../core/host-keys';
+import { getAgentStatus, isIdentityLoaded } from '../core/agent';
+
+/**
+ * ssh-agent state of a vessel's identity file, as shown in the Key row
+ */
+interface AgentKeyStatus {
+  available: boolean;
+  loaded: boolean;
+  error?: string;
+}
 
 export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'ssharbor.vesselDetail';
@@ -8,6 +22,12 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
   private _currentVessel?: SSHConnectionInfo;
   private _configManager?: ConfigManager;
+  private _tunnelManager?: TunnelManager;
+  private _healthMonitor?: HealthMonitor;
+  /** Last host key scan, kept while its vessel stays selected */
+  private _hostKeys?: { connectionKey: string; report: HostKeyReport };
+  /** Whether the current vessel's key is in ssh-agent, from the last ssh-add -l */
+  private _agentKey?: { connectionKey: string; identityFile: string; status: AgentKeyStatus };
 
   constructor(private readonly _extensionUri: vscode.Uri) {}
 
@@ -15,6 +35,18 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
     this._configManager = configManager;
   }
 
+  public setTunnelManager(tunnelManager: TunnelManager): void {
+    this._tunnelManager = tunnelManager;
+    // Keep the active tunnels list current
+    tunnelManager.onDidChange(() => this.refresh());
+  }
+
+  public setHealthMonitor(healthMonitor: HealthMonitor): void {
+    this._healthMonitor = healthMonitor;
+    // Keep the status line current
+    healthMonitor.onDidChange(() => this.refresh());
+  }
+
   public resolveWebviewView(
     webviewView: vscode.WebviewView,
     _context: vscode.WebviewViewResolveContext,
@@ -51,9 +83,72 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
         case 'favorite':
           vscode.commands.executeCommand('ssharbor.toggleFavorite', { connectionInfo: this._currentVessel });
           break;
+        case 'edit':
+          vscode.commands.executeCommand('ssharbor.editVessel', { connectionInfo: this._currentVessel });
+          break;
+        case 'scanHostKeys': {
+          const vessel = this._currentVessel;
+          vscode.commands
+            .executeCommand<HostKeyReport | undefined>('ssharbor.scanHostKeys', vessel, { quiet: true })
+            .then((report) => {
+              if (report) {
+                this._hostKeys = { connectionKey: this._getConnectionKey(vessel), report };
+              }
+              this.refresh();
+            });
+          break;
+        }
+        case 'pinHostKey': {
+          const vessel = this._currentVessel;
+          vscode.commands
+            .executeCommand<boolean>('ssharbor.pinHostKey', vessel, message.fingerprint)
+            .then((pinned) => {
+              if (!pinned || this._currentVessel !== vessel) return;
+
+              // harbor.json changed, but the selected vessel is a snapshot - update it in place
+              const fingerprint = normalizeFingerprint(message.fingerprint);
+              this._currentVessel = { ...vessel, hostKeyFingerprint: fingerprint };
+              if (this._hostKeys) {
+                const report = this._hostKeys.report;
+                report.pin = report.keys.some((k) => k.fingerprint === fingerprint) ? 'match' : 'mismatch';
+              }
+              this.refresh();
+            });
+          break;
+        }
+        case 'removeKnownHost':
+          vscode.commands.executeCommand('ssharbor.removeKnownHost', this._currentVessel).then(() => {
+            // known_hosts may have changed - the last comparison no longer holds
+            this._hostKeys = undefined;
+            this.refresh();
+          });
+          break;
+        case 'addToAgent':
+          vscode.commands
+            .executeCommand('ssharbor.addKeyToAgent', this._currentVessel)
+            .then(() => this.refresh());
+          break;
+        case 'forgetCredentials':
+          vscode.commands
+            .executeCommand('ssharbor.forgetCredentials', this._currentVessel)
+            .then(() => this.refresh());
+          break;
+        case 'detectHome':
+          vscode.commands
+            .executeCommand('ssharbor.detectRemoteHome', this._currentVessel)
+            .then(() => this.refresh());
+          break;
         case 'remove':
           vscode.commands.executeCommand('ssharbor.removeVessel', { connectionInfo: this._currentVessel });
           break;
+        case 'startTunnel':
+          vscode.commands.executeCommand('ssharbor.startTunnel', this._currentVessel);
+          break;
+        case 'stopTunnel':
+          if (message.id) {
+            vscode.commands.executeCommand('ssharbor.stopTunnel', message.id);
+          }
+          break;
         case 'openFolder':
           // Open specific folder directly
           vscode.commands.executeCommand('ssharbor.connectToFolder', this._currentVessel, message.path);
@@ -61,12 +156,7 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
         case 'removeFolder':
           // Remove folder from saved paths
           if (this._configManager && message.path) {
-            this._configManager.removeVesselPath(
-              this._currentVessel.host,
-              this._currentVessel.user,
-              this._currentVessel.port,
-              message.path
-            );
+            this._configManager.removeVesselPath(this._currentVessel, message.path);
             // Refresh the panel
             this.updateVessel(this._currentVessel);
           }
@@ -81,21 +171,105 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
     // Get saved paths for this vessel
     let savedPaths: string[] = [];
     if (vessel && this._configManager) {
-      savedPaths = this._configManager.getVesselSavedPaths(vessel.host, vessel.user, vessel.port);
+      savedPaths = this._configManager.getVesselSavedPaths(vessel);
+    }
+
+    // Home directory from harbor.json, else the one detected over SSH
+    let remoteHome: { path: string; source: 'config' | 'detected' } | undefined;
+    if (vessel?.remoteHome) {
+      remoteHome = { path: vessel.remoteHome, source: 'config' };
+    } else if (vessel && this._configManager) {
+      const detected = this._configManager.getDetectedRemoteHome(vessel);
+      remoteHome = detected ? { path: detected, source: 'detected' } : undefined;
     }
 
+    // Host keys from the last scan of this vessel
+    const hostKeys =
+      vessel && this._hostKeys?.connectionKey === this._getConnectionKey(vessel)
+        ? this._hostKeys.report
+        : undefined;
+
+    // Agent status from the last check; re-checked below
+    const agentKey =
+      vessel?.identityFile &&
+      this._agentKey?.connectionKey === this._getConnectionKey(vessel) &&
+      this._agentKey.identityFile === vessel.identityFile
+        ? this._agentKey.status
+        : undefined;
+
+    // Configured forwards and the tunnels currently running for this vessel
+    const forwards = (vessel?.forwards || []).map(describeForward);
+    const tunnels =
+      vessel && this._tunnelManager
+        ? this._tunnelManager.getTunnels(vessel).map((t) => ({
+            id: t.id,
+            label: t.forwards.map(describeForward).join(', '),
+            startedAt: t.startedAt,
+          }))
+        : [];
+
     if (this._view) {
       this._view.webview.postMessage({
         command: 'update',
         vessel: vessel,
         savedPaths: savedPaths,
+        remoteHome: remoteHome,
+        hostKeys: hostKeys,
+        agentKey: agentKey,
+        pinnedFingerprint: vessel?.hostKeyFingerprint
+          ? normalizeFingerprint(vessel.hostKeyFingerprint)
+          : undefined,
+        forwards: forwards,
+        tunnels: tunnels,
+        health: vessel ? this._healthMonitor?.getHealth(vessel) : undefined,
       });
     }
 
+    if (vessel?.identityFile) {
+      this._checkAgent(vessel, vessel.identityFile);
+    }
+    if (vessel) {
+      this._checkCredentials(vessel);
+    }
+
     // Update context for view visibility
     vscode.commands.executeCommand('setContext', 'ssharbor.vesselSelected', !!vessel);
   }
 
+  /**
+   * Show which secrets are stored for the vessel (not the secrets themselves)
+   */
+  private _checkCredentials(vessel: SSHConnectionInfo): void {
+    this._configManager?.getCredentials(vessel).then((stored) => {
+      if (this._view && this._currentVessel === vessel) {
+        this._view.webview.postMessage({
+          command: 'credentials',
+          password: !!stored?.password,
+          passphrase: !!stored?.passphrase,
+        });
+      }
+    });
+  }
+
+  /**
+   * Ask ssh-agent whether the vessel's key is loaded and update the Key row
+   */
+  private _checkAgent(vessel: SSHConnectionInfo, identityFile: string): void {
+    const connectionKey = this._getConnectionKey(vessel);
+
+    getAgentStatus().then((agent) => {
+      const status: AgentKeyStatus = agent.available
+        ? { available: true, loaded: isIdentityLoaded(identityFile, agent.keys) }
+        : { available: false, loaded: false, error: agent.error };
+      this._agentKey = { connectionKey, identityFile, status };
+
+      // The selection may have moved on while ssh-add was running
+      if (this._view && this._currentVessel && this._getConnectionKey(this._currentVessel) === connectionKey) {
+        this._view.webview.postMessage({ command: 'agent', agentKey: status });
+      }
+    });
+  }
+
   /**
    * Refresh the current vessel's data (e.g., when paths change externally)
    */
@@ -105,6 +279,10 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  private _getConnectionKey(vessel: SSHConnectionInfo): string {
+    return vessel.vesselId || buildConnectionId(vessel);
+  }
+
   /**
    * Generate a nonce for CSP
    */
@@ -223,6 +401,20 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
       font-weight: 500;
     }
 
+    .vessel-status {
+      font-size: 11px;
+      color: var(--fg-muted);
+      margin-top: 4px;
+    }
+
+    .vessel-status.up .status-dot {
+      color: var(--success);
+    }
+
+    .vessel-status.down .status-dot {
+      color: var(--danger);
+    }
+
     .vessel-info {
       margin-bottom: 16px;
       background: var(--card-bg);
@@ -263,6 +455,36 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
       font-weight: 500;
     }
 
+    .home-detect {
+      margin-left: 6px;
+      color: var(--fg-muted);
+      cursor: pointer;
+    }
+
+    .home-detect:hover {
+      color: var(--fg);
+    }
+
+    .key-agent {
+      margin-left: 6px;
+      color: var(--fg-muted);
+    }
+
+    .key-agent.loaded {
+      color: var(--success);
+    }
+
+    .inline-action {
+      margin-left: 6px;
+      color: var(--fg-muted);
+      cursor: pointer;
+      text-decoration: underline;
+    }
+
+    .inline-action:hover {
+      color: var(--fg);
+    }
+
     .tags {
       display: flex;
       flex-wrap: wrap;
@@ -363,6 +585,105 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
       background: var(--danger-bg);
     }
 
+    .tunnels {
+      margin-bottom: 18px;
+    }
+
+    .forward-list {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin-bottom: 10px;
+    }
+
+    .forward-item {
+      font-family: var(--vscode-editor-font-family), monospace;
+      font-size: 11px;
+      color: var(--fg-muted);
+    }
+
+    .tunnel-item {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      padding: 8px 12px;
+      margin-top: 6px;
+      background: var(--card-bg);
+      border: 1px solid var(--success);
+      border-radius: var(--border-radius);
+    }
+
+    .tunnel-label {
+      flex: 1;
+      font-size: 11px;
+      font-family: var(--vscode-editor-font-family), monospace;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .tunnel-stop {
+      font-size: 11px;
+      font-weight: 600;
+      color: var(--danger);
+      background: transparent;
+      border: 1px solid rgba(241, 76, 76, 0.4);
+      border-radius: 4px;
+      padding: 3px 8px;
+      cursor: pointer;
+      font-family: inherit;
+    }
+
+    .tunnel-stop:hover {
+      background: var(--danger-bg);
+    }
+
+    .host-keys {
+      margin-bottom: 18px;
+    }
+
+    .host-key-status {
+      font-size: 11px;
+      color: var(--fg-muted);
+      margin-bottom: 8px;
+    }
+
+    .host-key-status .warn {
+      color: var(--warning);
+    }
+
+    .host-key-item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 6px;
+    }
+
+    .host-key-label {
+      flex: 1;
+      min-width: 0;
+      font-family: var(--vscode-editor-font-family), monospace;
+      font-size: 11px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .host-key-pin {
+      font-size: 11px;
+      color: var(--fg-muted);
+      background: transparent;
+      border: 1px solid var(--input-border);
+      border-radius: 4px;
+      padding: 2px 8px;
+      cursor: pointer;
+      font-family: inherit;
+    }
+
+    .host-key-pin:hover {
+      color: var(--fg);
+    }
+
     /* ====== BUTTONS ====== */
     .actions {
       display: flex;
@@ -499,6 +820,7 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
       <div>
         <div class="vessel-name" id="vesselName">Vessel Name</div>
         <div class="vessel-fleet" id="vesselFleet">Fleet Name</div>
+        <div class="vessel-status" id="vesselStatus" style="display: none;"></div>
       </div>
     </div>
 
@@ -515,9 +837,31 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
         <span class="info-label">Port</span>
         <span class="info-value" id="vesselPort">-</span>
       </div>
+      <div class="info-row">
+        <span class="info-label">Shell</span>
+        <span class="info-value" id="vesselShell">-</span>
+      </div>
+      <div class="info-row">
+        <span class="info-label">Home</span>
+        <span class="info-value">
+          <span id="vesselHome">-</span><span class="home-detect" id="btnDetectHome" title="Detect home directory over SSH">↻</span>
+        </span>
+      </div>
       <div class="info-row" id="keyRow" style="display: none;">
         <span class="info-label">Key</span>
-        <span class="info-value" id="vesselKey">-</span>
+        <span class="info-value">
+          <span id="vesselKey">-</span><span class="key-agent" id="keyAgent"></span><span class="inline-action" id="btnAddToAgent" title="Load this key into ssh-agent" style="display: none;">add to agent</span>
+        </span>
+      </div>
+      <div class="info-row" id="credentialsRow" style="display: none;">
+        <span class="info-label">Login</span>
+        <span class="info-value">
+          <span id="vesselCredentials">-</span><span class="inline-action" id="btnForgetCredentials" title="Delete the stored secrets of this vessel">forget</span>
+        </span>
+      </div>
+      <div class="info-row" id="jumpRow" style="display: none;">
+        <span class="info-label">Jump</span>
+        <span class="info-value" id="vesselJump">-</span>
       </div>
     </div>
 
@@ -531,6 +875,38 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
       <div class="saved-paths-list" id="savedPathsList"></div>
     </div>
 
+    <div class="tunnels" id="tunnelsSection" style="display: none;">
+      <div class="saved-paths-header">
+        <span>🔌</span>
+        <span>Tunnels</span>
+      </div>
+      <div class="forward-list" id="forwardList"></div>
+      <button class="action-btn secondary" id="btnTunnel" style="width: 100%;">
+        <span class="icon">🔌</span>
+        Start Tunnel Only
+      </button>
+      <div id="tunnelList"></div>
+    </div>
+
+    <div class="host-keys" id="hostKeysSection">
+      <div class="saved-paths-header">
+        <span>🔑</span>
+        <span>Host Keys</span>
+      </div>
+      <div class="host-key-status" id="hostKeyStatus"></div>
+      <div id="hostKeyList"></div>
+      <div class="action-row">
+        <button class="action-btn secondary" id="btnScanKeys">
+          <span class="icon">🔍</span>
+          Scan
+        </button>
+        <button class="action-btn danger" id="btnRemoveKnownHost" style="display: none;">
+          <span class="icon">🧹</span>
+          Remove Stale Entry
+        </button>
+      </div>
+    </div>
+
     <div class="actions">
       <button class="action-btn primary" id="btnConnect">
         <span class="icon">🚀</span>
@@ -558,26 +934,76 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
           Scuttle
         </button>
       </div>
+
+      <button class="action-btn secondary" id="btnEdit">
+        <span class="icon">✏️</span>
+        Edit Vessel
+      </button>
     </div>
   </div>
 
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
+    // Vessel shown last, to hide rows that belong to the previous one
+    let shownVesselId;
 
     const emptyState = document.getElementById('emptyState');
     const vesselCard = document.getElementById('vesselCard');
     const vesselIcon = document.getElementById('vesselIcon');
     const vesselName = document.getElementById('vesselName');
     const vesselFleet = document.getElementById('vesselFleet');
+    const vesselStatus = document.getElementById('vesselStatus');
     const vesselHost = document.getElementById('vesselHost');
     const vesselUser = document.getElementById('vesselUser');
     const vesselPort = document.getElementById('vesselPort');
+    const vesselShell = document.getElementById('vesselShell');
+    const vesselHome = document.getElementById('vesselHome');
     const vesselKey = document.getElementById('vesselKey');
     const keyRow = document.getElementById('keyRow');
+    const keyAgent = document.getElementById('keyAgent');
+    const credentialsRow = document.getElementById('credentialsRow');
+    const vesselCredentials = document.getElementById('vesselCredentials');
+    const btnAddToAgent = document.getElementById('btnAddToAgent');
+    const vesselJump = document.getElementById('vesselJump');
+    const jumpRow = document.getElementById('jumpRow');
     const tagsContainer = document.getElementById('tagsContainer');
     const favoriteBtn = document.getElementById('favoriteBtn');
     const savedPathsSection = document.getElementById('savedPathsSection');
     const savedPathsList = document.getElementById('savedPathsList');
+    const tunnelsSection = document.getElementById('tunnelsSection');
+    const forwardList = document.getElementById('forwardList');
+    const tunnelList = document.getElementById('tunnelList');
+    const hostKeyStatus = document.getElementById('hostKeyStatus');
+    const hostKeyList = document.getElementById('hostKeyList');
+    const btnRemoveKnownHost = document.getElementById('btnRemoveKnownHost');
+
+    function showAgentKey(status) {
+      keyAgent.className = 'key-agent';
+      btnAddToAgent.style.display = 'none';
+
+      if (!status) {
+        keyAgent.textContent = '';
+        keyAgent.title = '';
+      } else if (!status.available) {
+        keyAgent.textContent = '· no agent';
+        keyAgent.title = status.error || 'ssh-agent not available';
+      } else if (status.loaded) {
+        keyAgent.textContent = '● in agent';
+        keyAgent.className = 'key-agent loaded';
+        keyAgent.title = 'Loaded in ssh-agent';
+      } else {
+        keyAgent.textContent = '○ not in agent';
+        keyAgent.title = 'Not loaded in ssh-agent';
+        btnAddToAgent.style.display = 'inline';
+      }
+    }
+
+    function addStatusLine(text, warn) {
+      const div = document.createElement('div');
+      div.textContent = text;
+      if (warn) div.className = 'warn';
+      hostKeyStatus.appendChild(div);
+    }
 
     // Escape HTML to prevent XSS
     function escapeHtml(text) {
@@ -589,6 +1015,20 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
     window.addEventListener('message', (event) => {
       const message = event.data;
 
+      if (message.command === 'agent') {
+        showAgentKey(message.agentKey);
+        return;
+      }
+
+      if (message.command === 'credentials') {
+        const stored = [];
+        if (message.password) stored.push('password');
+        if (message.passphrase) stored.push('key passphrase');
+        vesselCredentials.textContent = stored.join(' + ') + ' stored';
+        credentialsRow.style.display = stored.length > 0 ? 'flex' : 'none';
+        return;
+      }
+
       if (message.command === 'update') {
         const vessel = message.vessel;
 
@@ -600,6 +1040,10 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
 
         emptyState.style.display = 'none';
         vesselCard.classList.add('visible');
+        if (vessel.vesselId !== shownVesselId) {
+          credentialsRow.style.display = 'none';
+          shownVesselId = vessel.vesselId;
+        }
 
         vesselIcon.textContent = vessel.favorite ? '⭐' : '🚢';
         vesselName.textContent = vessel.name || vessel.host;
@@ -607,14 +1051,56 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
         vesselHost.textContent = vessel.host;
         vesselUser.textContent = vessel.user;
         vesselPort.textContent = vessel.port;
+        vesselShell.textContent = vessel.shell;
+
+        // Home directory and where it comes from
+        const remoteHome = message.remoteHome;
+        if (remoteHome) {
+          vesselHome.textContent = remoteHome.path;
+          vesselHome.title = remoteHome.source === 'config'
+            ? 'Set in harbor.json (remoteHome)'
+            : 'Detected over SSH';
+        } else {
+          vesselHome.textContent = 'Not detected';
+          vesselHome.title = 'Detected on the first Remote SSH connect';
+        }
+
+        // Status line from the last health check
+        const health = message.health;
+        if (health && health.status !== 'unknown') {
+          const checked = new Date(health.checkedAt).toLocaleTimeString();
+          const parts = health.status === 'up'
+            ? ['Up', health.latency + ' ms', health.banner]
+            : ['Down', health.error];
+          vesselStatus.innerHTML = '';
+          const dot = document.createElement('span');
+          dot.className = 'status-dot';
+          dot.textContent = '● ';
+          vesselStatus.appendChild(dot);
+          vesselStatus.appendChild(document.createTextNode(
+            parts.filter(Boolean).join(' · ') + ' · checked ' + checked
+          ));
+          vesselStatus.className = 'vessel-status ' + health.status;
+          vesselStatus.style.display = 'block';
+        } else {
+          vesselStatus.style.display = 'none';
+        }
 
         if (vessel.identityFile) {
           keyRow.style.display = 'flex';
           vesselKey.textContent = vessel.identityFile;
+          showAgentKey(message.agentKey);
         } else {
           keyRow.style.display = 'none';
         }
 
+        if (vessel.jumpHosts && vessel.jumpHosts.length > 0) {
+          jumpRow.style.display = 'flex';
+          vesselJump.textContent = vessel.jumpHosts.join(' → ');
+        } else {
+          jumpRow.style.display = 'none';
+        }
+
         // Tags (using textContent to prevent XSS)
         tagsContainer.innerHTML = '';
         if (vessel.tags && vessel.tags.length > 0) {
@@ -635,6 +1121,89 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
           favoriteBtn.classList.remove('unfav');
         }
 
+        // Tunnels - configured forwards and running tunnel-only sessions
+        const forwards = message.forwards || [];
+        const tunnels = message.tunnels || [];
+        if (forwards.length > 0) {
+          tunnelsSection.style.display = 'block';
+          forwardList.innerHTML = '';
+          forwards.forEach(f => {
+            const div = document.createElement('div');
+            div.className = 'forward-item';
+            div.textContent = f; // Safe: textContent escapes HTML
+            forwardList.appendChild(div);
+          });
+
+          tunnelList.innerHTML = '';
+          tunnels.forEach(t => {
+            const item = document.createElement('div');
+            item.className = 'tunnel-item';
+
+            const label = document.createElement('span');
+            label.className = 'tunnel-label';
+            label.textContent = '🟢 ' + t.label;
+            label.title = 'Started ' + new Date(t.startedAt).toLocaleTimeString();
+
+            const stop = document.createElement('button');
+            stop.className = 'tunnel-stop';
+            stop.textContent = 'Stop';
+            stop.onclick = () => vscode.postMessage({ command: 'stopTunnel', id: t.id });
+
+            item.appendChild(label);
+            item.appendChild(stop);
+            tunnelList.appendChild(item);
+          });
+        } else {
+          tunnelsSection.style.display = 'none';
+        }
+
+        // Host keys - pinned fingerprint and the last scan
+        const report = message.hostKeys;
+        const pinned = message.pinnedFingerprint;
+        hostKeyStatus.innerHTML = '';
+        hostKeyList.innerHTML = '';
+        btnRemoveKnownHost.style.display = 'none';
+
+        if (!report) {
+          addStatusLine(pinned ? 'Pinned: ' + pinned : 'Not scanned yet');
+        } else {
+          if (report.pin === 'match') addStatusLine('✓ Matches the pinned fingerprint');
+          else if (report.pin === 'mismatch') addStatusLine('⚠ No key matches the pinned fingerprint ' + pinned, true);
+          else addStatusLine('No fingerprint pinned');
+
+          if (report.knownHosts === 'match') addStatusLine('✓ known_hosts is up to date');
+          else if (report.knownHosts === 'mismatch') addStatusLine('⚠ known_hosts has a different key', true);
+          else addStatusLine('Not in known_hosts yet');
+
+          btnRemoveKnownHost.style.display = report.knownHosts === 'mismatch' ? 'flex' : 'none';
+
+          report.keys.forEach(k => {
+            const item = document.createElement('div');
+            item.className = 'host-key-item';
+
+            const label = document.createElement('span');
+            label.className = 'host-key-label';
+            label.textContent = k.type + ' ' + k.fingerprint; // Safe: textContent escapes HTML
+            label.title = k.fingerprint;
+            item.appendChild(label);
+
+            if (k.fingerprint === pinned) {
+              const mark = document.createElement('span');
+              mark.textContent = '📌';
+              mark.title = 'Pinned';
+              item.appendChild(mark);
+            } else if (vessel.vesselId) {
+              const pin = document.createElement('button');
+              pin.className = 'host-key-pin';
+              pin.textContent = 'Pin';
+              pin.onclick = () => vscode.postMessage({ command: 'pinHostKey', fingerprint: k.fingerprint });
+              item.appendChild(pin);
+            }
+
+            hostKeyList.appendChild(item);
+          });
+        }
+
         // Saved Paths (Moored Locations) - using safe DOM manipulation to prevent XSS
         const savedPaths = message.savedPaths || [];
         if (savedPaths.length > 0) {
@@ -705,12 +1274,24 @@ export class VesselDetailPanelProvider implements vscode.WebviewViewProvider {
       const favoriteBtn = document.getElementById('favoriteBtn');
       const btnTerminal = document.getElementById('btnTerminal');
       const btnScuttle = document.getElementById('btnScuttle');
+      const btnTunnel = document.getElementById('btnTunnel');
+      const btnEdit = document.getElementById('btnEdit');
+      const btnDetectHome = document.getElementById('btnDetectHome');
+      const btnScanKeys = document.getElementById('btnScanKeys');
 
       if (btnConnect) btnConnect.addEventListener('click', () => action('connect'));
       if (btnCopy) btnCopy.addEventListener('click', () => action('copy'));
       if (favoriteBtn) favoriteBtn.addEventListener('click', () => action('favorite'));
       if (btnTerminal) btnTerminal.addEventListener('click', () => action('connectNewWindow'));
       if (btnScuttle) btnScuttle.addEventListener('click', () => action('remove'));
+      if (btnTunnel) btnTunnel.addEventListener('click', () => action('startTunnel'));
+      if (btnEdit) btnEdit.addEventListener('click', () => action('edit'));
+      if (btnDetectHome) btnDetectHome.addEventListener('click', () => action('detectHome'));
+      if (btnAddToAgent) btnAddToAgent.addEventListener('click', () => action('addToAgent'));
+      const btnForgetCredentials = document.getElementById('btnForgetCredentials');
+      if (btnForgetCredentials) btnForgetCredentials.addEventListener('click', () => action('forgetCredentials'));
+      if (btnScanKeys) btnScanKeys.addEventListener('click', () => action('scanHostKeys'));
+      if (btnRemoveKnownHost) btnRemoveKnownHost.addEventListener('click', () => action('removeKnownHost'));
     }
 
     // Run when DOM is ready